@@ -1,12 +1,61 @@
 import interactiveSearchPrompt from "@inquirer/search";
 import { parseArgs } from "@std/cli/parse-args";
+import { basename } from "@std/path/basename";
+import { dirname } from "@std/path/dirname";
 import { join } from "@std/path/join";
-import { fromPromise } from "neverthrow";
+import {
+  err,
+  errAsync,
+  fromPromise,
+  fromSafePromise,
+  ok,
+  type Result,
+} from "neverthrow";
 import denoJson from "../deno.json" with { type: "json" };
+import { renderError, type RenderErrorOptions } from "./error-renderer.ts";
+import type { OutputFormat } from "./commands/list-themes.ts";
+import type { Settings } from "./settings.ts";
+import type { BackupRetention } from "./theme-manager/backup-history.ts";
 import type { IThemeManager } from "./theme-manager/theme-manager.ts";
+import type { Theme } from "./theme-manager/theme.ts";
 import type { FilePath } from "./types.ts";
+import type { ThemeBrightness } from "./utils/brightness.ts";
+import { type ColorDepth, renderSwatches } from "./utils/swatches.ts";
+import { type Brightness, searchThemes } from "./utils/theme-utils.ts";
 
-type PositionalCommand = "download-themes" | "clear-themes";
+/** Supported subcommands */
+const POSITIONAL_COMMANDS = [
+  "download-themes",
+  "clear-themes",
+  "init",
+  "list",
+  "current",
+  "next",
+  "prev",
+  "random",
+  "favorites",
+  "brightness",
+  "undo",
+  "restore",
+  "backups",
+  "doctor",
+  "overrides",
+  "preview",
+  "apply",
+  "capture",
+] as const;
+
+/** Number of backup snapshots kept unless --keep-backups is given */
+const DEFAULT_KEEP_BACKUPS = 10;
+
+/** Icons shown before theme names in the interactive prompt */
+const BRIGHTNESS_ICONS: Record<ThemeBrightness, string> = {
+  light: "☀️ ",
+  dark: "🌙",
+  unknown: "❔",
+};
+
+type PositionalCommand = typeof POSITIONAL_COMMANDS[number];
 
 type Args = {
   // Flags
@@ -14,14 +63,22 @@ type Args = {
   help: boolean;
   /** Show version */
   version: boolean;
+  /** Apply the highlighted theme temporarily while moving through the prompt */
+  preview: boolean;
   /** Path to the alacritty's configuration file */
   config: string;
   /** Path to the directory containing custom themes' files */
   themes: string;
   /** Path to the alacritty's configuration file backup made before every switch */
   backup: string;
+  /** Path to the directory of timestamped backups made before every switch */
+  "backup-dir": string;
+  /** Number of timestamped backups to keep */
+  "keep-backups"?: string;
+  /** Age in days after which timestamped backups are deleted */
+  "max-backup-age"?: string;
   /**
-   * Path (relative to themes' directory) to a single configuration file that
+   * Filename, path (relative to themes' directory) or label of a theme that
    * should be used directly instead of prompting a select
    */
   select?: string;
@@ -29,6 +86,39 @@ type Args = {
   url: string;
   /** Git reference (branch, tag, or commit SHA) for download-themes command */
   ref: string;
+  /**
+   * Path to the active theme file imported by the configuration. When set,
+   * switching themes replaces only this file (indirection mode).
+   */
+  "active-theme"?: string;
+  /** Symlink the active theme file to the theme instead of copying it */
+  symlink: boolean;
+  /** Print themes as JSON */
+  json: boolean;
+  /** Print themes as plain tab-separated lines */
+  plain: boolean;
+  /** Template for printing each theme, e.g. "{label}\t{path}" */
+  format?: string;
+  /** Brightness ("light" or "dark") to filter themes by */
+  brightness?: string;
+  /** Path to the state file with favorite and recently applied themes */
+  state: string;
+  /** Pick a random theme from favorites only */
+  favorites: boolean;
+  /** Number of recently applied themes the random command skips */
+  "avoid-recent"?: string;
+  /** Seed making the random pick reproducible */
+  seed?: string;
+  /** Path to the overrides file imported after the theme */
+  overrides?: string;
+  /** Fail on theme files that can't be loaded instead of skipping them */
+  strict: boolean;
+  /** Print errors with their whole cause chain */
+  verbose: boolean;
+  /** Apply the theme to the current terminal session only */
+  session: boolean;
+  /** Reset the colors of the current terminal session */
+  reset: boolean;
   // Commands
   /** Subcommand to execute */
   command?: PositionalCommand;
@@ -41,21 +131,60 @@ type Args = {
 /**
  * Parse CLI arguments.
  * @param cliArgs CLI arguments, e.g. returned by Deno.args
+ * @param settings Settings overriding built-in defaults, flags override them
+ * @param discoveredConfig Config found where Alacritty looks for it, the
+ * default config
+ *
+ * The themes, backups and state are kept by default in the directory of the
+ * config set in settings, or else of the discovered one.
  */
 export function getArgs(
   cliArgs: string[],
   homeDir: FilePath,
   os: typeof Deno.build.os,
+  settings: Settings = {},
+  discoveredConfig: FilePath = join(
+    getDefaultConfigDir(homeDir, os),
+    "alacritty.toml",
+  ),
 ): Args {
+  const dataDir = getDataDir(
+    settings.config ?? discoveredConfig,
+    homeDir,
+    os,
+  );
   const parsed = parseArgs(cliArgs, {
-    boolean: ["help", "version"],
+    boolean: [
+      "help",
+      "version",
+      "preview",
+      "symlink",
+      "json",
+      "plain",
+      "favorites",
+      "strict",
+      "verbose",
+      "session",
+      "reset",
+    ],
+    negatable: ["preview", "symlink"],
     string: [
       "config",
       "themes",
       "backup",
+      "backup-dir",
+      "keep-backups",
+      "max-backup-age",
       "select",
       "url",
       "ref",
+      "active-theme",
+      "format",
+      "brightness",
+      "state",
+      "avoid-recent",
+      "seed",
+      "overrides",
     ],
     alias: {
       h: "help",
@@ -68,27 +197,24 @@ export function getArgs(
       r: "ref",
     },
     default: {
-      config: join(getDefaultConfigDir(homeDir, os), "alacritty.toml"),
-      themes: join(getDefaultConfigDir(homeDir, os), "themes"),
-      backup: join(getDefaultConfigDir(homeDir, os), "alacritty.bak.toml"),
+      preview: true,
+      config: discoveredConfig,
+      themes: join(dataDir, "themes"),
+      backup: join(dataDir, "alacritty.bak.toml"),
+      "backup-dir": join(dataDir, "backups"),
+      state: join(dataDir, "ats-state.toml"),
       url: "https://github.com/alacritty/alacritty-theme",
       ref: "master",
+      ...settings,
     },
   });
 
   // Parse subcommand from positional arguments
-  const firstArg = parsed._[0];
-  if (typeof firstArg === "string" && firstArg === "download-themes") {
-    return {
-      ...parsed,
-      command: "download-themes",
-    };
-  }
-
-  if (typeof firstArg === "string" && firstArg === "clear-themes") {
+  const command = parsePositionalCommand(parsed._);
+  if (command !== undefined) {
     return {
       ...parsed,
-      command: "clear-themes",
+      command,
     };
   }
 
@@ -100,15 +226,153 @@ export function parsePositionalCommand(
 ): PositionalCommand | undefined {
   const firstArg = positionalArgs?.[0];
 
-  if (typeof firstArg === "string" && firstArg === "download-themes") {
-    return "download-themes";
+  return POSITIONAL_COMMANDS.find((command) => command === firstArg);
+}
+
+/**
+ * Get the theme name query given as positional arguments after the subcommand.
+ *
+ * @example
+ * getCommandQuery(["list", "monokai", "pro"]) // "monokai pro"
+ */
+export function getCommandQuery(
+  positionalArgs: Array<string | number>,
+): string {
+  return positionalArgs.slice(1).join(" ");
+}
+
+/**
+ * Parse the --brightness option.
+ * @returns A Result containing the brightness (if given) or an error
+ */
+export function parseBrightnessOption(
+  value: string | undefined,
+): Result<Brightness | undefined, InvalidOptionError> {
+  if (value === undefined || value === "light" || value === "dark") {
+    return ok(value);
+  }
+  return err(
+    new InvalidOptionError(
+      "brightness",
+      `Expected "light" or "dark", got "${value}".`,
+    ),
+  );
+}
+
+/**
+ * Parse an option expecting a non-negative integer, e.g. --avoid-recent.
+ * @returns A Result containing the number (if given) or an error
+ */
+export function parseCountOption(
+  option: string,
+  value: string | undefined,
+): Result<number | undefined, InvalidOptionError> {
+  if (value === undefined) {
+    return ok(undefined);
+  }
+  if (!/^\d+$/.test(value)) {
+    return err(
+      new InvalidOptionError(
+        option,
+        `Expected a non-negative integer, got "${value}".`,
+      ),
+    );
   }
+  return ok(Number(value));
+}
+
+/**
+ * Parse the --keep-backups and --max-backup-age options. At least one
+ * snapshot is kept, the one of the current switch.
+ * @returns A Result containing the backup retention or an error
+ */
+export function parseBackupRetention(
+  args: Args,
+): Result<BackupRetention, InvalidOptionError> {
+  return parseCountOption("keep-backups", args["keep-backups"])
+    .andThen((maxCount) =>
+      maxCount === 0
+        ? err(
+          new InvalidOptionError(
+            "keep-backups",
+            'Expected at least 1, got "0".',
+          ),
+        )
+        : ok(maxCount)
+    )
+    .andThen((maxCount) =>
+      parseCountOption("max-backup-age", args["max-backup-age"])
+        .map((maxAgeDays) => ({
+          maxCount: maxCount ?? DEFAULT_KEEP_BACKUPS,
+          maxAgeDays,
+        }))
+    );
+}
 
-  if (typeof firstArg === "string" && firstArg === "clear-themes") {
-    return "clear-themes";
+/**
+ * Get the output format selected by the --json, --plain and --format options.
+ */
+export function getOutputFormat(args: Args): OutputFormat {
+  if (args.json) {
+    return { type: "json" };
   }
+  if (args.format !== undefined) {
+    return { type: "template", template: args.format };
+  }
+  if (args.plain) {
+    return { type: "plain" };
+  }
+  return { type: "table" };
+}
+
+/**
+ * Get the default path of the active theme file used by indirection mode.
+ */
+export function getDefaultActiveThemePath(configPath: FilePath): FilePath {
+  return join(dirname(configPath), "active-theme.toml");
+}
+
+/**
+ * Get the default path of the overrides file colors defined in the config are
+ * moved to.
+ */
+export function getDefaultOverridesPath(configPath: FilePath): FilePath {
+  return join(dirname(configPath), "overrides.toml");
+}
 
-  return undefined;
+/**
+ * Print the applied theme and warn about colors defined in the config, which
+ * Alacritty applies over the theme's colors, and about a state file the theme
+ * couldn't be recorded in.
+ */
+export function printAppliedTheme(themeManager: IThemeManager, theme: Theme) {
+  console.log(`Applied theme ${bold(theme.label)} ✅`);
+  const recentThemeError = themeManager.getRecentThemeError();
+  if (recentThemeError !== null) {
+    console.warn(
+      `⚠️  Could not record ${theme.label} as recently applied: ` +
+        recentThemeError.message,
+    );
+  }
+  const shadowedColors = themeManager.getShadowedColors(theme);
+  if (shadowedColors.length > 0) {
+    console.warn(
+      `⚠️  Your config overrides ${shadowedColors.length} color(s) of the ` +
+        `theme: ${shadowedColors.join(", ")}`,
+    );
+    console.warn(
+      `   Move them to an overrides file with ${bold("ats overrides move")}` +
+        ` or delete them with ${bold("ats overrides delete")}.`,
+    );
+  }
+}
+
+/**
+ * Print an error with a hint on how to fix it. TOML parse errors are printed
+ * with their position and a code frame instead of the whole parsed content.
+ */
+export function printError(error: unknown, options: RenderErrorOptions = {}) {
+  console.error(renderError(error, options));
 }
 
 /**
@@ -121,30 +385,134 @@ export function printHelp() {
       `  ats [options]                    Interactive theme selection\n` +
       `  ats download-themes [options]    Download themes from GitHub repository\n` +
       `  ats clear-themes [options]       Delete all themes from themes directory\n` +
+      `  ats init [options]               Import an active theme file from the config\n` +
+      `  ats list [options] [query]       List themes\n` +
+      `  ats current [options]            Print the active theme\n` +
+      `  ats next|prev [options] [query]  Apply the next or previous theme\n` +
+      `  ats random [options] [query]     Apply a random theme\n` +
+      `  ats favorites [add|remove <theme>]\n` +
+      `                                   List, add or remove favorite themes\n` +
+      `  ats brightness <theme> light|dark|auto\n` +
+      `                                   Set a theme's brightness by hand\n` +
+      `  ats undo [options]               Restore the config from the backup\n` +
+      `  ats backups [list|show <id>|restore <id>]\n` +
+      `                                   List, compare or restore timestamped backups\n` +
+      `  ats doctor [options]             Check the setup for common problems\n` +
+      `  ats overrides [move|delete]      List, move or delete colors defined in the config\n` +
+      `  ats preview <theme>              Print a sample screen in the theme's colors\n` +
+      `  ats apply [--session] <theme>    Apply a theme, or only to this terminal session\n` +
+      `  ats apply --reset                Reset the colors of this terminal session\n` +
+      `  ats capture <name>               Save the terminal's current colors as a theme\n` +
       `\n` +
       `Commands:\n` +
       `  download-themes  Download themes from a GitHub repository\n` +
       `  clear-themes     Delete all theme files from the themes directory\n` +
+      `  init             Make the config import the active theme file once, so that\n` +
+      `                   switching themes with --active-theme replaces only that file\n` +
+      `  list             List themes matching the optional name query\n` +
+      `  current          Print the active theme, fails if none or several are active\n` +
+      `  next, prev       Apply the next or previous theme in the prompt's order, wrapping\n` +
+      `                   around at the ends and staying within the optional name query\n` +
+      `  random           Apply a random theme matching the optional name query, never\n` +
+      `                   the active one\n` +
+      `  favorites        List favorite themes, or add or remove a theme given like\n` +
+      `                   with --select\n` +
+      `  brightness       Set whether a theme given like with --select is light or dark,\n` +
+      `                   for themes sorted into the wrong group or shown as unknown.\n` +
+      `                   "auto" detects it from the theme's colors again\n` +
+      `  undo, restore    Swap the config with the backup made before the last switch,\n` +
+      `                   running it again redoes the switch\n` +
+      `  backups          List timestamped backups with the theme each had active, show\n` +
+      `                   the diff of one against the config, or restore one\n` +
+      `  doctor           Explain why switching themes may have no effect: check the\n` +
+      `                   config location and content, imports, themes and permissions,\n` +
+      `                   with a suggested fix for every problem. Exits with 1 on errors\n` +
+      `  overrides        List colors defined in the config, which win over the theme's\n` +
+      `                   colors. "move" moves them to the overrides file imported after\n` +
+      `                   the theme, "delete" deletes them. The config is backed up first\n` +
+      `  preview          Print a shell prompt, a git diff, a listing, code and the 16\n` +
+      `                   ANSI colors in the colors of a theme given like with --select\n` +
+      `                   or by a path to a theme file, without changing the config\n` +
+      `  apply            Apply a theme given like with --select. With --session, recolor\n` +
+      `                   only the current terminal with escape sequences instead of\n` +
+      `                   changing the config, e.g. to mark an SSH session\n` +
+      `  capture          Ask the terminal for its colors and save them as a new theme\n` +
+      `                   named <name> in the themes directory\n` +
       `\n` +
       `Options:\n` +
       `  -h, --help                 Show this help message and exit.\n` +
       `  -v, --version              Show the version number and exit.\n` +
       `  -c, --config               Path to the alacritty's configuration file\n` +
-      `                             (default: $HOME/.config/alacritty/alacritty.toml)\n` +
+      `                             (default: the first existing of the files Alacritty\n` +
+      `                             looks for, e.g. $HOME/.config/alacritty/alacritty.toml)\n` +
       `  -t, --themes               Path to the directory containing custom themes' files\n` +
       `                             (default: $HOME/.config/alacritty/themes)\n` +
       `  -b, --backup               Path to the alacritty's configuration file backup made\n` +
       `                             before every switch\n` +
       `                             (default: $HOME/.config/alacritty/alacritty.bak.toml)\n` +
-      `  -s, --select               Path (relative to themes' directory) to a single\n` +
-      `                             configuration file that should be used directly instead of\n` +
-      `                             prompting a select\n` +
+      `      --backup-dir           Path to the directory of timestamped backups made\n` +
+      `                             before every switch\n` +
+      `                             (default: $HOME/.config/alacritty/backups)\n` +
+      `      --keep-backups         Number of timestamped backups to keep (default: ${DEFAULT_KEEP_BACKUPS})\n` +
+      `      --max-backup-age       Delete timestamped backups older than the given days\n` +
+      `  -s, --select               Filename, path (relative to themes' directory, ".toml"\n` +
+      `                             may be left out) or label of a theme that should be used\n` +
+      `                             directly instead of prompting a select. Fails listing the\n` +
+      `                             candidates if several themes match\n` +
+      `      --no-preview           Don't apply the highlighted theme while moving through\n` +
+      `                             the interactive prompt\n` +
+      `      --active-theme         Path to the active theme file imported by the config.\n` +
+      `                             Switching themes replaces only this file instead of\n` +
+      `                             editing the config (run "ats init" first)\n` +
+      `                             (default for init: <config dir>/active-theme.toml)\n` +
+      `      --[no-]symlink         Symlink the active theme file instead of copying it\n` +
+      `      --state                Path to the file keeping favorite and recently applied\n` +
+      `                             themes\n` +
+      `                             (default: $HOME/.config/alacritty/ats-state.toml)\n` +
+      `      --overrides            Path to the overrides file imported after the theme\n` +
+      `                             (default: <config dir>/overrides.toml)\n` +
+      `      --strict               Fail on theme files that can't be loaded instead of\n` +
+      `                             skipping them with a warning\n` +
+      `      --verbose              Print errors with their whole cause chain\n` +
+      `\n` +
+      `list, current, favorites and doctor options:\n` +
+      `      --brightness           Show only "light" or "dark" themes (list only)\n` +
+      `      --json                 Print themes (or doctor's findings) as JSON\n` +
+      `      --plain                Print themes as tab-separated lines without a header\n` +
+      `                             (list and favorites only)\n` +
+      `      --format               Print each theme using a template with the fields\n` +
+      `                             {label}, {path}, {absolutePath}, {brightness},\n` +
+      `                             {confidence}, {active}\n` +
+      `\n` +
+      `next and prev options:\n` +
+      `      --brightness           Step through "light" or "dark" themes only\n` +
+      `\n` +
+      `random options:\n` +
+      `      --brightness           Pick "light" or "dark" themes only\n` +
+      `      --favorites            Pick favorite themes only\n` +
+      `      --avoid-recent         Skip the given number of recently applied themes\n` +
+      `                             unless no other theme matches\n` +
+      `      --seed                 Seed making the pick reproducible\n` +
+      `\n` +
+      `apply options:\n` +
+      `      --session              Apply the theme to the current terminal session only\n` +
+      `      --reset                Put back the configured colors of the session\n` +
       `\n` +
       `download-themes options:\n` +
       `  -u, --url                  GitHub repository URL to download themes from\n` +
       `                             (default: https://github.com/alacritty/alacritty-theme)\n` +
       `  -r, --ref                  Git reference (branch, tag, or commit SHA) to download from\n` +
-      `                             (default: master)`,
+      `                             (default: master)\n` +
+      `\n` +
+      `Settings:\n` +
+      `  Defaults of the options above can be set in\n` +
+      `  $XDG_CONFIG_HOME/alacritty-theme-switch/config.toml, e.g. themes = "~/themes",\n` +
+      `  or by ATS_* environment variables, e.g. ATS_THEMES=~/themes.\n` +
+      `  Flags override environment variables, which override the settings file.\n` +
+      `\n` +
+      `Exit codes:\n` +
+      `  0 success, 1 unexpected error, 2 invalid usage, 3 theme or backup not found,\n` +
+      `  4 invalid config or theme content, 5 file system error, 6 network error`,
   );
 }
 
@@ -155,6 +523,18 @@ export function printVersion() {
   console.log(denoJson.version);
 }
 
+/**
+ * Error thrown when a CLI option has an invalid value.
+ */
+export class InvalidOptionError extends Error {
+  readonly _tag = "InvalidOptionError";
+  option: string;
+  constructor(option: string, reason: string, options?: ErrorOptions) {
+    super(`Invalid value of --${option}. ${reason}`, options);
+    this.option = option;
+  }
+}
+
 class ExitPromptError extends Error {
   _tag = "ExitPromptError";
   constructor(options?: ErrorOptions) {
@@ -168,58 +548,142 @@ class InteractiveSearchError extends Error {
   }
 }
 
+/** Interactive theme selection options */
+type InteractiveSelectionOptions = {
+  /** Apply the highlighted theme temporarily as the cursor moves */
+  livePreview?: boolean;
+  /** Colors the terminal can show the themes' palettes with */
+  colorDepth?: ColorDepth;
+};
+
+/**
+ * Live preview of the theme highlighted in the prompt.
+ *
+ * Previews run one at a time, so that config writes never overlap. When the
+ * highlight changes during a preview, only the last highlighted theme is
+ * previewed next, skipping the ones the cursor has already moved past.
+ */
+export type LivePreview = {
+  /** Tells which theme is highlighted, previewing it if it changed */
+  highlight(path: FilePath): void;
+  /** Gets the error of the last preview of the theme, if it failed */
+  getError(path: FilePath): Error | undefined;
+  /** Waits until no preview is running */
+  settled(): Promise<void>;
+};
+
+/**
+ * Creates the live preview of the highlighted theme.
+ *
+ * @param themeManager - Theme manager instance
+ * @param themes - Themes that can be highlighted
+ * @param activePath - Path to the theme applied before the prompt, which
+ * doesn't need to be previewed
+ */
+export function createLivePreview(
+  themeManager: IThemeManager,
+  themes: Theme[],
+  activePath?: FilePath,
+): LivePreview {
+  const themesByPath = new Map(themes.map((theme) => [theme.path, theme]));
+  const errors = new Map<FilePath, Error>();
+  let highlightedPath = activePath;
+  let previewedPath = activePath;
+  let running: Promise<void> | null = null;
+
+  const previewHighlighted = async () => {
+    while (highlightedPath !== previewedPath) {
+      const path = highlightedPath;
+      previewedPath = path;
+      const theme = path === undefined ? undefined : themesByPath.get(path);
+      if (path === undefined || theme === undefined) {
+        continue;
+      }
+      const result = await themeManager.previewTheme(theme);
+      if (result.isErr()) {
+        errors.set(path, result.error);
+      } else {
+        errors.delete(path);
+      }
+    }
+  };
+
+  return {
+    highlight(path) {
+      if (path === highlightedPath) {
+        return;
+      }
+      highlightedPath = path;
+      running ??= previewHighlighted().finally(() => {
+        running = null;
+      });
+    },
+    getError(path) {
+      return errors.get(path);
+    },
+    settled() {
+      return running ?? Promise.resolve();
+    },
+  };
+}
+
 /**
  * Displays an interactive prompt to select a theme.
+ *
+ * With live preview enabled, the highlighted theme is applied temporarily as
+ * the cursor moves. Cancelling the prompt puts back the original configuration,
+ * confirming leaves it to `applyTheme` to make the change permanent.
+ *
  * @param themeManager - Theme manager instance
+ * @param options - Selection options
  * @returns A ResultAsync containing the selected theme or an error
  */
-export function interactiveThemesSelection(themeManager: IThemeManager) {
+export function interactiveThemesSelection(
+  themeManager: IThemeManager,
+  options: InteractiveSelectionOptions = {},
+) {
   const themes = themeManager.listThemes();
   const activeTheme = themeManager.getFirstActiveTheme();
+  const colorDepth = options.colorDepth ?? "256";
+  const livePreview = options.livePreview
+    ? createLivePreview(themeManager, themes, activeTheme?.path)
+    : null;
 
   const filterThemesOnInput = (input: string | undefined) => {
-    return themes
-      .filter((theme) => {
-        // If no input, show all themes
-        if (!input) {
-          return true;
-        }
-        // Match on brightness
-        if (/^light|dark$/i.test(input)) {
-          return theme.brightness === input.trim().toLowerCase();
-        }
-        // Dumb fuzzy matching
-        const inputWords = input.split(/\s+/);
-        const allMatch = inputWords.every((word) =>
-          theme.label.toLowerCase().includes(word.toLowerCase())
-        );
-        if (allMatch) {
-          return true;
-        }
-        return false;
-      })
-      .sort((a, b) => {
-        // Sort by brightness first (dark before light)
-        if (a.brightness !== b.brightness) {
-          return a.brightness === "dark" ? -1 : 1;
-        }
-        // Then sort alphabetically by label
-        return a.label.localeCompare(b.label, undefined, { numeric: true });
-      })
-      .map((theme) => {
-        // Add brightness indicator to theme name
-        const brightnessIcon = theme.brightness === "light" ? "☀️ " : "🌙";
-        const themeName = `${brightnessIcon} ${theme.label}`;
-
-        return {
-          name: theme.isCurrentlyActive
-            ? underscore(bold(themeName) + " ✨")
-            : themeName,
-          value: theme,
-        };
-      });
+    return searchThemes(themes, input ?? "").map(({ theme, positions }) => {
+      // Add brightness indicator and palette to theme name
+      const brightnessIcon = BRIGHTNESS_ICONS[theme.brightness];
+      const swatches = renderSwatches(theme.colors, colorDepth);
+      const themeName = [
+        brightnessIcon,
+        swatches,
+        highlightPositions(theme.label, positions),
+      ].filter((part) => part !== "").join(" ");
+
+      return {
+        name: theme.isCurrentlyActive
+          ? underscore(bold(themeName) + " ✨")
+          : themeName,
+        value: theme,
+        // Description is rendered only for the highlighted theme
+        description: theme.path,
+      };
+    });
+  };
+
+  // The prompt has no highlight event, but renders the description of the
+  // highlighted theme only, so rendering it tells the highlighted theme
+  const describeHighlighted = (path: string) => {
+    livePreview?.highlight(path);
+    const error = livePreview?.getError(path);
+    return error === undefined
+      ? dim(path)
+      : `${dim(path)}\n⚠️  Preview failed: ${error.message}`;
   };
 
+  const previewsSettled = () =>
+    fromSafePromise(livePreview?.settled() ?? Promise.resolve());
+
   return fromPromise(
     interactiveSearchPrompt({
       message: activeTheme
@@ -229,9 +693,11 @@ export function interactiveThemesSelection(themeManager: IThemeManager) {
         style: {
           keysHelpTip: () =>
             "(Use arrow keys to navigate, type to search, space to select and enter to confirm)",
+          description: describeHighlighted,
         },
       },
       pageSize: 10,
+      default: themes.find((theme) => theme.isCurrentlyActive),
       source: filterThemesOnInput,
     }),
     (error) => {
@@ -240,7 +706,15 @@ export function interactiveThemesSelection(themeManager: IThemeManager) {
       }
       return new InteractiveSearchError({ cause: error });
     },
-  );
+  )
+    .andThen((selectedTheme) => {
+      return previewsSettled().map(() => selectedTheme);
+    })
+    .orElse((error) => {
+      return previewsSettled()
+        .andThen(() => themeManager.cancelPreview())
+        .andThen(() => errAsync(error));
+    });
 }
 
 /**
@@ -281,6 +755,31 @@ function getDefaultConfigDir(
   return join(homeDir, ".config", "alacritty");
 }
 
+/**
+ * Get the directory of the default themes, backups and state: the
+ * "alacritty" directory the config is in, or an "alacritty" directory next
+ * to it, e.g. for $XDG_CONFIG_HOME/alacritty.toml. A config in the home
+ * directory or in /etc, which is shared by all users, uses the user's
+ * default config directory instead.
+ */
+function getDataDir(
+  configPath: FilePath,
+  homeDir: FilePath,
+  os: typeof Deno.build.os,
+): FilePath {
+  const configDir = dirname(configPath);
+  if (
+    configDir === "/etc" || configDir.startsWith("/etc/") ||
+    configDir === homeDir
+  ) {
+    return getDefaultConfigDir(homeDir, os);
+  }
+  if (basename(configDir) === "alacritty") {
+    return configDir;
+  }
+  return join(configDir, "alacritty");
+}
+
 /**
  * Make terminal output text bold.
  */
@@ -288,9 +787,33 @@ export function bold(s: string): string {
   return `\x1b[1m${s}\x1b[0m`;
 }
 
+/**
+ * Make terminal output text dim.
+ */
+export function dim(s: string): string {
+  return `\x1b[2m${s}\x1b[0m`;
+}
+
 /**
  * Make terminal output text underlined.
  */
 export function underscore(s: string): string {
   return `\x1b[4m${s}\x1b[0m`;
 }
+
+/**
+ * Color the characters at the given positions yellow. Only the color is reset
+ * after them, so the text can still be made bold or underlined as a whole.
+ *
+ * @example
+ * highlightPositions("Nord", [0, 1]) // "\x1b[33mNo\x1b[39mrd"
+ */
+export function highlightPositions(s: string, positions: number[]): string {
+  const highlighted = new Set(positions);
+  return s.split("")
+    .map((char, index) =>
+      highlighted.has(index) ? `\x1b[33m${char}\x1b[39m` : char
+    )
+    .join("")
+    .replaceAll("\x1b[39m\x1b[33m", "");
+}
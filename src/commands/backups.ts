@@ -0,0 +1,217 @@
+/**
+ * Backups command implementation.
+ *
+ * This module lists timestamped snapshots of the configuration together with
+ * the theme each of them had active and how they differ from the current
+ * configuration, and restores them.
+ */
+
+import { resolve } from "@std/path/resolve";
+import { okAsync, ResultAsync } from "neverthrow";
+import {
+  type BackupHistory,
+  type BackupSnapshot,
+  findSnapshot,
+  listSnapshots,
+  recordSnapshot,
+  restoreSnapshot,
+} from "../theme-manager/backup-history.ts";
+import { resolveImportPath } from "../theme-manager/config-operations.ts";
+import type { IThemeManager } from "../theme-manager/theme-manager.ts";
+import type { Theme } from "../theme-manager/theme.ts";
+import type { FilePath } from "../types.ts";
+import { formatLineDiff } from "../utils/diff.ts";
+import { safeReadFile, safeWriteFile } from "../utils/fs-utils.ts";
+import { formatTable } from "../utils/string-utils.ts";
+import { safeParseTomlContent } from "../utils/toml-utils.ts";
+
+/**
+ * Options for the backups command.
+ */
+export type BackupsOptions = {
+  /** Path to the Alacritty configuration file */
+  configPath: FilePath;
+  /** Directory of timestamped backups and their retention */
+  backupHistory: BackupHistory;
+  /** Home directory, used to expand "~" in imports */
+  homeDir: FilePath;
+};
+
+/**
+ * Backup snapshot compared to the current configuration.
+ */
+export type BackupRecord = {
+  /** Backup snapshot */
+  snapshot: BackupSnapshot;
+  /** Theme the snapshot imports */
+  theme: Theme | undefined;
+  /** Line diff turning the current configuration into the snapshot */
+  diff: string[];
+};
+
+/**
+ * Lists backup snapshots, the newest first.
+ *
+ * @param manager - Theme manager instance
+ * @param options - Command options
+ * @returns A ResultAsync containing the backup records or an error
+ */
+export function listBackupsCommand(
+  manager: IThemeManager,
+  options: BackupsOptions,
+) {
+  return safeReadFile(options.configPath).andThen((configContent) => {
+    return listSnapshots(options.backupHistory.dir).andThen((snapshots) =>
+      ResultAsync.combine(
+        snapshots.map((snapshot) =>
+          toBackupRecord(manager, options, snapshot, configContent)
+        ),
+      )
+    );
+  });
+}
+
+/**
+ * Compares the backup snapshot with the given identifier to the current
+ * configuration.
+ *
+ * @param manager - Theme manager instance
+ * @param options - Command options
+ * @param id - Snapshot identifier
+ * @returns A ResultAsync containing the backup record or an error
+ */
+export function showBackupCommand(
+  manager: IThemeManager,
+  options: BackupsOptions,
+  id: string,
+) {
+  return safeReadFile(options.configPath).andThen((configContent) => {
+    return findSnapshot(options.backupHistory.dir, id).andThen((snapshot) =>
+      toBackupRecord(manager, options, snapshot, configContent)
+    );
+  });
+}
+
+/**
+ * Restores the backup snapshot with the given identifier.
+ *
+ * The replaced configuration is backed up like before any switch, so the
+ * restore can be undone with `ats undo` or by restoring its snapshot.
+ *
+ * @param options - Command options
+ * @param backupPath - Path to the configuration file backup
+ * @param id - Snapshot identifier
+ * @returns A ResultAsync containing the restored snapshot or an error
+ */
+export function restoreBackupCommand(
+  options: BackupsOptions,
+  backupPath: FilePath,
+  id: string,
+) {
+  return findSnapshot(options.backupHistory.dir, id).andThen((snapshot) => {
+    return safeReadFile(options.configPath).andThen((configContent) => {
+      return safeWriteFile(backupPath, configContent)
+        .andThen(() => restoreSnapshot(options.configPath, snapshot))
+        // Recorded last, pruning mustn't delete the snapshot being restored
+        .andThen(() => recordSnapshot(options.backupHistory, configContent))
+        .map(() => snapshot);
+    });
+  });
+}
+
+/**
+ * Formats backup records as a table.
+ *
+ * @param records - Backup records to format
+ * @returns Formatted output without a trailing line break
+ *
+ * @example
+ * ```
+ * ID                   CREATED              THEME        CHANGES
+ * 20261018-093015-042  2026-10-18 11:30:15  Monokai Pro  +1 -1
+ * ```
+ */
+export function formatBackupRecords(records: BackupRecord[]): string {
+  return formatTable([
+    ["ID", "CREATED", "THEME", "CHANGES"],
+    ...records.map((record) => [
+      record.snapshot.id,
+      formatLocalTime(record.snapshot.createdAt),
+      record.theme?.label ?? "-",
+      formatChanges(record.diff),
+    ]),
+  ]);
+}
+
+/**
+ * Reads the snapshot and compares it to the current configuration.
+ */
+function toBackupRecord(
+  manager: IThemeManager,
+  options: BackupsOptions,
+  snapshot: BackupSnapshot,
+  configContent: string,
+): ResultAsync<BackupRecord, never> {
+  return safeReadFile(snapshot.path)
+    .map((content) => ({
+      snapshot,
+      theme: findImportedTheme(manager.listThemes(), options, content),
+      diff: formatLineDiff(configContent, content),
+    }))
+    // A snapshot deleted or unreadable in the meantime is listed as unknown
+    .orElse(() => okAsync({ snapshot, theme: undefined, diff: [] }));
+}
+
+/**
+ * Finds the theme imported by the configuration content. Imports written
+ * with "~" or relative to the configuration are resolved first.
+ */
+function findImportedTheme(
+  themes: Theme[],
+  options: BackupsOptions,
+  content: string,
+): Theme | undefined {
+  const imports: string[] = safeParseTomlContent(content).map(getImports)
+    .unwrapOr([]);
+  const resolvedImports = imports.map((importPath) =>
+    resolveImportPath(importPath, options.configPath, options.homeDir)
+  );
+  return themes.find((theme) => resolvedImports.includes(resolve(theme.path)));
+}
+
+/**
+ * Gets the imports of a parsed configuration, leaving out anything else than
+ * paths.
+ */
+function getImports(config: Record<string, unknown>): string[] {
+  const general = config.general;
+  if (
+    typeof general !== "object" || general === null || !("import" in general)
+  ) {
+    return [];
+  }
+  return Array.isArray(general.import)
+    ? general.import.filter((path) => typeof path === "string")
+    : [];
+}
+
+/**
+ * Summarizes a line diff, e.g. "+1 -1", or "none" without changes.
+ */
+function formatChanges(diff: string[]): string {
+  const added = diff.filter((line) => line.startsWith("+")).length;
+  const removed = diff.filter((line) => line.startsWith("-")).length;
+  return added === 0 && removed === 0 ? "none" : `+${added} -${removed}`;
+}
+
+/**
+ * Formats the date in local time, e.g. "2026-10-18 11:30:15".
+ */
+function formatLocalTime(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${
+    pad(date.getDate())
+  } ${pad(date.getHours())}:${pad(date.getMinutes())}:${
+    pad(date.getSeconds())
+  }`;
+}
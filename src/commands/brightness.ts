@@ -0,0 +1,56 @@
+/**
+ * Brightness command implementation.
+ *
+ * This module sets the brightness of a theme by hand, for themes whose colors
+ * are classified wrongly or not at all. The brightness is written to the
+ * theme file as a comment and wins over the one detected from the colors.
+ */
+
+import { errAsync } from "neverthrow";
+import { writeBrightnessOverride } from "../theme-manager/theme-metadata.ts";
+import type { IThemeManager } from "../theme-manager/theme-manager.ts";
+import { safeReadFile, safeWriteFile } from "../utils/fs-utils.ts";
+import type { Brightness } from "../utils/theme-utils.ts";
+
+/** Brightness to set, "auto" going back to the detected one */
+export type BrightnessSetting = Brightness | "auto";
+
+/**
+ * Checks whether the value is a brightness that can be set.
+ */
+export function isBrightnessSetting(
+  value: string,
+): value is BrightnessSetting {
+  return value === "light" || value === "dark" || value === "auto";
+}
+
+/**
+ * Sets the brightness of the theme with the given filename, path or label.
+ *
+ * @param manager - Theme manager instance
+ * @param name - Filename, path or label of the theme
+ * @param brightness - Brightness to set, or "auto" to detect it again
+ * @returns A ResultAsync containing the updated theme or an error
+ */
+export function setBrightnessCommand(
+  manager: IThemeManager,
+  name: string,
+  brightness: BrightnessSetting,
+) {
+  const themeResult = manager.findThemeByFilename(name);
+  if (themeResult.isErr()) {
+    return errAsync(themeResult.error);
+  }
+
+  const theme = themeResult.value;
+  const override = brightness === "auto" ? null : brightness;
+  return safeReadFile(theme.path)
+    .andThen((content) =>
+      safeWriteFile(theme.path, writeBrightnessOverride(content, override))
+    )
+    .map(() => {
+      manager.setBrightnessOverride(theme.path, override);
+      theme.brightnessOverride = override;
+      return theme;
+    });
+}
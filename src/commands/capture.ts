@@ -0,0 +1,195 @@
+/**
+ * Capture command implementation.
+ *
+ * This module asks the running terminal for its colors with OSC 4, 10 and 11
+ * queries and saves them as a new theme in the themes' directory, e.g. to keep
+ * a palette tweaked by hand or set by another tool.
+ */
+
+import { dirname } from "@std/path/dirname";
+import { join } from "@std/path/join";
+import { err, errAsync, ok, okAsync, type Result } from "neverthrow";
+import {
+  InvalidThemeNameError,
+  NoTerminalColorsError,
+  ThemeExistsError,
+} from "../theme-manager/errors.ts";
+import { Theme } from "../theme-manager/theme.ts";
+import type { FilePath } from "../types.ts";
+import { formatColor, type RGB } from "../utils/colors.ts";
+import { safeEnsureDir, safeStat, safeWriteFile } from "../utils/fs-utils.ts";
+import { queryTerminal, type Terminal } from "../utils/terminal.ts";
+import { safeStringifyToml } from "../utils/toml-utils.ts";
+
+/** Milliseconds to wait for the terminal's replies */
+const DEFAULT_TIMEOUT = 1000;
+
+/** Names of the 8 ANSI colors, in the order of their indices */
+const ANSI_COLOR_NAMES = [
+  "black",
+  "red",
+  "green",
+  "yellow",
+  "blue",
+  "magenta",
+  "cyan",
+  "white",
+] as const;
+
+/** String terminator ending OSC sequences */
+const ST = "\x1b\\";
+
+/** Color reply, e.g. "\x1b]4;1;rgb:ffff/0000/0000\x1b\\" or "\x1b]11;rgb:…\x07" */
+const COLOR_REPLY =
+  // deno-lint-ignore no-control-regex
+  /\x1b\](4;\d+|10|11);rgb:([\da-f]{1,4})\/([\da-f]{1,4})\/([\da-f]{1,4})(?:\x07|\x1b\\)/gi;
+
+/**
+ * Options for the capture command.
+ */
+export type CaptureOptions = {
+  /** Path to the directory containing custom themes' files */
+  themesDirPath: FilePath;
+  /** Name of the new theme */
+  name: string;
+  /** Terminal to query */
+  terminal: Terminal;
+  /** Milliseconds to wait for the terminal's replies */
+  timeout?: number;
+};
+
+/** Colors told by the terminal, as hex colors */
+export type TerminalPalette = {
+  background?: string;
+  foreground?: string;
+  /** ANSI colors by their index */
+  ansi: Map<number, string>;
+};
+
+/**
+ * Execute the capture command.
+ *
+ * @param options - Command options
+ * @returns A ResultAsync containing the new theme or an error
+ */
+export function captureCommand(options: CaptureOptions) {
+  return getThemeFilename(options.name)
+    .map((filename) => join(options.themesDirPath, filename))
+    .asyncAndThen((path) => {
+      return safeStat(path)
+        .map(() => true)
+        .orElse(() => okAsync(false))
+        .andThen((exists) => {
+          return exists ? errAsync(new ThemeExistsError(path)) : queryTerminal(
+            options.terminal,
+            formatPaletteQuery(),
+            options.timeout ?? DEFAULT_TIMEOUT,
+          );
+        })
+        .andThen((replies) => toThemeContent(parsePaletteReplies(replies)))
+        .andThen((content) => {
+          return safeStringifyToml(content)
+            .asyncAndThen((toml) => {
+              return safeEnsureDir(dirname(path))
+                .andThen(() => safeWriteFile(path, toml));
+            })
+            .map(() => new Theme(path, content));
+        });
+    });
+}
+
+/**
+ * Gets the filename of a theme name, e.g. "my_palette.toml" for "My Palette".
+ * Every part of the name is made into a slug, so that the file stays in the
+ * themes' directory, e.g. "../night" becomes "night.toml". Slashes make
+ * subdirectories and a ".toml" extension is ignored.
+ *
+ * @param name - Name of the theme
+ * @returns A Result containing the filename relative to the themes'
+ * directory, or an error if nothing is left of the name
+ */
+export function getThemeFilename(
+  name: string,
+): Result<string, InvalidThemeNameError> {
+  const parts = name.trim().replace(/\.toml$/i, "").split("/")
+    .map((part) =>
+      part.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "")
+    )
+    .filter((part) => part !== "");
+  if (parts.length === 0) {
+    return err(new InvalidThemeNameError(name));
+  }
+  return ok(`${parts.join("/")}.toml`);
+}
+
+/**
+ * Formats the queries of the 16 ANSI colors (OSC 4), the foreground (OSC 10)
+ * and the background (OSC 11).
+ */
+export function formatPaletteQuery(): string {
+  const ansiQueries = Array.from(
+    { length: 16 },
+    (_, index) => `\x1b]4;${index};?${ST}`,
+  );
+  return [...ansiQueries, `\x1b]10;?${ST}`, `\x1b]11;?${ST}`].join("");
+}
+
+/**
+ * Parses the terminal's replies to color queries. Components with 1 to 4 hex
+ * digits are scaled to 8 bits, e.g. "ffff" to "ff".
+ *
+ * @param replies - Replies read from the terminal
+ * @returns The colors of the replies
+ *
+ * @example
+ * parsePaletteReplies("\x1b]11;rgb:2727/2828/2222\x1b\\")
+ * // { background: "#272822", ansi: Map {} }
+ */
+export function parsePaletteReplies(replies: string): TerminalPalette {
+  const palette: TerminalPalette = { ansi: new Map() };
+  for (const [, command, ...components] of replies.matchAll(COLOR_REPLY)) {
+    const color = formatColor(components.map(scaleComponent) as RGB);
+    if (command === "10") {
+      palette.foreground = color;
+    } else if (command === "11") {
+      palette.background = color;
+    } else {
+      const index = Number(command.slice("4;".length));
+      if (index < 16) {
+        palette.ansi.set(index, color);
+      }
+    }
+  }
+  return palette;
+}
+
+/**
+ * Makes the content of an Alacritty theme of the palette. Colors the terminal
+ * didn't tell are left out, except for the foreground and background.
+ */
+function toThemeContent(palette: TerminalPalette) {
+  const { background, foreground } = palette;
+  if (background === undefined || foreground === undefined) {
+    return err(new NoTerminalColorsError());
+  }
+  const colorTable = (offset: number) =>
+    Object.fromEntries(
+      ANSI_COLOR_NAMES
+        .map((name, index) => [name, palette.ansi.get(offset + index)])
+        .filter(([, color]) => color !== undefined),
+    );
+  const normal = colorTable(0);
+  const bright = colorTable(8);
+  return ok({
+    colors: {
+      primary: { background, foreground },
+      ...(Object.keys(normal).length > 0 ? { normal } : {}),
+      ...(Object.keys(bright).length > 0 ? { bright } : {}),
+    },
+  });
+}
+
+function scaleComponent(component: string): number {
+  const max = 16 ** component.length - 1;
+  return Math.round(parseInt(component, 16) / max * 255);
+}
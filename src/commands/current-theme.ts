@@ -0,0 +1,48 @@
+/**
+ * Current theme command implementation.
+ *
+ * This module reports the currently active theme in a form suitable for
+ * status lines, shell prompts and scripts.
+ */
+
+import type { IThemeManager } from "../theme-manager/theme-manager.ts";
+import {
+  formatTemplate,
+  type OutputFormat,
+  type ThemeRecord,
+} from "./list-themes.ts";
+
+/**
+ * Execute the current command.
+ *
+ * Fails if the configuration imports no theme or several themes at once.
+ *
+ * @param manager - Theme manager instance
+ * @returns A Result containing the active theme or an error
+ */
+export function currentThemeCommand(manager: IThemeManager) {
+  return manager.getActiveTheme();
+}
+
+/**
+ * Formats the active theme record in the given output format.
+ * Table and plain formats print just the label.
+ *
+ * @param record - Active theme record
+ * @param format - Output format
+ * @returns Formatted output
+ */
+export function formatCurrentTheme(
+  record: ThemeRecord,
+  format: OutputFormat,
+): string {
+  switch (format.type) {
+    case "json":
+      return JSON.stringify(record, null, 2);
+    case "template":
+      return formatTemplate(format.template, record);
+    case "table":
+    case "plain":
+      return record.label;
+  }
+}
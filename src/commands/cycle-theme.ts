@@ -0,0 +1,77 @@
+/**
+ * Cycle theme command implementation.
+ *
+ * This module steps through themes in the same order as the interactive
+ * prompt, so that switching themes can be bound to a key.
+ */
+
+import { errAsync, okAsync, type ResultAsync } from "neverthrow";
+import { NoMatchingThemesError } from "../theme-manager/errors.ts";
+import type { IThemeManager } from "../theme-manager/theme-manager.ts";
+import type { Theme } from "../theme-manager/theme.ts";
+import {
+  compareThemes,
+  filterThemes,
+  type ThemeFilter,
+} from "../utils/theme-utils.ts";
+
+/** Direction to step through themes in */
+export type CycleDirection = "next" | "prev";
+
+/**
+ * Options for the next and prev commands.
+ */
+export type CycleThemeOptions = ThemeFilter & {
+  /** Whether to apply the next or the previous theme */
+  direction: CycleDirection;
+};
+
+/**
+ * Execute the next or prev command.
+ *
+ * Applies the theme following (or preceding) the active one among the themes
+ * matching the filter, wrapping around at the ends. If the active theme
+ * doesn't match the filter, the first (or the last) matching theme is applied.
+ *
+ * @param manager - Theme manager instance
+ * @param options - Command options
+ * @returns A ResultAsync containing the applied theme or an error
+ */
+export function cycleThemeCommand(
+  manager: IThemeManager,
+  options: CycleThemeOptions,
+) {
+  const themes = filterThemes(manager.listThemes(), options)
+    .sort(compareThemes);
+  const theme = getAdjacentTheme(themes, options.direction);
+  const themeResult: ResultAsync<Theme, NoMatchingThemesError> =
+    theme === undefined
+      ? errAsync(new NoMatchingThemesError())
+      : okAsync(theme);
+
+  return themeResult.andThen((theme) => manager.applyTheme(theme));
+}
+
+/**
+ * Picks the theme next to the active one in the given direction.
+ *
+ * @param themes - Sorted themes
+ * @param direction - Direction to step in
+ * @returns The adjacent theme, or undefined if there are no themes
+ */
+export function getAdjacentTheme(
+  themes: Theme[],
+  direction: CycleDirection,
+): Theme | undefined {
+  if (themes.length === 0) {
+    return undefined;
+  }
+
+  const activeIndex = themes.findIndex((theme) => theme.isCurrentlyActive);
+  if (activeIndex === -1) {
+    return direction === "next" ? themes[0] : themes[themes.length - 1];
+  }
+
+  const offset = direction === "next" ? 1 : -1;
+  return themes[(activeIndex + offset + themes.length) % themes.length];
+}
@@ -0,0 +1,411 @@
+/**
+ * Doctor command implementation.
+ *
+ * This module checks the setup for the usual reasons why switching themes
+ * "does nothing", e.g. Alacritty reading a different configuration file or
+ * colors defined in the configuration overriding the imported theme.
+ * Every finding comes with a severity and a suggested fix.
+ */
+
+import { dirname } from "@std/path/dirname";
+import { resolve } from "@std/path/resolve";
+import { fromPromise, okAsync, ResultAsync } from "neverthrow";
+import type { ConfigDiscovery } from "../config-discovery.ts";
+import { summarizeError } from "../error-renderer.ts";
+import {
+  parseConfig,
+  resolveImportPath,
+} from "../theme-manager/config-operations.ts";
+import { loadThemes } from "../theme-manager/theme-manager.ts";
+import { validateThemeContent } from "../theme-manager/theme-schema.ts";
+import type { Config, FilePath } from "../types.ts";
+import { safeStat } from "../utils/fs-utils.ts";
+
+/** Severity of a finding */
+export type Severity = "ok" | "info" | "warning" | "error";
+
+/**
+ * Result of a single check.
+ */
+export type Finding = {
+  /** Identifier of the check, e.g. "config-parse" */
+  check: string;
+  /** How serious the finding is */
+  severity: Severity;
+  /** What was found */
+  message: string;
+  /** How to fix it */
+  fix?: string;
+};
+
+/**
+ * Options for the doctor command.
+ */
+export type DoctorOptions = {
+  /** Path to the Alacritty configuration file ats edits */
+  configPath: FilePath;
+  /** Result of looking up the configuration like Alacritty does */
+  configDiscovery: ConfigDiscovery;
+  /** Path to the directory containing custom themes' files */
+  themesDirPath: FilePath;
+  /** Path to the configuration file backup */
+  backupPath: FilePath;
+  /** Path to the active theme file in indirection mode */
+  activeThemePath?: FilePath;
+  /** Home directory, used to expand "~" in imports */
+  homeDir: FilePath;
+};
+
+/**
+ * Execute the doctor command.
+ *
+ * Checks are read-only, except that the themes' directory is created if it
+ * doesn't exist, the same as by any other command.
+ *
+ * @param options - Command options
+ * @returns A ResultAsync containing the findings in the order of checks
+ */
+export function doctorCommand(
+  options: DoctorOptions,
+): ResultAsync<Finding[], never> {
+  return checkThemes(options.themesDirPath)
+    .andThen(({ themePaths, findings: themeFindings }) => {
+      return ResultAsync.combine([
+        okAsync(checkConfigPath(options)),
+        checkConfigContent(options, themePaths),
+        okAsync(themeFindings),
+        checkWritable(
+          "themes-dir-writable",
+          options.themesDirPath,
+          "directory",
+        ),
+        checkWritable("backup-writable", options.backupPath, "file"),
+      ]);
+    })
+    .map((findings) => findings.flat());
+}
+
+/**
+ * Checks whether ats edits the same configuration file Alacritty reads.
+ */
+function checkConfigPath(options: DoctorOptions): Finding[] {
+  const { configPath, configDiscovery } = options;
+  const check = "config-path";
+
+  if (configPath !== configDiscovery.path) {
+    if (configDiscovery.exists) {
+      return [{
+        check,
+        severity: "warning",
+        message:
+          `ats edits ${configPath}, but Alacritty reads ${configDiscovery.path}.`,
+        fix: `Use --config ${configDiscovery.path}, or start Alacritty ` +
+          `with --config-file ${configPath}.`,
+      }];
+    }
+    return [{
+      check,
+      severity: "info",
+      message: `Using config ${configPath} given by an option or setting.`,
+    }];
+  }
+
+  if (!configDiscovery.exists) {
+    return [{
+      check,
+      severity: "warning",
+      message: `No Alacritty config found. Searched: ${
+        configDiscovery.candidates.join(", ")
+      }.`,
+      fix: `Apply a theme to create ${configPath}.`,
+    }];
+  }
+  return [{
+    check,
+    severity: "ok",
+    message: `Using config ${configPath}, the first one Alacritty finds.`,
+  }];
+}
+
+/**
+ * Parses the configuration and checks its imports and colors.
+ */
+function checkConfigContent(
+  options: DoctorOptions,
+  themePaths: FilePath[],
+): ResultAsync<Finding[], never> {
+  return safeStat(options.configPath)
+    .map(() => true)
+    .orElse(() => okAsync(false))
+    .andThen((exists) => {
+      // Don't let parseConfig create a missing config
+      if (!exists) {
+        return okAsync<Finding[]>([]);
+      }
+      const configResult: ResultAsync<Config, Error> = parseConfig(
+        options.configPath,
+      );
+      return configResult
+        .andThen((config) => {
+          return checkMissingImports(config, options).map((missing) => [
+            {
+              check: "config-parse",
+              severity: "ok",
+              message: `Config ${options.configPath} is valid TOML.`,
+            } satisfies Finding,
+            ...checkImports(config, options, themePaths),
+            ...missing,
+          ]);
+        })
+        .orElse((error) =>
+          okAsync<Finding[]>([{
+            check: "config-parse",
+            severity: "error",
+            message: `Config ${options.configPath} can't be parsed: ${
+              summarizeError(error)
+            }`,
+            fix: "Fix the config, or restore the previous one with `ats undo`.",
+          }])
+        );
+    });
+}
+
+/**
+ * Checks the import list and inline colors of the parsed configuration.
+ */
+function checkImports(
+  config: Config,
+  options: DoctorOptions,
+  themePaths: FilePath[],
+): Finding[] {
+  const findings: Finding[] = [];
+  const imports = config.general?.import;
+  // Imports may be written with "~" or relative to the configuration
+  const resolvedImports = (imports ?? []).map((importPath) =>
+    resolveImportPath(importPath, options.configPath, options.homeDir)
+  );
+
+  if (imports === undefined || imports.length === 0) {
+    findings.push({
+      check: "general-import",
+      severity: "warning",
+      message: "Config doesn't import any file, so no theme is active.",
+      fix: "Pick a theme with `ats`, or run `ats init` for indirection mode.",
+    });
+  } else if (
+    options.activeThemePath !== undefined &&
+    !resolvedImports.includes(resolve(options.activeThemePath))
+  ) {
+    findings.push({
+      check: "general-import",
+      severity: "error",
+      message:
+        `Config doesn't import the active theme file ${options.activeThemePath}.`,
+      fix: `Run \`ats init --active-theme ${options.activeThemePath}\`.`,
+    });
+  } else {
+    findings.push({
+      check: "general-import",
+      severity: "ok",
+      message: `Config imports ${imports.length} file(s).`,
+    });
+  }
+
+  const themesPaths = new Set(themePaths.map((path) => resolve(path)));
+  const importedThemes = (imports ?? []).filter((_, index) =>
+    themesPaths.has(resolvedImports[index])
+  );
+  if (importedThemes.length > 1) {
+    findings.push({
+      check: "multiple-themes",
+      severity: "error",
+      message: `Several themes are imported at once, the last one wins: ${
+        importedThemes.join(", ")
+      }.`,
+      fix: "Apply a theme with `ats` to keep just one of them.",
+    });
+  }
+
+  if (config.colors !== undefined) {
+    findings.push({
+      check: "inline-colors",
+      severity: "warning",
+      message:
+        "Config defines [colors], which override colors of any imported theme.",
+      fix: "Run `ats overrides move` to import them after the theme, or " +
+        "`ats overrides delete` to delete them.",
+    });
+  }
+
+  return findings;
+}
+
+/**
+ * Checks that every imported file exists.
+ */
+function checkMissingImports(
+  config: Config,
+  options: DoctorOptions,
+): ResultAsync<Finding[], never> {
+  const imports = config.general?.import ?? [];
+  return ResultAsync.combine(
+    imports.map((importPath) => {
+      const path = resolveImportPath(
+        importPath,
+        options.configPath,
+        options.homeDir,
+      );
+      return safeStat(path)
+        .map((): Finding[] => [])
+        .orElse(() =>
+          okAsync<Finding[]>([{
+            check: "missing-import",
+            severity: "error",
+            message: `Imported file ${importPath} doesn't exist.`,
+            fix: "Remove it from general.import, or apply another theme " +
+              "with `ats`.",
+          }])
+        );
+    }),
+  ).map((findings) => findings.flat());
+}
+
+/**
+ * Loads themes and reports the ones that can't be parsed.
+ */
+function checkThemes(themesDirPath: FilePath): ResultAsync<
+  { themePaths: FilePath[]; findings: Finding[] },
+  never
+> {
+  const check = "themes";
+
+  return loadThemes(themesDirPath)
+    .map(({ themes, failures }) => ({
+      themePaths: themes.map((theme) => theme.path),
+      findings: [
+        {
+          check,
+          severity: "ok",
+          message: `${themes.length} theme(s) in ${themesDirPath} load fine.`,
+        } satisfies Finding,
+        ...failures.map((failure): Finding => ({
+          check,
+          severity: "error",
+          message: `Theme ${failure.path} can't be parsed: ${
+            summarizeError(failure.error)
+          }`,
+          fix: "Fix or delete the theme file.",
+        })),
+        ...themes.flatMap((theme): Finding[] => {
+          const issues = validateThemeContent(theme.themeContent);
+          return issues.length === 0 ? [] : [{
+            check,
+            severity: "warning",
+            message: `Theme ${theme.path} has invalid colors: ${
+              issues.map((issue) => `${issue.path}: ${issue.message}`)
+                .join("; ")
+            }`,
+            fix: "Fix the listed keys in the theme file.",
+          }];
+        }),
+      ],
+    }))
+    .orElse((error) => {
+      if (error._tag === "NoThemesFoundError") {
+        return okAsync({
+          themePaths: [],
+          findings: [
+            {
+              check,
+              severity: "warning",
+              message: `No themes found in ${themesDirPath}.`,
+              fix: "Run `ats download-themes`, or use --themes to point to " +
+                "your themes.",
+            } satisfies Finding,
+          ],
+        });
+      }
+      return okAsync({
+        themePaths: [],
+        findings: [
+          {
+            check,
+            severity: "error",
+            message: `Themes can't be loaded: ${summarizeError(error)}`,
+            fix: "Use --themes to point to a directory with your themes.",
+          } satisfies Finding,
+        ],
+      });
+    });
+}
+
+/**
+ * Checks that a file or a directory can be written to.
+ * A missing file is checked by writing to its directory.
+ */
+function checkWritable(
+  check: string,
+  path: FilePath,
+  type: "file" | "directory",
+): ResultAsync<Finding[], never> {
+  const probeDirectory = (dir: FilePath) =>
+    fromPromise(
+      Deno.makeTempFile({ dir, prefix: ".ats-doctor-" }),
+      (error) => error,
+    ).andThen((tempPath) => fromPromise(Deno.remove(tempPath), (e) => e));
+
+  const probe = type === "directory" ? probeDirectory(path) : safeStat(path)
+    .map(() => true)
+    .orElse(() => okAsync(false))
+    .andThen((exists) =>
+      exists
+        ? fromPromise(Deno.open(path, { write: true }), (e) => e)
+          .map((file) => file.close())
+        : probeDirectory(dirname(path))
+    );
+
+  return probe
+    .map((): Finding[] => [{
+      check,
+      severity: "ok",
+      message: `${path} is writable.`,
+    }])
+    .orElse((error) =>
+      okAsync<Finding[]>([{
+        check,
+        severity: "error",
+        message: `${path} is not writable: ${summarizeError(error)}`,
+        fix: `Check permissions of ${path}, or choose another path.`,
+      }])
+    );
+}
+
+/**
+ * Formats findings for the terminal, each with its suggested fix.
+ *
+ * @param findings - Findings to format
+ * @returns Formatted output without a trailing line break
+ *
+ * @example
+ * ```
+ * ⚠️ Config defines [colors], which override colors of any imported theme.
+ *    Fix: Run `ats overrides move` to import them after the theme, or `ats overrides delete` to delete them.
+ * ```
+ */
+export function formatFindings(findings: Finding[]): string {
+  const icons: Record<Severity, string> = {
+    ok: "✅",
+    info: "ℹ️ ",
+    warning: "⚠️ ",
+    error: "❌",
+  };
+  const lines = findings.flatMap((finding) => [
+    `${icons[finding.severity]} ${finding.message}`,
+    ...(finding.fix ? [`   Fix: ${finding.fix}`] : []),
+  ]);
+
+  const count = (severity: Severity) =>
+    findings.filter((finding) => finding.severity === severity).length;
+  lines.push("", `${count("error")} error(s), ${count("warning")} warning(s)`);
+  return lines.join("\n");
+}
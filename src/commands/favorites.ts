@@ -0,0 +1,83 @@
+/**
+ * Favorites command implementation.
+ *
+ * This module manages the list of favorite themes kept in the state file,
+ * which the random command can pick from.
+ */
+
+import { errAsync } from "neverthrow";
+import { readState, updateState } from "../theme-manager/state.ts";
+import type { IThemeManager } from "../theme-manager/theme-manager.ts";
+import type { FilePath } from "../types.ts";
+import { compareThemes } from "../utils/theme-utils.ts";
+
+/**
+ * Lists favorite themes.
+ *
+ * @param manager - Theme manager instance
+ * @param statePath - Path to the state file
+ * @returns A ResultAsync containing the favorite themes or an error
+ */
+export function listFavoritesCommand(
+  manager: IThemeManager,
+  statePath: FilePath,
+) {
+  return readState(statePath).map((state) => {
+    const favorites = new Set(state.favorites);
+    return manager.listThemes()
+      .filter((theme) => favorites.has(theme.path))
+      .sort(compareThemes);
+  });
+}
+
+/**
+ * Adds the theme with the given filename, path or label to favorites.
+ *
+ * @param manager - Theme manager instance
+ * @param statePath - Path to the state file
+ * @param name - Filename, path or label of the theme
+ * @returns A ResultAsync containing the added theme or an error
+ */
+export function addFavoriteCommand(
+  manager: IThemeManager,
+  statePath: FilePath,
+  name: string,
+) {
+  const themeResult = manager.findThemeByFilename(name);
+  if (themeResult.isErr()) {
+    return errAsync(themeResult.error);
+  }
+
+  const theme = themeResult.value;
+  return updateState(statePath, (state) => ({
+    ...state,
+    favorites: state.favorites.includes(theme.path)
+      ? state.favorites
+      : [...state.favorites, theme.path],
+  })).map(() => theme);
+}
+
+/**
+ * Removes the theme with the given filename, path or label from favorites.
+ *
+ * @param manager - Theme manager instance
+ * @param statePath - Path to the state file
+ * @param name - Filename, path or label of the theme
+ * @returns A ResultAsync containing the removed theme or an error
+ */
+export function removeFavoriteCommand(
+  manager: IThemeManager,
+  statePath: FilePath,
+  name: string,
+) {
+  const themeResult = manager.findThemeByFilename(name);
+  if (themeResult.isErr()) {
+    return errAsync(themeResult.error);
+  }
+
+  const theme = themeResult.value;
+  return updateState(statePath, (state) => ({
+    ...state,
+    favorites: state.favorites.filter((path) => path !== theme.path),
+  })).map(() => theme);
+}
@@ -0,0 +1,100 @@
+import { okAsync, type ResultAsync } from "neverthrow";
+import {
+  type ActiveThemeFileMode,
+  writeActiveThemeFile,
+} from "../theme-manager/active-theme-file.ts";
+import {
+  createBackup,
+  writeConfigImports,
+} from "../theme-manager/config-operations.ts";
+import type { ActiveThemeFileError } from "../theme-manager/errors.ts";
+import { createThemeManager } from "../theme-manager/theme-manager.ts";
+import type { Theme } from "../theme-manager/theme.ts";
+import type { FilePath } from "../types.ts";
+import type { WriteError } from "../utils/fs-errors.ts";
+import { safeStat, safeWriteFile } from "../utils/fs-utils.ts";
+
+/**
+ * Options for the init command.
+ */
+export type InitOptions = {
+  /** Path to the Alacritty configuration file */
+  configPath: FilePath;
+  /** Path to the directory containing custom themes' files */
+  themesDirPath: FilePath;
+  /** Path to the configuration file backup */
+  backupPath: FilePath;
+  /** Path to the active theme file the configuration should import */
+  activeThemePath: FilePath;
+  /** Whether the active theme file is a copy of the theme or a symlink to it */
+  activeThemeMode: ActiveThemeFileMode;
+};
+
+/**
+ * Result of the init command.
+ */
+export type InitResult = {
+  /** Whether the configuration already imported the active theme file */
+  alreadyInitialized: boolean;
+  /** Theme moved from the configuration imports to the active theme file */
+  migratedTheme: Theme | undefined;
+};
+
+/**
+ * Execute the init command.
+ *
+ * Sets up indirection mode by adding the one-time import of the active theme
+ * file to the Alacritty configuration. A theme imported directly by the
+ * configuration is moved to the active theme file, so the colors don't change.
+ *
+ * @param options - Command options
+ * @returns A ResultAsync containing the init result or an error
+ */
+export function initCommand(options: InitOptions) {
+  return createThemeManager({
+    configPath: options.configPath,
+    themesDirPath: options.themesDirPath,
+    backupPath: options.backupPath,
+  }).andThen((manager) => {
+    const imports = manager.getConfig().general?.import ?? [];
+    if (imports.includes(options.activeThemePath)) {
+      return okAsync<InitResult>({
+        alreadyInitialized: true,
+        migratedTheme: undefined,
+      });
+    }
+
+    const themesPaths = new Set(manager.listThemes().map((t) => t.path));
+    const newImports = [
+      ...imports.filter((importPath) => !themesPaths.has(importPath)),
+      options.activeThemePath,
+    ];
+    const migratedTheme = manager.getFirstActiveTheme();
+
+    const activeThemeFileResult: ResultAsync<
+      void,
+      ActiveThemeFileError | WriteError
+    > = migratedTheme
+      ? writeActiveThemeFile(
+        options.activeThemePath,
+        migratedTheme.path,
+        options.activeThemeMode,
+      )
+      : ensureEmptyFile(options.activeThemePath);
+
+    return activeThemeFileResult
+      .andThen(() => createBackup(options.configPath, options.backupPath))
+      .andThen(() => writeConfigImports(options.configPath, newImports))
+      .map((): InitResult => ({ alreadyInitialized: false, migratedTheme }));
+  });
+}
+
+/**
+ * Creates an empty file unless it exists already, so that Alacritty
+ * doesn't complain about importing a missing file.
+ */
+function ensureEmptyFile(path: FilePath) {
+  return safeStat(path)
+    .map(() => undefined)
+    .orElse(() => safeWriteFile(path, ""));
+}
@@ -0,0 +1,157 @@
+/**
+ * List themes command implementation.
+ *
+ * This module lists available themes and formats them as a table, as plain
+ * tab-separated lines, as JSON or with a custom template, so that the output
+ * can be piped into other tools.
+ */
+
+import { relative } from "@std/path/relative";
+import type { IThemeManager } from "../theme-manager/theme-manager.ts";
+import type { Theme } from "../theme-manager/theme.ts";
+import type { FilePath } from "../types.ts";
+import type { ThemeBrightness } from "../utils/brightness.ts";
+import { formatTable } from "../utils/string-utils.ts";
+import {
+  compareThemes,
+  filterThemes,
+  type ThemeFilter,
+} from "../utils/theme-utils.ts";
+
+/**
+ * Options for the list command.
+ */
+export type ListThemesOptions = ThemeFilter;
+
+/**
+ * Theme fields available in the command output.
+ */
+export type ThemeRecord = {
+  /** Human-readable theme name */
+  label: string;
+  /** Path relative to the themes' directory */
+  path: string;
+  /** Full path to the theme file */
+  absolutePath: FilePath;
+  /** Theme brightness, "unknown" if it can't be told */
+  brightness: ThemeBrightness;
+  /** How sure the brightness is, from 0 to 1, 1 if set by hand */
+  confidence: number;
+  /** Whether the theme is currently active */
+  active: boolean;
+};
+
+/**
+ * Output format of theme records.
+ * Templates reference record fields in braces, e.g. "{label}\t{path}".
+ */
+export type OutputFormat =
+  | { type: "table" }
+  | { type: "plain" }
+  | { type: "json" }
+  | { type: "template"; template: string };
+
+/**
+ * Execute the list command.
+ *
+ * Returns the themes matching the options in the same order as the
+ * interactive prompt: dark themes first, then light ones, then those of
+ * unknown brightness, each group alphabetically.
+ *
+ * @param manager - Theme manager instance
+ * @param options - Command options
+ * @returns Matching themes
+ */
+export function listThemesCommand(
+  manager: IThemeManager,
+  options: ListThemesOptions,
+): Theme[] {
+  return filterThemes(manager.listThemes(), options).sort(compareThemes);
+}
+
+/**
+ * Converts a theme to a record of its output fields.
+ *
+ * @param theme - Theme to convert
+ * @param themesDirPath - Path to the themes' directory
+ * @returns Theme record
+ */
+export function toThemeRecord(
+  theme: Theme,
+  themesDirPath: FilePath,
+): ThemeRecord {
+  return {
+    label: theme.label,
+    path: relative(themesDirPath, theme.path),
+    absolutePath: theme.path,
+    brightness: theme.brightness,
+    confidence: theme.brightnessConfidence,
+    active: theme.isCurrentlyActive === true,
+  };
+}
+
+/**
+ * Formats theme records in the given output format.
+ *
+ * @param records - Theme records to format
+ * @param format - Output format
+ * @returns Formatted output without a trailing line break
+ *
+ * @example
+ * ```
+ * LABEL        PATH              BRIGHTNESS  ACTIVE
+ * Monokai Pro  monokai_pro.toml  dark        *
+ * ```
+ */
+export function formatThemeRecords(
+  records: ThemeRecord[],
+  format: OutputFormat,
+): string {
+  switch (format.type) {
+    case "json":
+      return JSON.stringify(records, null, 2);
+    case "plain":
+      return records
+        .map((record) =>
+          [
+            record.label,
+            record.path,
+            record.brightness,
+            record.active ? "*" : "",
+          ].join("\t")
+        )
+        .join("\n");
+    case "template":
+      return records
+        .map((record) => formatTemplate(format.template, record))
+        .join("\n");
+    case "table":
+      return formatTable([
+        ["LABEL", "PATH", "BRIGHTNESS", "ACTIVE"],
+        ...records.map((record) => [
+          record.label,
+          record.path,
+          record.brightness,
+          record.active ? "*" : "",
+        ]),
+      ]);
+  }
+}
+
+/**
+ * Fills in record fields referenced in braces and expands \t and \n escapes.
+ * Unknown fields are left as they are.
+ *
+ * @example
+ * formatTemplate("{label}\\t{brightness}", record) // "Monokai Pro	dark"
+ */
+export function formatTemplate(template: string, record: ThemeRecord): string {
+  return template
+    .replace(/\{(\w+)\}/g, (match, field: string) => {
+      return Object.hasOwn(record, field)
+        ? String(record[field as keyof ThemeRecord])
+        : match;
+    })
+    .replaceAll("\\t", "\t")
+    .replaceAll("\\n", "\n");
+}
@@ -0,0 +1,134 @@
+/**
+ * Overrides command implementation.
+ *
+ * This module lists colors defined in the Alacritty configuration itself,
+ * which win over the colors of any imported theme, and moves them to an
+ * overrides file imported after the theme or deletes them.
+ */
+
+import { errAsync } from "neverthrow";
+import {
+  type BackupHistory,
+  recordSnapshot,
+} from "../theme-manager/backup-history.ts";
+import {
+  appendToOverrides,
+  extractInlineColors,
+  findShadowedColors,
+  listColorKeys,
+} from "../theme-manager/color-overrides.ts";
+import { BackupError } from "../theme-manager/errors.ts";
+import type { IThemeManager } from "../theme-manager/theme-manager.ts";
+import type { FilePath } from "../types.ts";
+import { safeReadFile, safeWriteFile } from "../utils/fs-utils.ts";
+import { safeParseTomlContent } from "../utils/toml-utils.ts";
+
+/**
+ * Options for moving and deleting inline colors.
+ */
+export type OverridesOptions = {
+  /** Path to the Alacritty configuration file */
+  configPath: FilePath;
+  /** Path to the configuration file backup */
+  backupPath: FilePath;
+  /** Directory of timestamped backups and their retention */
+  backupHistory: BackupHistory;
+  /** Path to the overrides file imported after the theme */
+  overridesPath: FilePath;
+};
+
+/**
+ * Color defined in the configuration itself.
+ */
+export type InlineColor = {
+  /** Dotted key, e.g. "colors.primary.background" */
+  key: string;
+  /** Whether the color shadows a color of the active theme */
+  shadowed: boolean;
+};
+
+/**
+ * Lists colors defined in the configuration itself.
+ *
+ * @param manager - Theme manager instance
+ * @returns The inline colors
+ */
+export function listOverridesCommand(manager: IThemeManager): InlineColor[] {
+  const config = manager.getConfig();
+  const activeTheme = manager.getFirstActiveTheme();
+  const shadowed = new Set(
+    activeTheme ? findShadowedColors(config, activeTheme.themeContent) : [],
+  );
+  return listColorKeys(config).map((key) => ({
+    key,
+    shadowed: shadowed.has(key),
+  }));
+}
+
+/**
+ * Moves colors defined in the configuration to the overrides file and
+ * imports it after the theme. The configuration is backed up first, and it
+ * is written back as it was if the overrides file can't be written, so that
+ * the colors are neither lost nor moved twice when the move is run again.
+ *
+ * @param options - Command options
+ * @returns A ResultAsync containing the keys of the moved colors or an error
+ */
+export function moveOverridesCommand(options: OverridesOptions) {
+  return safeReadFile(options.configPath).andThen((configContent) => {
+    return extractInlineColors(
+      options.configPath,
+      configContent,
+      options.overridesPath,
+    ).asyncAndThen(({ content, removed }) => {
+      return appendToOverrides(options.overridesPath, removed)
+        .andThen((overrides) =>
+          backupConfig(options, configContent)
+            .andThen(() => safeWriteFile(options.configPath, content))
+            .andThen(() =>
+              safeWriteFile(options.overridesPath, overrides).orElse((error) =>
+                safeWriteFile(options.configPath, configContent)
+                  .andThen(() => errAsync(error))
+              )
+            )
+        )
+        .andThen(() => listRemovedKeys(removed));
+    });
+  });
+}
+
+/**
+ * Deletes colors defined in the configuration. The configuration is backed
+ * up first, so `ats undo` brings the colors back.
+ *
+ * @param options - Command options
+ * @returns A ResultAsync containing the keys of the deleted colors or an error
+ */
+export function deleteOverridesCommand(
+  options: Omit<OverridesOptions, "overridesPath">,
+) {
+  return safeReadFile(options.configPath).andThen((configContent) => {
+    return extractInlineColors(options.configPath, configContent)
+      .asyncAndThen(({ content, removed }) => {
+        return backupConfig(options, configContent)
+          .andThen(() => safeWriteFile(options.configPath, content))
+          .andThen(() => listRemovedKeys(removed));
+      });
+  });
+}
+
+/**
+ * Backs up the configuration content the same way a theme switch does.
+ */
+function backupConfig(
+  options: Omit<OverridesOptions, "overridesPath">,
+  content: string,
+) {
+  return safeWriteFile(options.backupPath, content)
+    .andThen(() => recordSnapshot(options.backupHistory, content))
+    .mapErr((error) => new BackupError(options.configPath, { cause: error }));
+}
+
+function listRemovedKeys(removed: string) {
+  return safeParseTomlContent(removed).map(listColorKeys);
+}
@@ -0,0 +1,208 @@
+/**
+ * Preview command implementation.
+ *
+ * This module prints a sample terminal screen in a theme's colors: a shell
+ * prompt, a git diff, a directory listing, a highlighted code snippet and the
+ * 16 ANSI colors. The colors are written with 24-bit escape sequences, so the
+ * preview looks the same whichever theme the terminal uses, and the Alacritty
+ * configuration is left untouched.
+ */
+
+import { okAsync } from "neverthrow";
+import { findTheme } from "../theme-manager/theme-lookup.ts";
+import { loadThemes } from "../theme-manager/theme-manager.ts";
+import { Theme } from "../theme-manager/theme.ts";
+import type { FilePath } from "../types.ts";
+import { parseRgb, type RGB } from "../utils/colors.ts";
+import { safeStat } from "../utils/fs-utils.ts";
+import { getPalette } from "../utils/swatches.ts";
+import { isToml, safeParseToml } from "../utils/toml-utils.ts";
+
+/** Width of the sample screen in columns */
+const SCREEN_WIDTH = 64;
+
+/** Colors used when the theme doesn't define them */
+const DEFAULT_BACKGROUND: RGB = [0, 0, 0];
+const DEFAULT_FOREGROUND: RGB = [255, 255, 255];
+
+/**
+ * Options for the preview command.
+ */
+export type PreviewOptions = {
+  /** Path to the directory containing custom themes' files */
+  themesDirPath: FilePath;
+  /** Theme given like with `--select`, or a path to a theme file */
+  name: string;
+};
+
+/** Colors of the sample screen, as RGB components */
+type PreviewPalette = {
+  background: RGB;
+  foreground: RGB;
+  /** The 8 normal colors followed by the 8 bright colors */
+  ansi: RGB[];
+};
+
+/** Text drawn in one color, the foreground if none is given */
+type Span = {
+  text: string;
+  color?: RGB;
+  bold?: boolean;
+};
+
+/**
+ * Finds the theme to preview.
+ *
+ * @param options - Command options
+ * @returns A ResultAsync containing the theme or an error
+ */
+export function previewCommand(options: PreviewOptions) {
+  return findThemeOrFile(options.themesDirPath, options.name);
+}
+
+/**
+ * Finds a theme given like with `--select`. An existing TOML file given by its
+ * path is loaded directly, so themes outside the themes' directory can be
+ * used before adding them.
+ *
+ * @param themesDirPath - Path to the directory containing custom themes' files
+ * @param name - Theme name or path to a theme file
+ * @returns A ResultAsync containing the theme or an error
+ */
+export function findThemeOrFile(themesDirPath: FilePath, name: string) {
+  const isThemeFile = isToml(name)
+    ? safeStat(name).map((stat) => stat.isFile).orElse(() => okAsync(false))
+    : okAsync(false);
+
+  return isThemeFile.andThen((isFile) => {
+    if (isFile) {
+      return safeParseToml(name).map((content) => new Theme(name, content));
+    }
+    return loadThemes(themesDirPath)
+      .andThen(({ themes }) => findTheme(themes, name, themesDirPath));
+  });
+}
+
+/**
+ * Renders the sample screen in the theme's colors. Missing bright colors fall
+ * back to the normal ones, missing normal colors to the foreground.
+ *
+ * @param theme - Theme to preview
+ * @returns Lines of the sample screen joined by line breaks
+ */
+export function renderPreview(theme: Theme): string {
+  const palette = toPreviewPalette(getPalette(theme.colors));
+  const [, red, green, yellow, blue, magenta, cyan] = palette.ansi;
+  const brightBlack = palette.ansi[8];
+
+  const prompt = (command: string): Span[] => [
+    { text: "user@host", color: green, bold: true },
+    { text: ":" },
+    { text: "~/projects/app", color: blue, bold: true },
+    { text: " (main)", color: magenta },
+    { text: ` $ ${command}` },
+  ];
+
+  const lines: Span[][] = [
+    [],
+    prompt("git diff"),
+    [{ text: "diff --git a/src/theme.ts b/src/theme.ts", bold: true }],
+    [{ text: "@@ -1,2 +1,2 @@", color: cyan }],
+    [{ text: ' export const name = "Monokai";' }],
+    [{ text: '-export const mode = "dark";', color: red }],
+    [{ text: '+export const mode = "light";', color: green }],
+    [],
+    prompt("ls --color"),
+    [
+      { text: "src", color: blue, bold: true },
+      { text: "  " },
+      { text: "README.md" },
+      { text: "  " },
+      { text: "install.sh", color: green, bold: true },
+      { text: "  " },
+      { text: "latest", color: cyan, bold: true },
+      { text: "  " },
+      { text: "themes.tar.gz", color: red, bold: true },
+    ],
+    [],
+    prompt("cat src/main.ts"),
+    [{ text: "// Switch to the next theme", color: brightBlack }],
+    [
+      { text: "import", color: magenta },
+      { text: " { cycle } " },
+      { text: "from", color: magenta },
+      { text: ' "./cycle.ts"', color: green },
+      { text: ";" },
+    ],
+    [
+      { text: "const", color: magenta },
+      { text: " delay = " },
+      { text: "250", color: yellow },
+      { text: ";" },
+    ],
+    [
+      { text: "await", color: magenta },
+      { text: " " },
+      { text: "cycle", color: blue },
+      { text: "(" },
+      { text: '"next"', color: green },
+      { text: ", { delay, " },
+      { text: "wrap", color: cyan },
+      { text: ": " },
+      { text: "true", color: yellow },
+      { text: " });" },
+    ],
+    [],
+    colorRow(palette.ansi.slice(0, 8)),
+    colorRow(palette.ansi.slice(8)),
+    [],
+  ];
+
+  return lines.map((spans) => renderLine(spans, palette)).join("\n");
+}
+
+function toPreviewPalette(colors: (string | undefined)[]): PreviewPalette {
+  const parse = (color: string | undefined) =>
+    color === undefined ? null : parseRgb(color);
+  const background = parse(colors[0]) ?? DEFAULT_BACKGROUND;
+  const foreground = parse(colors[1]) ?? DEFAULT_FOREGROUND;
+  const normal = colors.slice(2, 10).map((color) => parse(color) ?? foreground);
+  const bright = colors.slice(10, 18).map((color, index) =>
+    parse(color) ?? normal[index]
+  );
+  return { background, foreground, ansi: [...normal, ...bright] };
+}
+
+/** Blocks of the 8 colors of a row of the ANSI color grid */
+function colorRow(colors: RGB[]): Span[] {
+  return colors.flatMap((color) => [
+    { text: " " },
+    { text: "██████", color },
+  ]);
+}
+
+/**
+ * Draws the spans on the theme's background, padded to the screen width so
+ * that the screen is a rectangle.
+ */
+function renderLine(spans: Span[], palette: PreviewPalette): string {
+  const padding = Math.max(
+    0,
+    SCREEN_WIDTH - spans.reduce((width, span) => width + span.text.length, 1),
+  );
+  const line: Span[] = [{ text: " " }, ...spans, { text: " ".repeat(padding) }];
+  const text = line
+    .map((span) => {
+      const color = rgbEscape(38, span.color ?? palette.foreground);
+      return span.bold
+        ? `${color}\x1b[1m${span.text}\x1b[22m`
+        : `${color}${span.text}`;
+    })
+    .join("");
+  return `${rgbEscape(48, palette.background)}${text}\x1b[0m`;
+}
+
+/** Escape sequence setting a 24-bit foreground (38) or background (48) color */
+function rgbEscape(layer: 38 | 48, [r, g, b]: RGB): string {
+  return `\x1b[${layer};2;${r};${g};${b}m`;
+}
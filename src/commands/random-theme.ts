@@ -0,0 +1,107 @@
+/**
+ * Random theme command implementation.
+ *
+ * This module applies a random theme, optionally limited to favorites or to
+ * themes matching a filter. The active theme and recently applied themes are
+ * skipped, so that running it repeatedly always changes the colors.
+ */
+
+import { errAsync } from "neverthrow";
+import { NoMatchingThemesError } from "../theme-manager/errors.ts";
+import { readState, type State } from "../theme-manager/state.ts";
+import type { IThemeManager } from "../theme-manager/theme-manager.ts";
+import type { Theme } from "../theme-manager/theme.ts";
+import type { FilePath } from "../types.ts";
+import {
+  compareThemes,
+  filterThemes,
+  type ThemeFilter,
+} from "../utils/theme-utils.ts";
+
+/**
+ * Options for the random command.
+ */
+export type RandomThemeOptions = ThemeFilter & {
+  /** Pick from favorite themes only */
+  favorites?: boolean;
+  /** Number of recently applied themes to skip */
+  avoidRecent?: number;
+  /** Seed making the pick reproducible */
+  seed?: string;
+};
+
+/**
+ * Execute the random command.
+ *
+ * @param manager - Theme manager instance
+ * @param statePath - Path to the state file with favorites and recent themes
+ * @param options - Command options
+ * @returns A ResultAsync containing the applied theme or an error
+ */
+export function randomThemeCommand(
+  manager: IThemeManager,
+  statePath: FilePath,
+  options: RandomThemeOptions,
+) {
+  return readState(statePath).andThen((state) => {
+    const theme = pickRandomTheme(manager.listThemes(), state, options);
+    if (theme === undefined) {
+      return errAsync(new NoMatchingThemesError());
+    }
+    return manager.applyTheme(theme);
+  });
+}
+
+/**
+ * Picks a random theme matching the options.
+ *
+ * The active theme is never picked. Recently applied themes are skipped
+ * unless no other theme matches the options.
+ *
+ * @param themes - Available themes
+ * @param state - State with favorites and recently applied themes
+ * @param options - Command options
+ * @returns The picked theme, or undefined if no theme matches the options
+ */
+export function pickRandomTheme(
+  themes: Theme[],
+  state: State,
+  options: RandomThemeOptions,
+): Theme | undefined {
+  const favorites = new Set(state.favorites);
+  const candidates = filterThemes(themes, options)
+    .filter((theme) => !theme.isCurrentlyActive)
+    .filter((theme) => !options.favorites || favorites.has(theme.path))
+    // Walk order isn't guaranteed, sorting keeps seeded picks reproducible
+    .sort(compareThemes);
+
+  const avoidRecent = options.avoidRecent ?? 0;
+  const recent = new Set(
+    avoidRecent > 0 ? state.recent.slice(-avoidRecent) : [],
+  );
+  const freshCandidates = candidates.filter((theme) => !recent.has(theme.path));
+  const pool = freshCandidates.length > 0 ? freshCandidates : candidates;
+
+  const random = options.seed === undefined
+    ? Math.random
+    : createSeededRandom(options.seed);
+  return pool[Math.floor(random() * pool.length)];
+}
+
+/**
+ * Creates a pseudo-random number generator (mulberry32) seeded with a hash
+ * (FNV-1a) of the given string.
+ */
+function createSeededRandom(seed: string): () => number {
+  let state = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    state = Math.imul(state ^ seed.charCodeAt(i), 0x01000193);
+  }
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,96 @@
+/**
+ * Session colors command implementation.
+ *
+ * This module recolors only the current terminal session with OSC escape
+ * sequences: OSC 4 sets the palette, OSC 10, 11 and 12 the foreground,
+ * background and cursor colors. The Alacritty configuration is left
+ * untouched, and OSC 104, 110, 111 and 112 put back the configured colors.
+ */
+
+import type { CellColor, ThemeColors } from "../theme-manager/theme-schema.ts";
+import type { FilePath } from "../types.ts";
+import { parseRgb } from "../utils/colors.ts";
+import { getPalette } from "../utils/swatches.ts";
+import { findThemeOrFile } from "./preview.ts";
+
+/** String terminator ending OSC sequences */
+const ST = "\x1b\\";
+
+/**
+ * Options for applying a theme to the terminal session.
+ */
+export type SessionColorsOptions = {
+  /** Path to the directory containing custom themes' files */
+  themesDirPath: FilePath;
+  /** Theme given like with `--select`, or a path to a theme file */
+  name: string;
+};
+
+/**
+ * Finds the theme and formats the escape sequences applying its colors to
+ * the terminal session.
+ *
+ * @param options - Command options
+ * @returns A ResultAsync containing the theme and its sequences or an error
+ */
+export function sessionColorsCommand(options: SessionColorsOptions) {
+  return findThemeOrFile(options.themesDirPath, options.name)
+    .map((theme) => ({
+      theme,
+      sequences: formatSessionColors(theme.colors),
+    }));
+}
+
+/**
+ * Formats OSC sequences setting the theme's colors: the 16 ANSI colors and
+ * the indexed colors (OSC 4), the foreground (OSC 10), the background
+ * (OSC 11) and the cursor (OSC 12). Missing colors are left as they are.
+ *
+ * @param colors - Theme colors
+ * @returns The escape sequences
+ *
+ * @example
+ * formatSessionColors({ primary: { background: "#272822" } })
+ * // "\x1b]11;rgb:27/28/22\x1b\\"
+ */
+export function formatSessionColors(colors: ThemeColors): string {
+  const [background, foreground, ...ansi] = getPalette(colors);
+  const palette = [
+    ...ansi.map((color, index) => ({ index, color })),
+    ...(colors.indexed_colors ?? []),
+  ];
+  return [
+    ...palette.map(({ index, color }) => osc(`4;${index}`, color)),
+    osc("10", foreground),
+    osc("11", background),
+    osc("12", colors.cursor?.cursor),
+  ].join("");
+}
+
+/**
+ * Formats OSC sequences resetting the palette (OSC 104), the foreground
+ * (OSC 110), the background (OSC 111) and the cursor color (OSC 112) to the
+ * terminal's configured colors.
+ *
+ * @returns The escape sequences
+ */
+export function formatSessionReset(): string {
+  return ["104", "110", "111", "112"]
+    .map((command) => `\x1b]${command}${ST}`)
+    .join("");
+}
+
+/**
+ * Formats an OSC sequence setting a color in the `rgb:rr/gg/bb` form
+ * terminals understand, or nothing for colors that can't be parsed, such as
+ * Alacritty's `CellForeground`.
+ */
+function osc(command: string, color: CellColor | undefined): string {
+  const rgb = color === undefined ? null : parseRgb(color);
+  if (rgb === null) {
+    return "";
+  }
+  const spec = rgb.map((value) => value.toString(16).padStart(2, "0"))
+    .join("/");
+  return `\x1b]${command};rgb:${spec}${ST}`;
+}
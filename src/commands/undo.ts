@@ -0,0 +1,26 @@
+import { restoreBackup } from "../theme-manager/config-operations.ts";
+import type { FilePath } from "../types.ts";
+
+/**
+ * Options for the undo command.
+ */
+export type UndoOptions = {
+  /** Path to the Alacritty configuration file */
+  configPath: FilePath;
+  /** Path to the configuration file backup */
+  backupPath: FilePath;
+};
+
+/**
+ * Execute the undo command.
+ *
+ * Swaps the configuration file with the backup made before the last switch.
+ * The replaced configuration becomes the new backup, so running the command
+ * again redoes the switch.
+ *
+ * @param options - Command options
+ * @returns A ResultAsync containing void or an error
+ */
+export function undoCommand(options: UndoOptions) {
+  return restoreBackup(options.configPath, options.backupPath);
+}
@@ -0,0 +1,78 @@
+/**
+ * Discovery of the Alacritty configuration file.
+ *
+ * The configuration is looked up in the same places and in the same order as
+ * Alacritty itself does, so that ats edits the file Alacritty actually reads.
+ */
+
+import { join } from "@std/path/join";
+import { okAsync, ResultAsync } from "neverthrow";
+import type { FilePath } from "./types.ts";
+import { safeStat } from "./utils/fs-utils.ts";
+
+/**
+ * Result of the configuration file discovery.
+ */
+export type ConfigDiscovery = {
+  /** Path to the first existing configuration file, or to the first searched one */
+  path: FilePath;
+  /** Whether the file exists, otherwise it's created on first use */
+  exists: boolean;
+  /** Searched paths in order */
+  candidates: FilePath[];
+};
+
+/**
+ * Get the paths Alacritty searches for its configuration file, in order.
+ *
+ * On POSIX systems these are $XDG_CONFIG_HOME/alacritty/alacritty.toml,
+ * $XDG_CONFIG_HOME/alacritty.toml, $HOME/.config/alacritty/alacritty.toml,
+ * $HOME/.alacritty.toml and /etc/alacritty/alacritty.toml, where
+ * $XDG_CONFIG_HOME defaults to $HOME/.config. On Windows it's only
+ * %APPDATA%\alacritty\alacritty.toml.
+ */
+export function getConfigCandidates(
+  homeDir: FilePath,
+  os: typeof Deno.build.os,
+  env: Record<string, string>,
+): FilePath[] {
+  if (os === "windows") {
+    return [join(homeDir, "alacritty", "alacritty.toml")];
+  }
+  const configHome = env.XDG_CONFIG_HOME ?? join(homeDir, ".config");
+  const candidates = [
+    join(configHome, "alacritty", "alacritty.toml"),
+    join(configHome, "alacritty.toml"),
+    join(homeDir, ".config", "alacritty", "alacritty.toml"),
+    join(homeDir, ".alacritty.toml"),
+    "/etc/alacritty/alacritty.toml",
+  ];
+  return [...new Set(candidates)];
+}
+
+/**
+ * Finds the first existing configuration file among the candidates.
+ * If none exists, the first candidate is picked, so that a new configuration
+ * is created where Alacritty looks first.
+ *
+ * @param candidates - Paths to search in order
+ * @returns A ResultAsync containing the discovery result
+ */
+export function discoverConfig(
+  candidates: FilePath[],
+): ResultAsync<ConfigDiscovery, never> {
+  return ResultAsync.combine(
+    candidates.map((path) =>
+      safeStat(path)
+        .map((stat) => stat.isFile)
+        .orElse(() => okAsync(false))
+    ),
+  ).map((existing) => {
+    const index = existing.indexOf(true);
+    return {
+      path: candidates[Math.max(index, 0)],
+      exists: index !== -1,
+      candidates,
+    };
+  });
+}
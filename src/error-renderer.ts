@@ -0,0 +1,346 @@
+/**
+ * Rendering of errors for the terminal.
+ *
+ * Every error has a `_tag`, which selects its category (and so the exit code)
+ * and a hint on how to fix it. Only the error's message and the reason at the
+ * end of its cause chain are printed, the whole chain and the stack trace
+ * only in verbose mode.
+ */
+
+import { TomlParseError } from "./utils/toml-errors.ts";
+
+/** Exit codes of error categories */
+export const EXIT_CODES = {
+  /** Unexpected errors */
+  general: 1,
+  /** Invalid options, settings or arguments */
+  usage: 2,
+  /** Missing themes, backups or other things to act on */
+  notFound: 3,
+  /** Invalid or unexpected content of the configuration or themes */
+  config: 4,
+  /** Files or directories that can't be read or written */
+  filesystem: 5,
+  /** Failed requests to GitHub */
+  network: 6,
+} as const;
+
+/** Category of an error */
+export type ErrorCategory = keyof typeof EXIT_CODES;
+
+/**
+ * Options for rendering errors.
+ */
+export type RenderErrorOptions = {
+  /** Print the whole cause chain and the stack trace */
+  verbose?: boolean;
+};
+
+/** Error with a tag identifying its type */
+type TaggedError = Error & { _tag: string };
+
+/** Category and hint of an error */
+type ErrorDescription = {
+  category: ErrorCategory;
+  hint?: string;
+};
+
+const FILESYSTEM_HINT =
+  "Check that the path exists and you have permission to access it.";
+
+/**
+ * Describes errors by their tag. Errors found in a cause chain, e.g. an HTTP
+ * status causing a failed download, can refine the description.
+ */
+function describeTaggedError(error: TaggedError): ErrorDescription {
+  switch (error._tag) {
+    case "InvalidOptionError":
+    case "InvalidRepositoryUrlError":
+      return { category: "usage", hint: "Run `ats --help` to see usage." };
+    case "UnknownSettingError":
+    case "InvalidSettingError":
+      return {
+        category: "usage",
+        hint: "Fix the settings file or the ATS_* environment variable.",
+      };
+    case "ThemeNotTOMLError":
+      return { category: "usage", hint: "Theme files must end with .toml." };
+    case "FileNotTOMLError":
+      return {
+        category: "usage",
+        hint: "Alacritty reads TOML configs only since version 0.13. " +
+          "Convert an older config with `alacritty migrate`.",
+      };
+    case "ThemeNotFoundError":
+      // A theme failing to apply is described by the cause
+      if (error.cause !== undefined) {
+        return { category: "general" };
+      }
+      return {
+        category: "notFound",
+        hint: suggestThemes(
+          (error as TaggedError & { suggestions: string[] }).suggestions,
+        ),
+      };
+    case "AmbiguousThemeError":
+      return {
+        category: "usage",
+        hint: "Select one of them by its path relative to the themes' " +
+          "directory.",
+      };
+    case "NoMatchingThemesError":
+      return {
+        category: "notFound",
+        hint: "Loosen the name query or the --brightness filter.",
+      };
+    case "NoThemesFoundError":
+      return {
+        category: "notFound",
+        hint: "Run `ats download-themes`, or point --themes to your themes.",
+      };
+    case "ThemeNotFoundInRepoError":
+    case "NoLicenseFileFoundError":
+      return {
+        category: "notFound",
+        hint: "Check the repository given by --url and --ref.",
+      };
+    case "NoBackupFoundError":
+      return { category: "notFound", hint: "Switch a theme first." };
+    case "NoColorOverridesError":
+      return { category: "notFound" };
+    case "BackupSnapshotNotFoundError":
+      return {
+        category: "notFound",
+        hint: "Run `ats backups` to see backups.",
+      };
+    case "NoActiveThemeError":
+    case "MultipleActiveThemesError":
+      return { category: "config", hint: "Apply a theme with `ats`." };
+    case "TomlParseError":
+      return {
+        category: "config",
+        hint: "Fix the file, or restore the previous config with `ats undo`.",
+      };
+    case "InvalidBackupError":
+      return { category: "config", hint: "Fix or delete the backup file." };
+    case "TomlStringifyError":
+      return { category: "config" };
+    case "TomlEditError":
+      return {
+        category: "config",
+        hint: "Define general.import as an array in a [general] table, " +
+          "or edit it by hand.",
+      };
+    case "BackupError":
+      return {
+        category: "filesystem",
+        hint:
+          "Check that the backup can be written, or change it with --backup.",
+      };
+    case "BackupHistoryError":
+      return {
+        category: "filesystem",
+        hint: "Check that the backups' directory can be written, or change " +
+          "it with --backup-dir.",
+      };
+    case "ActiveThemeFileError":
+      return {
+        category: "filesystem",
+        hint: "Check that the active theme file can be written. Pass " +
+          "--no-symlink if symlinks aren't supported.",
+      };
+    case "ThemeExistsError":
+      return {
+        category: "usage",
+        hint: "Choose another name, or delete the theme first.",
+      };
+    case "InvalidThemeNameError":
+      return {
+        category: "usage",
+        hint: 'Use letters or digits in the name, e.g. "My Palette".',
+      };
+    case "NotATerminalError":
+      return {
+        category: "usage",
+        hint: "Run the command in the terminal itself, without redirecting " +
+          "its input or output.",
+      };
+    case "TerminalTimeoutError":
+    case "NoTerminalColorsError":
+      return {
+        category: "general",
+        hint: "The terminal may not answer color queries. Alacritty, " +
+          "xterm, kitty and foot do, tmux and screen may not pass them on.",
+      };
+    case "FileNotFoundError":
+    case "FileNotReadableError":
+    case "FileIsDirectoryError":
+    case "FileDeletionError":
+    case "FileWriteError":
+    case "WriteError":
+    case "DirectoryIsFileError":
+    case "DirectoryNotDirectoryError":
+    case "DirectoryNotAccessibleError":
+    case "DirectoryCreateError":
+    case "RestoreBackupError":
+      return { category: "filesystem", hint: FILESYSTEM_HINT };
+    case "GitHubApiError":
+    case "FileDownloadError":
+    case "HttpStatusError":
+      return { category: "network", hint: describeHttpStatus(error) };
+    default:
+      return { category: "general" };
+  }
+}
+
+/**
+ * Renders an error as its message followed by a hint. TOML parse errors get
+ * a code frame. In verbose mode the cause chain and the stack trace follow.
+ *
+ * @param error - Error to render
+ * @param options - Rendering options
+ * @returns Rendered error without a trailing line break
+ *
+ * @example
+ * ```
+ * GitHub API request failed: https://api.github.com/repos/…
+ * Reason: HTTP 403: rate limit exceeded
+ * Hint: GitHub limits unauthenticated requests. Set GITHUB_TOKEN to a personal access token.
+ * ```
+ */
+export function renderError(
+  error: unknown,
+  options: RenderErrorOptions = {},
+): string {
+  const chain = getCauseChain(error);
+  const root = chain[chain.length - 1];
+  const parseError = chain.find((item) => item instanceof TomlParseError);
+  const description = describeError(error);
+
+  const lines = [messageOf(error), ...describeReason(error)];
+  const codeFrame = parseError?.codeFrame() ?? "";
+  if (codeFrame !== "") {
+    lines.push(codeFrame);
+  }
+  if (description.hint) {
+    lines.push(`Hint: ${description.hint}`);
+  }
+
+  if (options.verbose) {
+    chain.slice(1).forEach((cause) => {
+      lines.push(`Caused by: ${nameOf(cause)}: ${messageOf(cause)}`);
+    });
+    if (root instanceof Error && root.stack) {
+      lines.push(root.stack);
+    }
+  } else if (chain.length > 1) {
+    lines.push("Run with --verbose to see the whole error.");
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Summarizes an error on a single line as its message and the reason at the
+ * end of its cause chain, without a hint, e.g. for errors listed in a report.
+ *
+ * @param error - Error to summarize
+ * @returns The summary
+ *
+ * @example
+ * summarizeError(error)
+ * // "Failed to write to /etc/alacritty.toml. Reason: Permission denied"
+ */
+export function summarizeError(error: unknown): string {
+  return [messageOf(error), ...describeReason(error)].join(" ");
+}
+
+/**
+ * Gets the exit code of the error's category.
+ *
+ * @param error - Error to get the exit code for
+ * @returns Exit code
+ */
+export function getExitCode(error: unknown): number {
+  return EXIT_CODES[describeError(error).category];
+}
+
+/**
+ * Describes an error by its tag. The first tagged error in the cause chain
+ * with a known category is used, e.g. a file that can't be written behind
+ * a failed theme switch.
+ */
+function describeError(error: unknown): ErrorDescription {
+  const descriptions = getCauseChain(error)
+    .filter(isTaggedError)
+    .map(describeTaggedError);
+  return descriptions.find((description) =>
+    description.category !== "general"
+  ) ??
+    { category: "general" };
+}
+
+/**
+ * Describes why the error happened. The root cause, e.g. a system error or an
+ * HTTP status, tells why, or the TOML parse error with its position.
+ */
+function describeReason(error: unknown): string[] {
+  const chain = getCauseChain(error);
+  const parseError = chain.find((item) => item instanceof TomlParseError);
+  if (parseError && parseError !== error) {
+    return [parseError.message];
+  }
+  if (!parseError && chain.length > 1) {
+    return [`Reason: ${messageOf(chain[chain.length - 1])}`];
+  }
+  return [];
+}
+
+function describeHttpStatus(error: TaggedError): string {
+  const status = getCauseChain(error)
+    .map((item) => (item as { status?: unknown }).status)
+    .find((status) => typeof status === "number");
+  if (status === 403 || status === 429) {
+    return "GitHub limits unauthenticated requests. Set GITHUB_TOKEN to " +
+      "a personal access token, or try again later.";
+  }
+  if (status === 404) {
+    return "Check the repository given by --url and the --ref branch or tag.";
+  }
+  return "Check your internet connection and try again.";
+}
+
+function suggestThemes(suggestions: string[]): string {
+  return suggestions.length > 0
+    ? `Did you mean ${suggestions.join(", ")}?`
+    : "Run `ats list` to see available themes.";
+}
+
+function getCauseChain(error: unknown): unknown[] {
+  const chain = [error];
+  let current = error;
+  while (current instanceof Error && current.cause !== undefined) {
+    current = current.cause;
+    if (chain.includes(current)) {
+      break;
+    }
+    chain.push(current);
+  }
+  return chain;
+}
+
+function isTaggedError(error: unknown): error is TaggedError {
+  return error instanceof Error &&
+    typeof (error as { _tag?: unknown })._tag === "string";
+}
+
+function messageOf(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function nameOf(error: unknown): string {
+  if (isTaggedError(error)) {
+    return error._tag;
+  }
+  return error instanceof Error ? error.name : typeof error;
+}
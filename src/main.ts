@@ -1,16 +1,95 @@
+import { relative } from "@std/path/relative";
 import {
   bold,
   getArgs,
+  getCommandQuery,
+  getDefaultActiveThemePath,
+  getDefaultOverridesPath,
   getHomeDir,
+  getOutputFormat,
   interactiveThemesSelection,
+  parseBackupRetention,
+  parseBrightnessOption,
+  parseCountOption,
+  printAppliedTheme,
+  printError,
   printHelp,
   printVersion,
 } from "./cli.ts";
+import {
+  formatBackupRecords,
+  listBackupsCommand,
+  restoreBackupCommand,
+  showBackupCommand,
+} from "./commands/backups.ts";
+import {
+  isBrightnessSetting,
+  setBrightnessCommand,
+} from "./commands/brightness.ts";
+import { captureCommand } from "./commands/capture.ts";
 import { clearThemesCommand } from "./commands/clear-themes.ts";
+import { doctorCommand, formatFindings } from "./commands/doctor.ts";
 import { downloadThemesCommand } from "./commands/download-themes.ts";
+import {
+  currentThemeCommand,
+  formatCurrentTheme,
+} from "./commands/current-theme.ts";
+import { cycleThemeCommand } from "./commands/cycle-theme.ts";
+import {
+  addFavoriteCommand,
+  listFavoritesCommand,
+  removeFavoriteCommand,
+} from "./commands/favorites.ts";
+import { initCommand } from "./commands/init.ts";
+import {
+  formatThemeRecords,
+  listThemesCommand,
+  toThemeRecord,
+} from "./commands/list-themes.ts";
+import {
+  deleteOverridesCommand,
+  listOverridesCommand,
+  moveOverridesCommand,
+} from "./commands/overrides.ts";
+import { previewCommand, renderPreview } from "./commands/preview.ts";
+import { randomThemeCommand } from "./commands/random-theme.ts";
+import {
+  formatSessionReset,
+  sessionColorsCommand,
+} from "./commands/session-colors.ts";
+import { undoCommand } from "./commands/undo.ts";
+import { discoverConfig, getConfigCandidates } from "./config-discovery.ts";
+import { EXIT_CODES, getExitCode } from "./error-renderer.ts";
+import { loadSettings } from "./settings.ts";
 import { createThemeManager } from "./theme-manager/theme-manager.ts";
+import { detectColorDepth } from "./utils/swatches.ts";
+import { createStdioTerminal } from "./utils/terminal.ts";
 
-const args = getArgs(Deno.args, getHomeDir(Deno.build.os), Deno.build.os);
+const homeDir = getHomeDir(Deno.build.os);
+const env = Deno.env.toObject();
+const settingsResult = await loadSettings(homeDir, Deno.build.os, env);
+if (settingsResult.isErr()) {
+  console.error("Failed to read settings! ❌");
+  const error = settingsResult.error;
+  printError(error, { verbose: Deno.args.includes("--verbose") });
+  Deno.exit(getExitCode(error));
+}
+
+const settings = settingsResult.value;
+// Config discovery can't fail, candidates that can't be read don't count
+const configDiscovery = await discoverConfig(
+  getConfigCandidates(homeDir, Deno.build.os, env),
+).match((discovery) => discovery, (error) => error);
+// The discovered config is the default, settings and flags override it
+const args = getArgs(
+  Deno.args,
+  homeDir,
+  Deno.build.os,
+  settings,
+  configDiscovery.path,
+);
+
+const errorOptions = { verbose: args.verbose };
 
 // Show help and quit
 if (args.help) {
@@ -51,8 +130,8 @@ if (args.command === "download-themes") {
     },
     (error) => {
       console.error("Failed to download themes! ❌");
-      console.error(error);
-      Deno.exit(1);
+      printError(error, errorOptions);
+      Deno.exit(getExitCode(error));
     },
   );
 }
@@ -90,17 +169,212 @@ if (args.command === "clear-themes") {
         Deno.exit(0);
       }
       console.error("Failed to clear themes! ❌");
-      console.error(error);
-      Deno.exit(1);
+      printError(error, errorOptions);
+      Deno.exit(getExitCode(error));
+    },
+  );
+}
+
+// Handle doctor subcommand
+if (args.command === "doctor") {
+  await doctorCommand({
+    configPath: args.config,
+    configDiscovery,
+    themesDirPath: args.themes,
+    backupPath: args.backup,
+    activeThemePath: args["active-theme"],
+    homeDir,
+  }).match(
+    (findings) => {
+      console.log(
+        args.json
+          ? JSON.stringify(findings, null, 2)
+          : formatFindings(findings),
+      );
+      const hasErrors = findings.some((f) => f.severity === "error");
+      Deno.exit(hasErrors ? 1 : 0);
+    },
+    (error) => {
+      console.error("Failed to run checks! ❌");
+      printError(error, errorOptions);
+      Deno.exit(getExitCode(error));
+    },
+  );
+}
+
+// Handle preview subcommand, which doesn't need the config
+if (args.command === "preview") {
+  const name = getCommandQuery(args._);
+  if (name === "") {
+    console.error("Usage: ats preview <theme>. See `ats --help`.");
+    Deno.exit(EXIT_CODES.usage);
+  }
+
+  await previewCommand({ themesDirPath: args.themes, name }).match(
+    (theme) => {
+      console.log(`Preview of ${bold(theme.label)}:`);
+      console.log(renderPreview(theme));
+      Deno.exit(0);
+    },
+    (error) => {
+      console.error("Failed to preview the theme! ❌");
+      printError(error, errorOptions);
+      Deno.exit(getExitCode(error));
+    },
+  );
+}
+
+// Handle capture subcommand
+if (args.command === "capture") {
+  const name = getCommandQuery(args._);
+  if (name === "") {
+    console.error("Usage: ats capture <name>. See `ats --help`.");
+    Deno.exit(EXIT_CODES.usage);
+  }
+
+  await captureCommand({
+    themesDirPath: args.themes,
+    name,
+    terminal: createStdioTerminal(),
+  }).match(
+    (theme) => {
+      console.log(`Saved the terminal's colors to ${bold(theme.path)} ✅`);
+      console.log(`Apply it with ${bold(`ats apply "${theme.label}"`)}.`);
+      Deno.exit(0);
+    },
+    (error) => {
+      console.error("Failed to capture the terminal's colors! ❌");
+      printError(error, errorOptions);
+      Deno.exit(getExitCode(error));
+    },
+  );
+}
+
+// Handle apply subcommand for the terminal session only, which doesn't need
+// the config either
+if (args.command === "apply" && args.reset) {
+  console.log(`${formatSessionReset()}Reset the colors of this session ✅`);
+  Deno.exit(0);
+}
+if (args.command === "apply" && getCommandQuery(args._) === "") {
+  console.error(
+    "Usage: ats apply [--session] <theme> or ats apply --reset. " +
+      "See `ats --help`.",
+  );
+  Deno.exit(EXIT_CODES.usage);
+}
+if (args.command === "apply" && args.session) {
+  await sessionColorsCommand({
+    themesDirPath: args.themes,
+    name: getCommandQuery(args._),
+  }).match(
+    ({ theme, sequences }) => {
+      console.log(
+        `${sequences}Applied theme ${bold(theme.label)} to this session ✅`,
+      );
+      Deno.exit(0);
+    },
+    (error) => {
+      console.error("Failed to apply theme! ❌");
+      printError(error, errorOptions);
+      Deno.exit(getExitCode(error));
+    },
+  );
+}
+
+// Tell where a config is created when Alacritty doesn't have one yet
+if (args.config === configDiscovery.path && !configDiscovery.exists) {
+  console.warn(
+    `No Alacritty configuration found, using ${bold(args.config)}. ` +
+      `Searched: ${configDiscovery.candidates.join(", ")}`,
+  );
+}
+
+// Handle init subcommand
+if (args.command === "init") {
+  const activeThemePath = args["active-theme"] ??
+    getDefaultActiveThemePath(args.config);
+
+  await initCommand({
+    configPath: args.config,
+    themesDirPath: args.themes,
+    backupPath: args.backup,
+    activeThemePath,
+    activeThemeMode: args.symlink ? "symlink" : "copy",
+  }).match(
+    (result) => {
+      if (result.alreadyInitialized) {
+        console.log(`${bold(args.config)} already imports the active theme.`);
+      } else {
+        console.log(
+          `Added import of ${bold(activeThemePath)} to the config ✅`,
+        );
+      }
+      if (result.migratedTheme) {
+        console.log(`Moved theme ${bold(result.migratedTheme.label)} there.`);
+      }
+      console.log(
+        `\nSwitch themes with ${bold(`--active-theme ${activeThemePath}`)}` +
+          ` to replace only that file.`,
+      );
+      Deno.exit(0);
+    },
+    (error) => {
+      console.error("Failed to initialize the active theme file! ❌");
+      console.error(
+        `You can add ${activeThemePath} to general.import in your config manually.`,
+      );
+      printError(error, errorOptions);
+      Deno.exit(getExitCode(error));
+    },
+  );
+}
+
+// Handle undo subcommand (restore is an alias)
+if (args.command === "undo" || args.command === "restore") {
+  await undoCommand({
+    configPath: args.config,
+    backupPath: args.backup,
+  }).match(
+    () => {
+      console.log(`Restored ${bold(args.config)} from the backup ✅`);
+      console.log(`Run ${bold("ats undo")} again to redo.`);
+      Deno.exit(0);
+    },
+    (error) => {
+      if (error._tag === "NoBackupFoundError") {
+        console.error(`${error.message} ❌`);
+        Deno.exit(getExitCode(error));
+      }
+      console.error("Failed to restore the backup! ❌");
+      printError(error, errorOptions);
+      Deno.exit(getExitCode(error));
     },
   );
 }
 
 // We're in theme management territory now -> create a manager
+const retentionResult = parseBackupRetention(args);
+if (retentionResult.isErr()) {
+  printError(retentionResult.error, errorOptions);
+  Deno.exit(getExitCode(retentionResult.error));
+}
+const backupHistory = {
+  dir: args["backup-dir"],
+  retention: retentionResult.value,
+};
+
+const overridesPath = args.overrides ?? getDefaultOverridesPath(args.config);
 const managerResult = await createThemeManager({
   configPath: args.config,
   themesDirPath: args.themes,
   backupPath: args.backup,
+  activeThemePath: args["active-theme"],
+  activeThemeMode: args.symlink ? "symlink" : "copy",
+  statePath: args.state,
+  backupHistory,
+  overridesPath,
+  strict: args.strict,
 });
 
 if (managerResult.isErr()) {
@@ -111,36 +385,349 @@ if (managerResult.isErr()) {
     Deno.exit(0);
   }
   console.error("Failed to create theme manager! ❌");
-  console.error(managerResult.error);
-  Deno.exit(1);
+  printError(managerResult.error, errorOptions);
+  Deno.exit(getExitCode(managerResult.error));
 }
 
 const manager = managerResult.value;
 
-// Handle --select flag which skips the interactive prompt
-if (args.select !== undefined) {
+// Tell about broken theme files, the rest of the themes still works
+const loadFailures = manager.getLoadFailures();
+if (loadFailures.length > 0) {
+  console.warn(
+    `⚠️  Skipped ${loadFailures.length} theme file(s) that can't be loaded: ${
+      loadFailures.map((failure) => relative(args.themes, failure.path))
+        .join(", ")
+    } (use --strict to fail instead)`,
+  );
+}
+
+// Handle list subcommand
+if (args.command === "list") {
+  const brightnessResult = parseBrightnessOption(args.brightness);
+  if (brightnessResult.isErr()) {
+    printError(brightnessResult.error, errorOptions);
+    Deno.exit(getExitCode(brightnessResult.error));
+  }
+
+  const themes = listThemesCommand(manager, {
+    brightness: brightnessResult.value,
+    query: getCommandQuery(args._),
+  });
+  const output = formatThemeRecords(
+    themes.map((theme) => toThemeRecord(theme, args.themes)),
+    getOutputFormat(args),
+  );
+  if (output !== "") {
+    console.log(output);
+  }
+  Deno.exit(0);
+}
+
+// Handle current subcommand
+if (args.command === "current") {
+  const result = currentThemeCommand(manager);
+  if (result.isErr()) {
+    printError(result.error, errorOptions);
+    Deno.exit(getExitCode(result.error));
+  }
+
+  console.log(
+    formatCurrentTheme(
+      toThemeRecord(result.value, args.themes),
+      getOutputFormat(args),
+    ),
+  );
+  Deno.exit(0);
+}
+
+// Handle next and prev subcommands
+if (args.command === "next" || args.command === "prev") {
+  const direction = args.command;
+  await parseBrightnessOption(args.brightness)
+    .asyncAndThen((brightness) =>
+      cycleThemeCommand(manager, {
+        direction,
+        brightness,
+        query: getCommandQuery(args._),
+      })
+    )
+    .match(
+      (appliedTheme) => {
+        printAppliedTheme(manager, appliedTheme);
+        Deno.exit(0);
+      },
+      (error) => {
+        console.log("Failed to apply theme! ❌");
+        printError(error, errorOptions);
+        Deno.exit(getExitCode(error));
+      },
+    );
+}
+
+// Handle random subcommand
+if (args.command === "random") {
+  await parseBrightnessOption(args.brightness)
+    .andThen((brightness) =>
+      parseCountOption("avoid-recent", args["avoid-recent"])
+        .map((avoidRecent) => ({ brightness, avoidRecent }))
+    )
+    .asyncAndThen(({ brightness, avoidRecent }) =>
+      randomThemeCommand(manager, args.state, {
+        brightness,
+        query: getCommandQuery(args._),
+        favorites: args.favorites,
+        avoidRecent,
+        seed: args.seed,
+      })
+    )
+    .match(
+      (appliedTheme) => {
+        printAppliedTheme(manager, appliedTheme);
+        Deno.exit(0);
+      },
+      (error) => {
+        console.log("Failed to apply theme! ❌");
+        printError(error, errorOptions);
+        Deno.exit(getExitCode(error));
+      },
+    );
+}
+
+// Handle favorites subcommand
+if (args.command === "favorites") {
+  const [, action = "list", ...nameArgs] = args._.map(String);
+  const name = nameArgs.join(" ");
+
+  if (action === "list") {
+    await listFavoritesCommand(manager, args.state).match(
+      (themes) => {
+        const output = formatThemeRecords(
+          themes.map((theme) => toThemeRecord(theme, args.themes)),
+          getOutputFormat(args),
+        );
+        if (output !== "") {
+          console.log(output);
+        }
+        Deno.exit(0);
+      },
+      (error) => {
+        console.error("Failed to list favorite themes! ❌");
+        printError(error, errorOptions);
+        Deno.exit(getExitCode(error));
+      },
+    );
+  }
+
+  if ((action !== "add" && action !== "remove") || name === "") {
+    console.error(
+      "Usage: ats favorites [add|remove <theme>]. See `ats --help`.",
+    );
+    Deno.exit(EXIT_CODES.usage);
+  }
+
+  const command = action === "add" ? addFavoriteCommand : removeFavoriteCommand;
+  await command(manager, args.state, name).match(
+    (theme) => {
+      console.log(
+        action === "add"
+          ? `Added ${bold(theme.label)} to favorites ✅`
+          : `Removed ${bold(theme.label)} from favorites ✅`,
+      );
+      Deno.exit(0);
+    },
+    (error) => {
+      console.error("Failed to update favorite themes! ❌");
+      printError(error, errorOptions);
+      Deno.exit(getExitCode(error));
+    },
+  );
+}
+
+// Handle brightness subcommand
+if (args.command === "brightness") {
+  const [, ...themeArgs] = args._.map(String);
+  const brightness = themeArgs.pop() ?? "";
+  const name = themeArgs.join(" ");
+
+  if (!isBrightnessSetting(brightness) || name === "") {
+    console.error(
+      "Usage: ats brightness <theme> light|dark|auto. See `ats --help`.",
+    );
+    Deno.exit(EXIT_CODES.usage);
+  }
+
+  await setBrightnessCommand(manager, name, brightness).match(
+    (theme) => {
+      console.log(
+        brightness === "auto"
+          ? `${bold(theme.label)} is detected as ${theme.brightness} again ✅`
+          : `Marked ${bold(theme.label)} as ${brightness} ✅`,
+      );
+      Deno.exit(0);
+    },
+    (error) => {
+      console.error("Failed to set the theme's brightness! ❌");
+      printError(error, errorOptions);
+      Deno.exit(getExitCode(error));
+    },
+  );
+}
+
+// Handle backups subcommand
+if (args.command === "backups") {
+  const [, action = "list", id] = args._.map(String);
+  const options = { configPath: args.config, backupHistory, homeDir };
+
+  if (action === "list") {
+    await listBackupsCommand(manager, options).match(
+      (records) => {
+        if (records.length === 0) {
+          console.log(`No backups found in ${bold(backupHistory.dir)}.`);
+        } else {
+          console.log(formatBackupRecords(records));
+        }
+        Deno.exit(0);
+      },
+      (error) => {
+        console.error("Failed to list backups! ❌");
+        printError(error, errorOptions);
+        Deno.exit(getExitCode(error));
+      },
+    );
+  }
+
+  if ((action !== "show" && action !== "restore") || id === undefined) {
+    console.error(
+      "Usage: ats backups [list|show <id>|restore <id>]. See `ats --help`.",
+    );
+    Deno.exit(EXIT_CODES.usage);
+  }
+
+  const recordResult = await showBackupCommand(manager, options, id);
+  if (recordResult.isErr()) {
+    printError(recordResult.error, errorOptions);
+    Deno.exit(getExitCode(recordResult.error));
+  }
+  const record = recordResult.value;
+  console.log(`Backup ${bold(id)} (theme: ${record.theme?.label ?? "-"})`);
+  console.log(
+    record.diff.length === 0
+      ? "It is the same as the current config."
+      : record.diff.join("\n"),
+  );
+
+  if (action === "show" || record.diff.length === 0) {
+    Deno.exit(0);
+  }
+  if (!confirm(`\nRestore ${bold(args.config)} from this backup?`)) {
+    console.log("Cancelled. ✅");
+    Deno.exit(0);
+  }
+
+  await restoreBackupCommand(options, args.backup, id).match(
+    () => {
+      console.log(`Restored ${bold(args.config)} from backup ${bold(id)} ✅`);
+      Deno.exit(0);
+    },
+    (error) => {
+      console.error("Failed to restore the backup! ❌");
+      printError(error, errorOptions);
+      Deno.exit(getExitCode(error));
+    },
+  );
+}
+
+// Handle overrides subcommand
+if (args.command === "overrides") {
+  const [, action = "list"] = args._.map(String);
+
+  if (action === "list") {
+    const colors = listOverridesCommand(manager);
+    if (colors.length === 0) {
+      console.log(`${bold(args.config)} doesn't define any colors. ✅`);
+      Deno.exit(0);
+    }
+    console.log(`Colors defined in ${bold(args.config)}:`);
+    colors.forEach((color) => {
+      console.log(
+        ` - ${color.key}${color.shadowed ? " (overrides the theme)" : ""}`,
+      );
+    });
+    console.log(
+      `\nMove them to ${bold(overridesPath)} with ` +
+        `${bold("ats overrides move")} or delete them with ` +
+        `${bold("ats overrides delete")}.`,
+    );
+    Deno.exit(0);
+  }
+
+  if (action !== "move" && action !== "delete") {
+    console.error("Usage: ats overrides [move|delete]. See `ats --help`.");
+    Deno.exit(EXIT_CODES.usage);
+  }
+
+  const options = {
+    configPath: args.config,
+    backupPath: args.backup,
+    backupHistory,
+    overridesPath,
+  };
+  const result = action === "move"
+    ? moveOverridesCommand(options)
+    : deleteOverridesCommand(options);
+  await result.match(
+    (keys) => {
+      console.log(
+        action === "move"
+          ? `Moved ${keys.length} color(s) to ${bold(overridesPath)} ✅`
+          : `Deleted ${keys.length} color(s) from ${bold(args.config)} ✅`,
+      );
+      console.log(`Run ${bold("ats undo")} to put the config back.`);
+      Deno.exit(0);
+    },
+    (error) => {
+      if (error._tag === "NoColorOverridesError") {
+        console.log(`${error.message} ✅`);
+        Deno.exit(0);
+      }
+      console.error("Failed to update colors in the config! ❌");
+      printError(error, errorOptions);
+      Deno.exit(getExitCode(error));
+    },
+  );
+}
+
+// Handle --select flag and apply subcommand which skip the interactive prompt
+const selectedName = args.command === "apply"
+  ? getCommandQuery(args._)
+  : args.select;
+if (selectedName !== undefined) {
   await manager
-    .applyThemeByFilename(args.select)
+    .applyThemeByFilename(selectedName)
     .match(
       (appliedTheme) => {
-        console.log(`Applied theme ${bold(appliedTheme.label)} ✅`);
+        printAppliedTheme(manager, appliedTheme);
         Deno.exit(0);
       },
       (error) => {
         console.log("Failed to apply theme! ❌");
-        console.error(error);
-        Deno.exit(1);
+        printError(error, errorOptions);
+        Deno.exit(getExitCode(error));
       },
     );
   Deno.exit(0);
 }
 
 // Else display interactive prompt
-await interactiveThemesSelection(manager)
+await interactiveThemesSelection(manager, {
+  livePreview: args.preview,
+  colorDepth: detectColorDepth(env),
+})
   .andThen((selectedTheme) => manager.applyTheme(selectedTheme))
   .match(
     (appliedTheme) => {
-      console.log(`Applied theme ${bold(appliedTheme.label)} ✅`);
+      printAppliedTheme(manager, appliedTheme);
       Deno.exit(0);
     },
     (error) => {
@@ -151,8 +738,8 @@ await interactiveThemesSelection(manager)
       }
 
       console.log("Failed to apply theme! ❌");
-      console.error(error);
-      Deno.exit(1);
+      printError(error, errorOptions);
+      Deno.exit(getExitCode(error));
     },
   );
 
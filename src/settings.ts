@@ -0,0 +1,264 @@
+/**
+ * Settings of alacritty-theme-switch itself.
+ *
+ * Defaults of CLI options can be changed in a settings file, e.g.
+ * `$XDG_CONFIG_HOME/alacritty-theme-switch/config.toml`, and by `ATS_*`
+ * environment variables. Flags override environment variables, which
+ * override the settings file, which overrides built-in defaults.
+ */
+
+import { join } from "@std/path/join";
+import { err, errAsync, ok, okAsync, type Result } from "neverthrow";
+import type { FilePath } from "./types.ts";
+import { safeStat } from "./utils/fs-utils.ts";
+import { safeParseToml } from "./utils/toml-utils.ts";
+
+/** Settings keys with the type of their values, named after CLI options */
+const SETTINGS_TYPES = {
+  config: "path",
+  themes: "path",
+  backup: "path",
+  "backup-dir": "path",
+  "keep-backups": "count",
+  "max-backup-age": "count",
+  state: "path",
+  "active-theme": "path",
+  overrides: "path",
+  symlink: "boolean",
+  preview: "boolean",
+  strict: "boolean",
+  verbose: "boolean",
+  url: "string",
+  ref: "string",
+} as const;
+
+type SettingsKey = keyof typeof SETTINGS_TYPES;
+
+/**
+ * Defaults of CLI options. Counts are kept as strings, the same as given
+ * by flags, and validated together with them.
+ */
+export type Settings = {
+  [Key in SettingsKey]?: typeof SETTINGS_TYPES[Key] extends "boolean" ? boolean
+    : string;
+};
+
+/**
+ * Error thrown when a settings file contains an unknown key.
+ */
+export class UnknownSettingError extends Error {
+  readonly _tag = "UnknownSettingError";
+  key: string;
+  source: string;
+  constructor(key: string, source: string, options?: ErrorOptions) {
+    super(
+      `Unknown setting "${key}" in ${source}. Known settings: ${
+        Object.keys(SETTINGS_TYPES).join(", ")
+      }.`,
+      options,
+    );
+    this.key = key;
+    this.source = source;
+  }
+}
+
+/**
+ * Error thrown when a setting has a value of the wrong type.
+ */
+export class InvalidSettingError extends Error {
+  readonly _tag = "InvalidSettingError";
+  key: string;
+  source: string;
+  constructor(
+    key: string,
+    source: string,
+    reason: string,
+    options?: ErrorOptions,
+  ) {
+    super(`Invalid value of "${key}" in ${source}. ${reason}`, options);
+    this.key = key;
+    this.source = source;
+  }
+}
+
+/**
+ * Get the path of the settings file.
+ *
+ * Uses $XDG_CONFIG_HOME (or $HOME/.config) on POSIX systems and the
+ * application data directory on Windows.
+ */
+export function getSettingsPath(
+  homeDir: FilePath,
+  os: typeof Deno.build.os,
+  env: Record<string, string>,
+): FilePath {
+  if (os === "windows") {
+    return join(homeDir, "alacritty-theme-switch", "config.toml");
+  }
+  const configHome = env.XDG_CONFIG_HOME ?? join(homeDir, ".config");
+  return join(configHome, "alacritty-theme-switch", "config.toml");
+}
+
+/**
+ * Reads settings from the settings file and `ATS_*` environment variables,
+ * the latter taking precedence. A missing settings file has no settings.
+ *
+ * @param homeDir - Home directory, used to expand "~" in paths
+ * @param os - Operating system
+ * @param env - Environment variables
+ * @returns A ResultAsync containing the settings or an error
+ */
+export function loadSettings(
+  homeDir: FilePath,
+  os: typeof Deno.build.os,
+  env: Record<string, string>,
+) {
+  return readSettingsFile(getSettingsPath(homeDir, os, env), homeDir)
+    .andThen((fileSettings) => {
+      return parseEnvSettings(env, homeDir)
+        .map((envSettings): Settings => ({ ...fileSettings, ...envSettings }));
+    });
+}
+
+/**
+ * Reads settings from a TOML file with keys named after CLI options.
+ * A missing file has no settings.
+ *
+ * @param path - Path to the settings file
+ * @param homeDir - Home directory, used to expand "~" in paths
+ * @returns A ResultAsync containing the settings or an error
+ *
+ * @example
+ * ```toml
+ * themes = "~/dotfiles/alacritty-themes"
+ * active-theme = "~/.config/alacritty/active-theme.toml"
+ * symlink = true
+ * ```
+ */
+export function readSettingsFile(path: FilePath, homeDir: FilePath) {
+  return safeStat(path)
+    .map(() => true)
+    .orElse(() => okAsync(false))
+    .andThen((exists) => {
+      if (!exists) {
+        return okAsync<Settings>({});
+      }
+      return safeParseToml(path).andThen((content) => {
+        const result = parseFileSettings(content, path, homeDir);
+        return result.isOk() ? okAsync(result.value) : errAsync(result.error);
+      });
+    });
+}
+
+/**
+ * Validates settings parsed from a settings file.
+ *
+ * @param content - Parsed settings file
+ * @param source - Settings file path used in error messages
+ * @param homeDir - Home directory, used to expand "~" in paths
+ * @returns A Result containing the settings or an error
+ */
+export function parseFileSettings(
+  content: Record<string, unknown>,
+  source: string,
+  homeDir: FilePath,
+): Result<Settings, UnknownSettingError | InvalidSettingError> {
+  const settings: Record<string, string | boolean> = {};
+  for (const [key, value] of Object.entries(content)) {
+    if (!isSettingsKey(key)) {
+      return err(new UnknownSettingError(key, source));
+    }
+    const type = SETTINGS_TYPES[key];
+    if (type === "boolean") {
+      if (typeof value !== "boolean") {
+        return err(new InvalidSettingError(key, source, "Expected a boolean."));
+      }
+      settings[key] = value;
+    } else if (type === "count") {
+      if (!Number.isInteger(value) || (value as number) < 0) {
+        return err(
+          new InvalidSettingError(
+            key,
+            source,
+            "Expected a non-negative integer.",
+          ),
+        );
+      }
+      settings[key] = String(value);
+    } else {
+      if (typeof value !== "string") {
+        return err(new InvalidSettingError(key, source, "Expected a string."));
+      }
+      settings[key] = type === "path" ? expandHomeDir(value, homeDir) : value;
+    }
+  }
+  return ok(settings as Settings);
+}
+
+/**
+ * Reads settings from `ATS_*` environment variables, named after CLI options,
+ * e.g. ATS_ACTIVE_THEME for --active-theme. Other variables are ignored.
+ * Booleans accept "true"/"false", "1"/"0" and "yes"/"no".
+ *
+ * @param env - Environment variables
+ * @param homeDir - Home directory, used to expand "~" in paths
+ * @returns A Result containing the settings or an error
+ */
+export function parseEnvSettings(
+  env: Record<string, string>,
+  homeDir: FilePath,
+): Result<Settings, InvalidSettingError> {
+  const settings: Record<string, string | boolean> = {};
+  for (const key of Object.keys(SETTINGS_TYPES) as SettingsKey[]) {
+    const name = `ATS_${key.toUpperCase().replaceAll("-", "_")}`;
+    const value = env[name];
+    if (value === undefined) {
+      continue;
+    }
+    const type = SETTINGS_TYPES[key];
+    if (type === "boolean") {
+      const flag = parseBooleanValue(value);
+      if (flag === undefined) {
+        return err(
+          new InvalidSettingError(
+            name,
+            "the environment",
+            `Expected "true" or "false", got "${value}".`,
+          ),
+        );
+      }
+      settings[key] = flag;
+    } else {
+      settings[key] = type === "path" ? expandHomeDir(value, homeDir) : value;
+    }
+  }
+  return ok(settings as Settings);
+}
+
+function isSettingsKey(key: string): key is SettingsKey {
+  return Object.hasOwn(SETTINGS_TYPES, key);
+}
+
+function parseBooleanValue(value: string): boolean | undefined {
+  const normalized = value.trim().toLowerCase();
+  if (["true", "1", "yes"].includes(normalized)) {
+    return true;
+  }
+  if (["false", "0", "no"].includes(normalized)) {
+    return false;
+  }
+  return undefined;
+}
+
+/**
+ * Replaces a leading "~" with the home directory.
+ *
+ * @example
+ * expandHomeDir("~/themes", "/home/user") // "/home/user/themes"
+ */
+function expandHomeDir(path: string, homeDir: FilePath): string {
+  if (path === "~") {
+    return homeDir;
+  }
+  return /^~[\\/]/.test(path) ? join(homeDir, path.slice(2)) : path;
+}
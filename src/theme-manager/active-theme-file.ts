@@ -0,0 +1,159 @@
+/**
+ * Operations on the "active theme" file.
+ *
+ * In indirection mode the main Alacritty configuration imports one fixed file
+ * and switching themes replaces only that file, either by a copy of the theme
+ * or by a symlink pointing to it. The main configuration is never written.
+ */
+
+import { dirname } from "@std/path/dirname";
+import { resolve } from "@std/path/resolve";
+import { errAsync, fromPromise, okAsync, type ResultAsync } from "neverthrow";
+import type { FilePath } from "../types.ts";
+import { safeParseTomlContent } from "../utils/toml-utils.ts";
+import { ActiveThemeFileError } from "./errors.ts";
+import type { Theme } from "./theme.ts";
+
+/** How the active theme file is made out of the selected theme */
+export type ActiveThemeFileMode = "copy" | "symlink";
+
+/** State of the active theme file on disk */
+export type ActiveThemeFileState =
+  | { type: "missing" }
+  | { type: "symlink"; target: FilePath }
+  | { type: "file"; content: string };
+
+/**
+ * Reads the current state of the active theme file.
+ *
+ * @param path - Path to the active theme file
+ * @returns A ResultAsync containing the file state or an error
+ */
+export function readActiveThemeFile(
+  path: FilePath,
+): ResultAsync<ActiveThemeFileState, ActiveThemeFileError> {
+  return fromPromise(Deno.lstat(path), (error) => error)
+    .andThen((info) => {
+      if (info.isSymlink) {
+        return fromPromise(Deno.readLink(path), (error) => error)
+          .map((target): ActiveThemeFileState => ({
+            type: "symlink",
+            target: resolve(dirname(path), target),
+          }));
+      }
+      return fromPromise(Deno.readTextFile(path), (error) => error)
+        .map((content): ActiveThemeFileState => ({ type: "file", content }));
+    })
+    .orElse((error) => {
+      if (error instanceof Deno.errors.NotFound) {
+        return okAsync<ActiveThemeFileState>({ type: "missing" });
+      }
+      return errAsync(new ActiveThemeFileError(path, { cause: error }));
+    });
+}
+
+/**
+ * Replaces the active theme file with a copy of or a symlink to the theme.
+ * The file is created next to the target first and then renamed over it,
+ * so Alacritty never sees a half-written file.
+ *
+ * @param path - Path to the active theme file
+ * @param themePath - Path to the theme file
+ * @param mode - Whether to copy the theme or to symlink it
+ * @returns A ResultAsync containing void or an error
+ */
+export function writeActiveThemeFile(
+  path: FilePath,
+  themePath: FilePath,
+  mode: ActiveThemeFileMode,
+) {
+  return replaceFile(path, (tempPath) => {
+    return mode === "symlink"
+      ? Deno.symlink(resolve(themePath), tempPath, { type: "file" })
+      : Deno.copyFile(themePath, tempPath);
+  });
+}
+
+/**
+ * Puts the active theme file back to a previously read state.
+ *
+ * @param path - Path to the active theme file
+ * @param state - State returned by `readActiveThemeFile`
+ * @returns A ResultAsync containing void or an error
+ */
+export function restoreActiveThemeFile(
+  path: FilePath,
+  state: ActiveThemeFileState,
+): ResultAsync<void, ActiveThemeFileError> {
+  switch (state.type) {
+    case "missing":
+      return fromPromise(Deno.remove(path), (error) => error)
+        .orElse((error) => {
+          if (error instanceof Deno.errors.NotFound) {
+            return okAsync(undefined);
+          }
+          return errAsync(new ActiveThemeFileError(path, { cause: error }));
+        });
+    case "symlink":
+      return replaceFile(
+        path,
+        (tempPath) => Deno.symlink(state.target, tempPath, { type: "file" }),
+      );
+    case "file":
+      return replaceFile(
+        path,
+        (tempPath) => Deno.writeTextFile(tempPath, state.content),
+      );
+  }
+}
+
+/**
+ * Finds the theme the active theme file was made of.
+ * Symlinks are matched by their target, copies by their parsed content.
+ *
+ * @param state - State returned by `readActiveThemeFile`
+ * @param themes - Available themes
+ * @returns The matching theme or undefined
+ */
+export function findActiveFileTheme(
+  state: ActiveThemeFileState,
+  themes: Theme[],
+): Theme | undefined {
+  switch (state.type) {
+    case "missing":
+      return undefined;
+    case "symlink":
+      return themes.find((theme) => resolve(theme.path) === state.target);
+    case "file": {
+      const parsed = safeParseTomlContent(state.content);
+      if (parsed.isErr()) {
+        return undefined;
+      }
+      const content = JSON.stringify(parsed.value);
+      return themes.find((theme) =>
+        JSON.stringify(theme.themeContent) === content
+      );
+    }
+  }
+}
+
+/**
+ * Creates a temporary file with the given function and renames it over the path.
+ */
+function replaceFile(
+  path: FilePath,
+  create: (tempPath: FilePath) => Promise<void>,
+): ResultAsync<void, ActiveThemeFileError> {
+  const tempPath = `${path}.tmp`;
+  const toError = (error: unknown) =>
+    new ActiveThemeFileError(path, { cause: error });
+
+  return fromPromise(Deno.remove(tempPath), (error) => error)
+    .orElse((error) => {
+      return error instanceof Deno.errors.NotFound
+        ? okAsync(undefined)
+        : errAsync(toError(error));
+    })
+    .andThen(() => fromPromise(create(tempPath), toError))
+    .andThen(() => fromPromise(Deno.rename(tempPath, path), toError));
+}
@@ -0,0 +1,247 @@
+/**
+ * Timestamped snapshots of the configuration file.
+ *
+ * Besides the single backup that `ats undo` swaps with the configuration,
+ * every switch stores a snapshot in the backups' directory, so that older
+ * configurations survive several switches in a row. Snapshots beyond the
+ * retention count or age are deleted.
+ */
+
+import { join } from "@std/path/join";
+import { errAsync, fromPromise, okAsync, ResultAsync } from "neverthrow";
+import type { FilePath } from "../types.ts";
+import { safeEnsureDir, safeWriteFile } from "../utils/fs-utils.ts";
+import { safeParseToml } from "../utils/toml-utils.ts";
+import {
+  BackupHistoryError,
+  BackupSnapshotNotFoundError,
+  InvalidBackupError,
+  RestoreBackupError,
+} from "./errors.ts";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Snapshot file name, e.g. "20261018-093015-042.toml", with a sequence number
+ * for snapshots made in the same millisecond, e.g. "20261018-093015-042-1.toml"
+ */
+const SNAPSHOT_FILE_PATTERN =
+  /^(\d{4})(\d{2})(\d{2})-(\d{2})(\d{2})(\d{2})-(\d{3})(?:-(\d+))?\.toml$/;
+
+/** Limits on how many snapshots are kept */
+export type BackupRetention = {
+  /** Maximum number of snapshots kept */
+  maxCount?: number;
+  /** Maximum age of snapshots in days */
+  maxAgeDays?: number;
+};
+
+/** Directory of snapshots and their retention */
+export type BackupHistory = {
+  /** Path to the backups' directory */
+  dir: FilePath;
+  /** Limits on how many snapshots are kept */
+  retention: BackupRetention;
+};
+
+/** Snapshot of the configuration file */
+export type BackupSnapshot = {
+  /** Snapshot identifier derived from its creation time (UTC) */
+  id: string;
+  /** Path to the snapshot file */
+  path: FilePath;
+  /** Creation time */
+  createdAt: Date;
+  /** Order of snapshots made in the same millisecond, 0 for the first */
+  sequence: number;
+};
+
+/**
+ * Stores the configuration content as a new snapshot and deletes snapshots
+ * beyond the retention limits. Snapshots made in the same millisecond get a
+ * sequence number, so that none overwrites another.
+ *
+ * @param history - Backups' directory and retention
+ * @param content - Configuration file content
+ * @param now - Current time
+ * @returns A ResultAsync containing the new snapshot or an error
+ */
+export function recordSnapshot(
+  history: BackupHistory,
+  content: string,
+  now = new Date(),
+) {
+  const timeId = formatSnapshotId(now);
+
+  return safeEnsureDir(history.dir)
+    .andThen(() => listSnapshots(history.dir))
+    .map((snapshots): BackupSnapshot => {
+      const taken = new Set(snapshots.map((snapshot) => snapshot.id));
+      let sequence = 0;
+      while (taken.has(formatSequencedId(timeId, sequence))) {
+        sequence++;
+      }
+      const id = formatSequencedId(timeId, sequence);
+      return {
+        id,
+        path: join(history.dir, `${id}.toml`),
+        createdAt: now,
+        sequence,
+      };
+    })
+    .andThen((snapshot) =>
+      safeWriteFile(snapshot.path, content)
+        .andThen(() => pruneSnapshots(history, now))
+        .map(() => snapshot)
+    );
+}
+
+/**
+ * Lists snapshots in the backups' directory, the newest first.
+ * A missing directory has no snapshots.
+ *
+ * @param dir - Path to the backups' directory
+ * @returns A ResultAsync containing the snapshots or an error
+ */
+export function listSnapshots(
+  dir: FilePath,
+): ResultAsync<BackupSnapshot[], BackupHistoryError> {
+  return fromPromise(Array.fromAsync(Deno.readDir(dir)), (error) => error)
+    .orElse((error) => {
+      if (error instanceof Deno.errors.NotFound) {
+        return okAsync([]);
+      }
+      return errAsync(new BackupHistoryError(dir, { cause: error }));
+    })
+    .map((entries) =>
+      entries
+        .filter((entry) => entry.isFile)
+        .map((entry) => parseSnapshotFileName(dir, entry.name))
+        .filter((snapshot) => snapshot !== undefined)
+        .sort((a, b) =>
+          b.createdAt.getTime() - a.createdAt.getTime() ||
+          b.sequence - a.sequence
+        )
+    );
+}
+
+/**
+ * Finds the snapshot with the given identifier.
+ *
+ * @param dir - Path to the backups' directory
+ * @param id - Snapshot identifier
+ * @returns A ResultAsync containing the snapshot or an error
+ */
+export function findSnapshot(dir: FilePath, id: string) {
+  return listSnapshots(dir).andThen((snapshots) => {
+    const snapshot = snapshots.find((snapshot) => snapshot.id === id);
+    return snapshot === undefined
+      ? errAsync(new BackupSnapshotNotFoundError(id))
+      : okAsync(snapshot);
+  });
+}
+
+/**
+ * Deletes snapshots beyond the retention count or age.
+ *
+ * @param history - Backups' directory and retention
+ * @param now - Current time
+ * @returns A ResultAsync containing the deleted snapshots or an error
+ */
+export function pruneSnapshots(history: BackupHistory, now = new Date()) {
+  const { maxCount, maxAgeDays } = history.retention;
+
+  return listSnapshots(history.dir).andThen((snapshots) => {
+    const expired = snapshots.filter((snapshot, index) =>
+      (maxCount !== undefined && index >= maxCount) ||
+      (maxAgeDays !== undefined &&
+        now.getTime() - snapshot.createdAt.getTime() > maxAgeDays * DAY_MS)
+    );
+    return ResultAsync.combine(
+      expired.map((snapshot) =>
+        fromPromise(
+          Deno.remove(snapshot.path),
+          (error) => new BackupHistoryError(history.dir, { cause: error }),
+        )
+      ),
+    ).map(() => expired);
+  });
+}
+
+/**
+ * Replaces the configuration file with the snapshot.
+ *
+ * The snapshot is validated first and copied next to the configuration, then
+ * renamed over it, so the configuration file is never half-written. The copy
+ * is removed if that fails. A symlinked configuration stays a symlink, its
+ * target is replaced instead.
+ *
+ * @param configPath - Path to the configuration file
+ * @param snapshot - Snapshot to restore
+ * @returns A ResultAsync containing void or an error
+ */
+export function restoreSnapshot(
+  configPath: FilePath,
+  snapshot: BackupSnapshot,
+) {
+  const toError = (error: unknown) =>
+    new RestoreBackupError(snapshot.path, { cause: error });
+
+  return safeParseToml(snapshot.path)
+    .mapErr((error) => new InvalidBackupError(snapshot.path, { cause: error }))
+    .andThen(() => fromPromise(Deno.realPath(configPath), toError))
+    .andThen((realConfigPath) => {
+      const tempPath = `${realConfigPath}.tmp`;
+      return fromPromise(Deno.copyFile(snapshot.path, tempPath), toError)
+        .andThen(() =>
+          fromPromise(Deno.rename(tempPath, realConfigPath), toError)
+        )
+        // The copy may be half-written or fail to be renamed
+        .orElse((error) =>
+          fromPromise(Deno.remove(tempPath), () => error)
+            .orElse(() => okAsync(undefined))
+            .andThen(() => errAsync(error))
+        );
+    });
+}
+
+/**
+ * Formats the snapshot identifier of the given time (UTC).
+ *
+ * @example
+ * formatSnapshotId(new Date("2026-10-18T09:30:15.042Z")) // "20261018-093015-042"
+ */
+export function formatSnapshotId(date: Date): string {
+  const pad = (value: number, length = 2) =>
+    String(value).padStart(length, "0");
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${
+    pad(date.getUTCDate())
+  }-${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${
+    pad(date.getUTCSeconds())
+  }-${pad(date.getUTCMilliseconds(), 3)}`;
+}
+
+function formatSequencedId(timeId: string, sequence: number): string {
+  return sequence === 0 ? timeId : `${timeId}-${sequence}`;
+}
+
+function parseSnapshotFileName(
+  dir: FilePath,
+  name: string,
+): BackupSnapshot | undefined {
+  const match = SNAPSHOT_FILE_PATTERN.exec(name);
+  if (match === null) {
+    return undefined;
+  }
+  const [year, month, day, hours, minutes, seconds, ms, sequence] = match
+    .slice(1)
+    .map((value) => Number(value ?? 0));
+  return {
+    id: name.slice(0, -".toml".length),
+    path: join(dir, name),
+    createdAt: new Date(
+      Date.UTC(year, month - 1, day, hours, minutes, seconds, ms),
+    ),
+    sequence,
+  };
+}
@@ -0,0 +1,129 @@
+/**
+ * Colors defined in the Alacritty configuration itself.
+ *
+ * Alacritty applies the main configuration over its imports, so colors
+ * defined there win over the colors of the imported theme. These inline
+ * colors can be moved to an overrides file imported after the theme, which
+ * keeps them in effect but visible as a separate layer, or deleted.
+ */
+
+import { err, ok, okAsync } from "neverthrow";
+import type { Config, FilePath } from "../types.ts";
+import { safeReadFile, safeStat } from "../utils/fs-utils.ts";
+import { removeKey, setStringArray } from "../utils/toml-edit.ts";
+import { safeParseTomlContent } from "../utils/toml-utils.ts";
+import { NoColorOverridesError } from "./errors.ts";
+
+/** Key of the colors table in the Alacritty configuration */
+const COLORS_KEY = "colors";
+
+/**
+ * Lists the keys of all colors defined in the configuration, e.g.
+ * "colors.primary.background". Arrays, such as `colors.indexed_colors`, are
+ * listed as a single key.
+ *
+ * @param config - Alacritty configuration or theme content
+ * @returns Dotted keys of the colors
+ */
+export function listColorKeys(config: Record<string, unknown>): string[] {
+  return listLeafKeys(config[COLORS_KEY], [COLORS_KEY]);
+}
+
+/**
+ * Finds colors of the theme shadowed by colors defined in the configuration.
+ *
+ * @param config - Alacritty configuration
+ * @param themeContent - Parsed theme content
+ * @returns Dotted keys of the shadowed colors
+ *
+ * @example
+ * findShadowedColors(
+ *   { colors: { primary: { background: "#000000" } } },
+ *   { colors: { primary: { background: "#272822", foreground: "#f8f8f2" } } },
+ * ) // ["colors.primary.background"]
+ */
+export function findShadowedColors(
+  config: Config,
+  themeContent: Record<string, unknown>,
+): string[] {
+  const themeKeys = new Set(listColorKeys(themeContent));
+  return listColorKeys(config).filter((key) => themeKeys.has(key));
+}
+
+/**
+ * Removes the colors from the configuration content, leaving the rest of the
+ * content as it is.
+ *
+ * @param configPath - Path to the configuration file, used in errors
+ * @param content - Configuration file content
+ * @param importPath - File to move to the end of the import list, if any
+ * @returns A Result containing the new content and the removed colors as TOML,
+ * or an error
+ */
+export function extractInlineColors(
+  configPath: FilePath,
+  content: string,
+  importPath?: FilePath,
+) {
+  return removeKey(content, [COLORS_KEY])
+    .andThen(({ content, removed }) => {
+      return removed === ""
+        ? err(new NoColorOverridesError(configPath))
+        : ok({ content, removed });
+    })
+    .andThen(({ content, removed }) => {
+      if (importPath === undefined) {
+        return ok({ content, removed });
+      }
+      return safeParseTomlContent(content, configPath)
+        .andThen((config: Config) => {
+          const imports = (config.general?.import ?? [])
+            .filter((path) => path !== importPath);
+          return setStringArray(
+            content,
+            ["general", "import"],
+            [...imports, importPath],
+          );
+        })
+        .map((content) => ({ content, removed }));
+    });
+}
+
+/**
+ * Appends colors to the content of the overrides file, which may not exist
+ * yet. Nothing is written, so that the result can be checked before the
+ * configuration is changed: it must be valid TOML, e.g. a table can't be
+ * defined by both the existing file and the appended colors.
+ *
+ * @param overridesPath - Path to the overrides file
+ * @param colors - Colors as TOML
+ * @returns A ResultAsync containing the new content of the file or an error
+ */
+export function appendToOverrides(
+  overridesPath: FilePath,
+  colors: string,
+) {
+  return safeStat(overridesPath)
+    .map(() => true)
+    .orElse(() => okAsync(false))
+    .andThen((exists) => exists ? safeReadFile(overridesPath) : okAsync(""))
+    .andThen((existing) => {
+      const content = existing.trim() === ""
+        ? colors
+        : `${existing.trimEnd()}\n\n${colors}`;
+      return safeParseTomlContent(content, overridesPath).map(() => content);
+    });
+}
+
+function listLeafKeys(value: unknown, path: string[]): string[] {
+  if (!isTable(value)) {
+    return value === undefined ? [] : [path.join(".")];
+  }
+  return Object.entries(value).flatMap(([key, item]) =>
+    listLeafKeys(item, [...path, key])
+  );
+}
+
+function isTable(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
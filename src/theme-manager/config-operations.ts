@@ -1,15 +1,28 @@
 import { copy } from "@std/fs/copy";
 import { dirname } from "@std/path/dirname";
+import { join } from "@std/path/join";
+import { resolve } from "@std/path/resolve";
 import { errAsync, fromPromise, okAsync, type ResultAsync } from "neverthrow";
 import type { Config, FilePath } from "../types.ts";
 import { FileIsDirectoryError, FileNotTOMLError } from "../utils/fs-errors.ts";
-import { safeEnsureDir, safeStat, safeWriteFile } from "../utils/fs-utils.ts";
+import {
+  safeEnsureDir,
+  safeReadFile,
+  safeStat,
+  safeWriteFile,
+} from "../utils/fs-utils.ts";
+import { setStringArray } from "../utils/toml-edit.ts";
 import {
   isToml,
   safeParseToml,
   safeStringifyToml,
 } from "../utils/toml-utils.ts";
-import { BackupError } from "./errors.ts";
+import {
+  BackupError,
+  InvalidBackupError,
+  NoBackupFoundError,
+  RestoreBackupError,
+} from "./errors.ts";
 
 /**
  * Creates a backup copy of the configuration file.
@@ -29,15 +42,87 @@ export function createBackup(
 }
 
 /**
- * Writes the configuration to the specified file in a safe manner.
+ * Restores the backup by swapping it with the configuration file, so that
+ * restoring again brings the replaced configuration back.
+ *
+ * The backup is validated first. The configuration is copied aside and the
+ * backup is then renamed over it, so the configuration file is never missing
+ * or half-written. A symlinked configuration stays a symlink, its target is
+ * replaced instead.
+ *
+ * @param configPath - Path to the configuration file
+ * @param backupPath - Path to the backup file
+ * @returns A ResultAsync containing void or an error
+ */
+export function restoreBackup(
+  configPath: FilePath,
+  backupPath: FilePath,
+): ResultAsync<
+  void,
+  NoBackupFoundError | InvalidBackupError | RestoreBackupError
+> {
+  const tempPath = `${backupPath}.tmp`;
+  const toError = (error: unknown) =>
+    new RestoreBackupError(backupPath, { cause: error });
+
+  return safeStat(backupPath)
+    .mapErr((error) => new NoBackupFoundError(backupPath, { cause: error }))
+    .andThen(() => {
+      return safeParseToml(backupPath).mapErr((error) =>
+        new InvalidBackupError(backupPath, { cause: error })
+      );
+    })
+    .andThen(() => fromPromise(Deno.realPath(configPath), toError))
+    .andThen((realConfigPath) => {
+      return fromPromise(Deno.copyFile(realConfigPath, tempPath), toError)
+        .andThen(() =>
+          fromPromise(Deno.rename(backupPath, realConfigPath), toError)
+        )
+        .andThen(() => fromPromise(Deno.rename(tempPath, backupPath), toError));
+    });
+}
+
+/**
+ * Writes the import entries to the configuration file.
+ * Only the `general.import` array is edited, so comments, ordering and
+ * whitespace of the rest of the file stay unchanged.
  *
  * @param path - Path to the configuration file
- * @param config - Configuration to write
+ * @param imports - Import entries to write
  * @returns A ResultAsync containing void or an error
  */
-export function writeConfigToFile(path: string, config: Config) {
-  return safeStringifyToml(config)
-    .asyncAndThen((content) => safeWriteFile(path, content));
+export function writeConfigImports(path: FilePath, imports: string[]) {
+  return safeReadFile(path)
+    .andThen((content) =>
+      setStringArray(content, ["general", "import"], imports)
+    )
+    .andThen((content) => safeWriteFile(path, content));
+}
+
+/**
+ * Resolves an import path the same way Alacritty does: "~" is the home
+ * directory and relative paths are relative to the configuration file.
+ *
+ * @param importPath - Path as written in `general.import`
+ * @param configPath - Path to the configuration file
+ * @param homeDir - Home directory
+ * @returns The absolute path
+ *
+ * @example
+ * resolveImportPath("~/themes/nord.toml", "/etc/alacritty.toml", "/home/user")
+ * // "/home/user/themes/nord.toml"
+ * resolveImportPath("themes/nord.toml", "/etc/alacritty.toml", "/home/user")
+ * // "/etc/themes/nord.toml"
+ */
+export function resolveImportPath(
+  importPath: string,
+  configPath: FilePath,
+  homeDir: FilePath,
+): FilePath {
+  if (/^~[\\/]/.test(importPath)) {
+    return join(homeDir, importPath.slice(2));
+  }
+  return resolve(dirname(configPath), importPath);
 }
 
 /**
@@ -16,9 +16,73 @@ export class BackupError extends Error {
 export class ThemeNotFoundError extends Error {
   readonly _tag = "ThemeNotFoundError";
   filename: string;
-  constructor(filename: string, options?: ErrorOptions) {
+  /** Names of similar themes, the most similar first */
+  suggestions: string[];
+  constructor(
+    filename: string,
+    suggestions: string[] = [],
+    options?: ErrorOptions,
+  ) {
     super(`Given selected theme ${filename} does not exist.`, options);
     this.filename = filename;
+    this.suggestions = suggestions;
+  }
+}
+
+/**
+ * Error thrown when a theme name matches several themes.
+ */
+export class AmbiguousThemeError extends Error {
+  readonly _tag = "AmbiguousThemeError";
+  query: string;
+  /** Names of the matching themes */
+  candidates: string[];
+  constructor(query: string, candidates: string[], options?: ErrorOptions) {
+    super(
+      `Theme ${query} matches ${candidates.length} themes: ` +
+        `${candidates.join(", ")}.`,
+      options,
+    );
+    this.query = query;
+    this.candidates = candidates;
+  }
+}
+
+/**
+ * Error thrown when a theme file to create already exists.
+ */
+export class ThemeExistsError extends Error {
+  readonly _tag = "ThemeExistsError";
+  path: string;
+  constructor(path: string, options?: ErrorOptions) {
+    super(`Theme ${path} already exists.`, options);
+    this.path = path;
+  }
+}
+
+/**
+ * Error thrown when a theme name can't be made into a filename in the themes'
+ * directory.
+ */
+export class InvalidThemeNameError extends Error {
+  readonly _tag = "InvalidThemeNameError";
+  themeName: string;
+  constructor(themeName: string, options?: ErrorOptions) {
+    super(`"${themeName}" can't be used as a theme name.`, options);
+    this.themeName = themeName;
+  }
+}
+
+/**
+ * Error thrown when the terminal doesn't tell its colors.
+ */
+export class NoTerminalColorsError extends Error {
+  readonly _tag = "NoTerminalColorsError";
+  constructor(options?: ErrorOptions) {
+    super(
+      "The terminal didn't tell its foreground and background colors.",
+      options,
+    );
   }
 }
 
@@ -34,6 +98,16 @@ export class ThemeNotTOMLError extends Error {
   }
 }
 
+/**
+ * Error thrown when no theme matches the given filter.
+ */
+export class NoMatchingThemesError extends Error {
+  readonly _tag = "NoMatchingThemesError";
+  constructor(options?: ErrorOptions) {
+    super(`No themes match the given filter.`, options);
+  }
+}
+
 /**
  * Error thrown when no themes are found in a directory.
  */
@@ -48,3 +122,121 @@ export class NoThemesFoundError extends Error {
     this.path = path;
   }
 }
+
+/**
+ * Error thrown when reading or replacing the active theme file fails.
+ */
+export class ActiveThemeFileError extends Error {
+  readonly _tag = "ActiveThemeFileError";
+  path: string;
+  constructor(path: string, options?: ErrorOptions) {
+    super(`Failed to update active theme file ${path}.`, options);
+    this.path = path;
+  }
+}
+
+/**
+ * Error thrown when the configuration doesn't import any theme.
+ */
+export class NoActiveThemeError extends Error {
+  readonly _tag = "NoActiveThemeError";
+  path: string;
+  constructor(path: string, options?: ErrorOptions) {
+    super(`Configuration ${path} doesn't import any theme.`, options);
+    this.path = path;
+  }
+}
+
+/**
+ * Error thrown when the configuration imports several themes at once.
+ */
+export class MultipleActiveThemesError extends Error {
+  readonly _tag = "MultipleActiveThemesError";
+  paths: string[];
+  constructor(paths: string[], options?: ErrorOptions) {
+    super(
+      `Several themes are imported at once: ${paths.join(", ")}.`,
+      options,
+    );
+    this.paths = paths;
+  }
+}
+
+/**
+ * Error thrown when there is no backup to restore.
+ */
+export class NoBackupFoundError extends Error {
+  readonly _tag = "NoBackupFoundError";
+  path: string;
+  constructor(path: string, options?: ErrorOptions) {
+    super(
+      `No backup found at ${path}. A backup is made before every switch.`,
+      options,
+    );
+    this.path = path;
+  }
+}
+
+/**
+ * Error thrown when the backup isn't a valid TOML file.
+ */
+export class InvalidBackupError extends Error {
+  readonly _tag = "InvalidBackupError";
+  path: string;
+  constructor(path: string, options?: ErrorOptions) {
+    super(`Backup ${path} is not a valid TOML file.`, options);
+    this.path = path;
+  }
+}
+
+/**
+ * Error thrown when swapping the backup and the configuration fails.
+ */
+export class RestoreBackupError extends Error {
+  readonly _tag = "RestoreBackupError";
+  path: string;
+  constructor(path: string, options?: ErrorOptions) {
+    super(`Failed to restore backup ${path}.`, options);
+    this.path = path;
+  }
+}
+
+/**
+ * Error thrown when reading or pruning the backups' directory fails.
+ */
+export class BackupHistoryError extends Error {
+  readonly _tag = "BackupHistoryError";
+  path: string;
+  constructor(path: string, options?: ErrorOptions) {
+    super(`Failed to update backups in ${path}.`, options);
+    this.path = path;
+  }
+}
+
+/**
+ * Error thrown when no backup snapshot has the given identifier.
+ */
+export class BackupSnapshotNotFoundError extends Error {
+  readonly _tag = "BackupSnapshotNotFoundError";
+  id: string;
+  constructor(id: string, options?: ErrorOptions) {
+    super(
+      `Backup ${id} does not exist. Use \`ats backups list\` to see backups.`,
+      options,
+    );
+    this.id = id;
+  }
+}
+
+/**
+ * Error thrown when the configuration doesn't define any colors to move or
+ * delete.
+ */
+export class NoColorOverridesError extends Error {
+  readonly _tag = "NoColorOverridesError";
+  path: string;
+  constructor(path: string, options?: ErrorOptions) {
+    super(`Config ${path} doesn't define any colors.`, options);
+    this.path = path;
+  }
+}
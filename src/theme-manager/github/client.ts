@@ -20,6 +20,7 @@ import { Theme } from "../theme.ts";
 import {
   FileDownloadError,
   GitHubApiError,
+  HttpStatusError,
   InvalidRepositoryUrlError,
   NoLicenseFileFoundError,
 } from "./errors.ts";
@@ -160,7 +161,7 @@ class GitHubClient {
         const filename = basename(remotePath);
         const localPath = join(outputPath, filename);
 
-        return safeParseTomlContent(content)
+        return safeParseTomlContent(content, remotePath)
           .asyncAndThen((themeContent) => {
             return safeWriteFile(localPath, content).map(() => {
               return new Theme(localPath, themeContent, null);
@@ -371,7 +372,11 @@ class GitHubClient {
       headers["Authorization"] = `Bearer ${this.#token}`;
     }
 
-    return safeFetch(url, (error) => new GitHubApiError(url, { cause: error }))
+    return safeFetch(
+      url,
+      (error) => new GitHubApiError(url, { cause: error }),
+      { headers },
+    )
       .map((response) => response.json() as Promise<T>); // TODO: Add parsing/validation!
   }
 
@@ -397,19 +402,23 @@ class GitHubClient {
  *
  * @param url - URL to fetch
  * @param errorMapper - Function to map fetch errors to custom errors
+ * @param init - Request options, e.g. headers
  * @returns A ResultAsync containing the response or an error
  */
 function safeFetch<TErr>(
   url: string,
   errorMapper: (error: unknown) => TErr,
+  init?: RequestInit,
 ): ResultAsync<Response, TErr> {
   return fromPromise(
-    fetch(url),
+    fetch(url, init),
     errorMapper,
   ).andThen((response) => {
     if (!response.ok) {
-      const cause = new Error(
-        `HTTP ${response.status}: ${response.statusText}`,
+      const cause = new HttpStatusError(
+        url,
+        response.status,
+        response.statusText,
       );
       return errAsync(
         errorMapper(cause),
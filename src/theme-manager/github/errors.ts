@@ -27,6 +27,26 @@ export class GitHubApiError extends Error {
   }
 }
 
+/**
+ * Error thrown when a server responds with an error status.
+ */
+export class HttpStatusError extends Error {
+  readonly _tag = "HttpStatusError";
+  url: string;
+  status: number;
+
+  constructor(
+    url: string,
+    status: number,
+    statusText: string,
+    options?: ErrorOptions,
+  ) {
+    super(`HTTP ${status}: ${statusText}`, options);
+    this.url = url;
+    this.status = status;
+  }
+}
+
 /**
  * Error thrown when downloading a file fails.
  */
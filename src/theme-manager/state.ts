@@ -0,0 +1,97 @@
+/**
+ * Persistent state of alacritty-theme-switch kept between runs, i.e. the
+ * recently applied themes and the favorite themes.
+ */
+
+import { okAsync, type ResultAsync } from "neverthrow";
+import type { FilePath } from "../types.ts";
+import type { FileNotReadableError } from "../utils/fs-errors.ts";
+import { safeStat, safeWriteFile } from "../utils/fs-utils.ts";
+import type { TomlParseError } from "../utils/toml-errors.ts";
+import { safeParseToml, safeStringifyToml } from "../utils/toml-utils.ts";
+
+/** Maximum number of recently applied themes kept in the state */
+const MAX_RECENT_THEMES = 50;
+
+/** State kept between runs */
+export type State = {
+  /** Paths of recently applied themes, the most recent last */
+  recent: FilePath[];
+  /** Paths of favorite themes */
+  favorites: FilePath[];
+};
+
+/**
+ * Reads the state file. A missing file results in an empty state.
+ *
+ * @param path - Path to the state file
+ * @returns A ResultAsync containing the state or an error
+ */
+export function readState(
+  path: FilePath,
+): ResultAsync<State, FileNotReadableError | TomlParseError> {
+  return safeStat(path)
+    .map(() => true)
+    .orElse(() => okAsync(false))
+    .andThen((exists) => {
+      if (!exists) {
+        return okAsync({ recent: [], favorites: [] });
+      }
+      return safeParseToml(path).map((content) => ({
+        recent: toStringArray(content.recent),
+        favorites: toStringArray(content.favorites),
+      }));
+    });
+}
+
+/**
+ * Writes the state file.
+ *
+ * @param path - Path to the state file
+ * @param state - State to write
+ * @returns A ResultAsync containing void or an error
+ */
+export function writeState(path: FilePath, state: State) {
+  return safeStringifyToml(state)
+    .asyncAndThen((content) => safeWriteFile(path, content));
+}
+
+/**
+ * Updates the state file with the given function.
+ *
+ * @param path - Path to the state file
+ * @param update - Function returning the new state
+ * @returns A ResultAsync containing the new state or an error
+ */
+export function updateState(
+  path: FilePath,
+  update: (state: State) => State,
+) {
+  return readState(path).andThen((state) => {
+    const newState = update(state);
+    return writeState(path, newState).map(() => newState);
+  });
+}
+
+/**
+ * Records the theme as the most recently applied one.
+ *
+ * @param path - Path to the state file
+ * @param themePath - Path to the applied theme
+ * @returns A ResultAsync containing the new state or an error
+ */
+export function recordRecentTheme(path: FilePath, themePath: FilePath) {
+  return updateState(path, (state) => ({
+    ...state,
+    recent: [
+      ...state.recent.filter((recentPath) => recentPath !== themePath),
+      themePath,
+    ].slice(-MAX_RECENT_THEMES),
+  }));
+}
+
+function toStringArray(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((item) => typeof item === "string")
+    : [];
+}
@@ -0,0 +1,97 @@
+/**
+ * Lookup of a theme given by the user, e.g. with `--select`.
+ *
+ * A theme can be given by its filename, its path relative to the themes'
+ * directory (the ".toml" extension may be left out), its absolute path or its
+ * label. A name matching several themes is an error listing them, a name
+ * matching none suggests the most similar names.
+ */
+
+import { normalize } from "@std/path/normalize";
+import { relative } from "@std/path/relative";
+import { err, ok, type Result } from "neverthrow";
+import type { FilePath } from "../types.ts";
+import { findSimilar } from "../utils/string-utils.ts";
+import { AmbiguousThemeError, ThemeNotFoundError } from "./errors.ts";
+import type { Theme } from "./theme.ts";
+
+/**
+ * Finds the theme given by its filename, path or label. Paths win over
+ * labels, so a theme labeled the same as another theme's filename is still
+ * reachable by its path.
+ *
+ * @param themes - Themes to search
+ * @param name - Filename, path or label of the theme
+ * @param themesDirPath - Themes' directory the names are shown relative to
+ * @returns A Result containing the theme or an error
+ *
+ * @example
+ * findTheme(themes, "dark/monokai") // theme at <themes>/dark/monokai.toml
+ * findTheme(themes, "monokai pro") // theme labeled "Monokai Pro"
+ */
+export function findTheme(
+  themes: Theme[],
+  name: string,
+  themesDirPath?: FilePath,
+): Result<Theme, ThemeNotFoundError | AmbiguousThemeError> {
+  const showName = (theme: Theme) =>
+    themesDirPath === undefined
+      ? theme.path
+      : relative(themesDirPath, theme.path);
+
+  const pathMatches = themes.filter((theme) => matchesPath(theme, name));
+  const matches = pathMatches.length > 0
+    ? pathMatches
+    : themes.filter((theme) => matchesLabel(theme, name));
+
+  if (matches.length === 1) {
+    return ok(matches[0]);
+  }
+  if (matches.length > 1) {
+    return err(new AmbiguousThemeError(name, matches.map(showName)));
+  }
+
+  // Suggest paths for names looking like paths, labels otherwise. Paths are
+  // compared by their filenames, so that the directories of nested themes
+  // don't count as differences.
+  const suggestions = looksLikePath(name)
+    ? findSimilar(
+      getFilename(name),
+      themes.map(showName),
+      3,
+      getFilename,
+    )
+    : findSimilar(name, [...new Set(themes.map((theme) => theme.label))]);
+  return err(new ThemeNotFoundError(name, suggestions));
+}
+
+function matchesPath(theme: Theme, name: string): boolean {
+  const path = normalizeSeparators(theme.path);
+  // "./dark/monokai" and "dark/../dark/monokai" are "dark/monokai"
+  const normalizedName = normalizeSeparators(normalize(name));
+  return [normalizedName, `${normalizedName}.toml`].some((candidate) =>
+    path === candidate || path.endsWith(`/${candidate}`)
+  );
+}
+
+function matchesLabel(theme: Theme, name: string): boolean {
+  return normalizeLabel(theme.label) === normalizeLabel(name);
+}
+
+function looksLikePath(name: string): boolean {
+  return /[/\\]|\.toml$/i.test(name);
+}
+
+function normalizeSeparators(path: string): string {
+  return path.replaceAll("\\", "/");
+}
+
+/** Filename without its directory, with the ".toml" extension */
+function getFilename(path: string): string {
+  const filename = normalizeSeparators(path).split("/").pop()!;
+  return /\.toml$/i.test(filename) ? filename : `${filename}.toml`;
+}
+
+function normalizeLabel(label: string): string {
+  return label.trim().replace(/\s+/g, " ").toLowerCase();
+}
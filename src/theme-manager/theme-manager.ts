@@ -1,25 +1,98 @@
-import { errAsync, okAsync, ResultAsync } from "neverthrow";
+import { err, errAsync, ok, okAsync, ResultAsync } from "neverthrow";
 import type { Config } from "../types.ts";
-import { DirectoryIsFileError } from "../utils/fs-errors.ts";
+import {
+  DirectoryIsFileError,
+  type FileNotReadableError,
+  type WriteError,
+} from "../utils/fs-errors.ts";
 import {
   type FilePath,
   safeEnsureDir,
+  safeReadFile,
   safeStat,
   safeWalkAll,
+  safeWriteFile,
 } from "../utils/fs-utils.ts";
-import { isToml, safeParseToml } from "../utils/toml-utils.ts";
+import type { Brightness } from "../utils/theme-utils.ts";
+import type {
+  TomlEditError,
+  TomlParseError,
+  TomlStringifyError,
+} from "../utils/toml-errors.ts";
+import { isToml, safeParseTomlContent } from "../utils/toml-utils.ts";
 import {
-  createBackup,
-  parseConfig,
-  writeConfigToFile,
-} from "./config-operations.ts";
+  type ActiveThemeFileMode,
+  type ActiveThemeFileState,
+  findActiveFileTheme,
+  readActiveThemeFile,
+  restoreActiveThemeFile,
+  writeActiveThemeFile,
+} from "./active-theme-file.ts";
+import { type BackupHistory, recordSnapshot } from "./backup-history.ts";
+import { findShadowedColors } from "./color-overrides.ts";
+import { parseConfig, writeConfigImports } from "./config-operations.ts";
 import {
+  type ActiveThemeFileError,
+  BackupError,
+  MultipleActiveThemesError,
+  NoActiveThemeError,
   NoThemesFoundError,
   ThemeNotFoundError,
   ThemeNotTOMLError,
 } from "./errors.ts";
+import { recordRecentTheme } from "./state.ts";
+import { findTheme } from "./theme-lookup.ts";
+import { readBrightnessOverride } from "./theme-metadata.ts";
 import { Theme } from "./theme.ts";
 
+/** Optional theme manager features */
+type ThemeManagerOptions = {
+  /** Active theme file, only set in indirection mode */
+  activeThemeFile?: ActiveThemeFile;
+  /** Path to the state file recording applied themes */
+  statePath?: FilePath;
+  /** Directory of timestamped backups made before every switch */
+  backupHistory?: BackupHistory;
+  /** Path to the overrides file the theme is imported before */
+  overridesPath?: FilePath;
+  /** Theme files skipped because they can't be loaded */
+  loadFailures?: ThemeLoadFailure[];
+  /** Directory containing the themes' files */
+  themesDirPath?: FilePath;
+};
+
+/** Theme file that can't be loaded */
+export type ThemeLoadFailure = {
+  /** Path to the theme file */
+  path: FilePath;
+  /** Why the theme file can't be loaded */
+  error: FileNotReadableError | TomlParseError;
+};
+
+/** Themes loaded from the themes' directory */
+type LoadedThemes = {
+  /** Themes loaded successfully */
+  themes: Theme[];
+  /** Theme files skipped because they can't be loaded */
+  failures: ThemeLoadFailure[];
+};
+
+/** Theme loading options */
+type LoadThemesOptions = {
+  /** Fail on the first theme file that can't be loaded instead of skipping it */
+  strict?: boolean;
+};
+
+/** Active theme file used in indirection mode */
+type ActiveThemeFile = {
+  /** Path to the file imported by the Alacritty configuration */
+  path: FilePath;
+  /** Whether the theme is copied or symlinked */
+  mode: ActiveThemeFileMode;
+  /** Path to the theme the file is currently made of */
+  themePath: FilePath | undefined;
+};
+
 /**
  * Theme manager encapsulates all operations related to theme management.
  * @internal Use `createThemeManager` to create an instance.
@@ -35,18 +108,48 @@ class ThemeManager {
   #backupPath: FilePath;
   /** Path to the Alacritty configuration file */
   #configPath: FilePath;
+  /** Active theme file, only set in indirection mode */
+  #activeThemeFile: ActiveThemeFile | null;
+  /** Path to the state file recording applied themes, if any */
+  #statePath: FilePath | null;
+  /** Directory of timestamped backups, if any */
+  #backupHistory: BackupHistory | null;
+  /** Path to the overrides file the theme is imported before, if any */
+  #overridesPath: FilePath | null;
+  /** Theme files skipped because they can't be loaded */
+  #loadFailures: ThemeLoadFailure[];
+  /** Directory containing the themes' files, if known */
+  #themesDirPath: FilePath | null;
+  /** Configuration file content captured before the first live preview */
+  #contentBeforePreview: string | null = null;
+  /** Active theme file state captured before the first live preview */
+  #activeThemeFileBeforePreview: ActiveThemeFileState | null = null;
+  /** Why the last applied theme couldn't be recorded in the state file */
+  #recentThemeError:
+    | FileNotReadableError
+    | TomlParseError
+    | TomlStringifyError
+    | WriteError
+    | null = null;
 
   constructor(
     config: Config,
     themes: Theme[],
     backupPath: FilePath,
     configPath: FilePath,
+    options: ThemeManagerOptions = {},
   ) {
     this.#config = config;
     this.#themes = themes;
     this.#themesPaths = new Set(themes.map((theme) => theme.path));
     this.#backupPath = backupPath;
     this.#configPath = configPath;
+    this.#activeThemeFile = options.activeThemeFile ?? null;
+    this.#statePath = options.statePath ?? null;
+    this.#backupHistory = options.backupHistory ?? null;
+    this.#overridesPath = options.overridesPath ?? null;
+    this.#loadFailures = options.loadFailures ?? [];
+    this.#themesDirPath = options.themesDirPath ?? null;
   }
 
   /**
@@ -64,10 +167,35 @@ class ThemeManager {
   listThemes() {
     const activeThemes = this.#getActiveThemes();
     return this.#themes.map((theme) =>
-      new Theme(theme.path, theme.themeContent, activeThemes.has(theme.path))
+      new Theme(
+        theme.path,
+        theme.themeContent,
+        activeThemes.has(theme.path),
+        theme.brightnessOverride,
+      )
     );
   }
 
+  /**
+   * Sets the brightness of a theme by hand, or goes back to the detected one.
+   * @param themePath - Path to the theme file
+   * @param brightness - Brightness to set, or null to detect it
+   */
+  setBrightnessOverride(themePath: FilePath, brightness: Brightness | null) {
+    const theme = this.#themes.find((theme) => theme.path === themePath);
+    if (theme) {
+      theme.brightnessOverride = brightness;
+    }
+  }
+
+  /**
+   * Lists theme files skipped because they can't be loaded.
+   * @returns Paths to the theme files with their errors
+   */
+  getLoadFailures() {
+    return this.#loadFailures;
+  }
+
   /**
    * Returns the first active theme.
    */
@@ -76,53 +204,269 @@ class ThemeManager {
     return this.#themes.find((theme) => activeThemes.has(theme.path));
   }
 
+  /**
+   * Returns the only active theme.
+   * Unlike `getFirstActiveTheme`, it fails if no theme or several themes are
+   * imported at once.
+   * @returns A Result containing the active theme or an error
+   */
+  getActiveTheme() {
+    const activeThemes = this.listThemes().filter((theme) =>
+      theme.isCurrentlyActive
+    );
+    if (activeThemes.length === 0) {
+      return err(
+        new NoActiveThemeError(
+          this.#activeThemeFile?.path ?? this.#configPath,
+        ),
+      );
+    }
+    if (activeThemes.length > 1) {
+      return err(
+        new MultipleActiveThemesError(activeThemes.map((theme) => theme.path)),
+      );
+    }
+    return ok(activeThemes[0]);
+  }
+
   /**
    * Applies the selected theme to the Alacritty configuration.
+   * If a live preview is in progress, the backup is made from the configuration
+   * captured before the first preview instead of the previewed one.
+   * In indirection mode only the active theme file is replaced.
+   * The theme is recorded as recently applied in the state file, if any.
+   * The theme is applied even if that fails, the error is kept for
+   * `getRecentThemeError` instead.
    * @param selectedTheme - Theme to apply
    * @returns A ResultAsync containing the applied theme or an error
    */
   applyTheme(selectedTheme: Theme) {
-    return createBackup(this.#configPath, this.#backupPath)
-      .andThen(() => {
-        const newConfig = structuredClone(this.getConfig());
-        newConfig.general ??= {};
-        newConfig.general.import ??= [];
-        // Remove all themes from import entries first
-        newConfig.general.import = newConfig.general.import.filter(
-          (importEntryPath: string) => !this.#themesPaths.has(importEntryPath),
-        );
-        // Then add the selected theme there
-        newConfig.general.import.push(selectedTheme.path);
+    this.#recentThemeError = null;
+    return this.#replaceTheme(selectedTheme).andThen((theme) => {
+      const statePath = this.#statePath;
+      if (statePath === null) {
+        return okAsync(theme);
+      }
+      return recordRecentTheme(statePath, theme.path)
+        .map(() => theme)
+        .orElse((error) => {
+          this.#recentThemeError = error;
+          return okAsync(theme);
+        });
+    });
+  }
 
-        return okAsync(newConfig);
-      })
+  /**
+   * Returns why the last applied theme couldn't be recorded as recently
+   * applied in the state file.
+   * @returns The error, or null if it was recorded or there's no state file
+   */
+  getRecentThemeError() {
+    return this.#recentThemeError;
+  }
+
+  /**
+   * Lists colors of the theme shadowed by colors defined in the configuration
+   * itself, which Alacritty applies over any import.
+   * @param theme - Theme to check
+   * @returns Dotted keys of the shadowed colors
+   */
+  getShadowedColors(theme: Theme) {
+    return findShadowedColors(this.getConfig(), theme.themeContent);
+  }
+
+  /**
+   * Finds the theme with the given filename, path relative to the themes'
+   * directory or label.
+   * @param name - Filename, path or label of the theme
+   * @returns A Result containing the theme or an error, also when the name
+   * matches several themes
+   */
+  findThemeByFilename(name: string) {
+    return findTheme(
+      this.listThemes(),
+      name,
+      this.#themesDirPath ?? undefined,
+    );
+  }
+
+  /**
+   * Applies the selected theme to the Alacritty configuration file or to the
+   * active theme file in indirection mode.
+   */
+  #replaceTheme(selectedTheme: Theme): ResultAsync<
+    Theme,
+    | ActiveThemeFileError
+    | BackupError
+    | FileNotReadableError
+    | TomlEditError
+    | WriteError
+  > {
+    const activeThemeFile = this.#activeThemeFile;
+    if (activeThemeFile) {
+      return writeActiveThemeFile(
+        activeThemeFile.path,
+        selectedTheme.path,
+        activeThemeFile.mode,
+      ).map(() => {
+        activeThemeFile.themePath = selectedTheme.path;
+        this.#activeThemeFileBeforePreview = null;
+        return selectedTheme;
+      });
+    }
+
+    return this.#createBackup()
+      .map(() => this.#withThemeImported(selectedTheme))
       .andThen((newConfig) => {
-        return writeConfigToFile(this.#configPath, newConfig).map(() => {
+        return this.#writeImports(newConfig).map(() => {
           this.#setConfig(newConfig);
+          this.#contentBeforePreview = null;
           return selectedTheme;
         });
       });
   }
 
   /**
-   * Applies the theme with the given filename.
-   * @param name - Filename of the theme to apply
+   * Temporarily applies the theme so that Alacritty shows it right away.
+   * No backup is created and the in-memory configuration stays untouched.
+   * The configuration file content is captured on the first preview, so that
+   * it can be put back by `cancelPreview`.
+   * @param theme - Theme to preview
+   * @returns A ResultAsync containing the previewed theme or an error
+   */
+  previewTheme(theme: Theme) {
+    const activeThemeFile = this.#activeThemeFile;
+    if (activeThemeFile) {
+      const captureResult = this.#activeThemeFileBeforePreview === null
+        ? readActiveThemeFile(activeThemeFile.path).map((state) => {
+          this.#activeThemeFileBeforePreview = state;
+        })
+        : okAsync(undefined);
+
+      return captureResult
+        .andThen(() =>
+          writeActiveThemeFile(
+            activeThemeFile.path,
+            theme.path,
+            activeThemeFile.mode,
+          )
+        )
+        .map(() => theme);
+    }
+
+    const captureResult = this.#contentBeforePreview === null
+      ? safeReadFile(this.#configPath).map((content) => {
+        this.#contentBeforePreview = content;
+      })
+      : okAsync(undefined);
+
+    return captureResult
+      .andThen(() => this.#writeImports(this.#withThemeImported(theme)))
+      .map(() => theme);
+  }
+
+  /**
+   * Puts back the exact configuration file content (or the active theme file
+   * in indirection mode) from before the first live preview.
+   * Does nothing if no preview is in progress.
+   * @returns A ResultAsync containing void or an error
+   */
+  cancelPreview() {
+    const activeThemeFile = this.#activeThemeFile;
+    const state = this.#activeThemeFileBeforePreview;
+    if (activeThemeFile && state !== null) {
+      return restoreActiveThemeFile(activeThemeFile.path, state).map(() => {
+        this.#activeThemeFileBeforePreview = null;
+      });
+    }
+
+    const content = this.#contentBeforePreview;
+    if (content === null) {
+      return okAsync(undefined);
+    }
+    return safeWriteFile(this.#configPath, content).map(() => {
+      this.#contentBeforePreview = null;
+    });
+  }
+
+  /**
+   * Applies the theme with the given filename, path or label.
+   * @param name - Filename, path or label of the theme to apply
    * @returns A ResultAsync containing the applied theme or an error
    */
   applyThemeByFilename(name: string) {
-    const theme = this.listThemes().find((theme) => theme.path.endsWith(name));
-
-    if (theme === undefined) {
-      return errAsync(new ThemeNotFoundError(name));
+    const themeResult = this.findThemeByFilename(name);
+    if (themeResult.isErr()) {
+      return errAsync(themeResult.error);
     }
 
+    const theme = themeResult.value;
     if (!isToml(theme.path)) {
       return errAsync(new ThemeNotTOMLError(theme.path));
     }
 
     return safeStat(theme.path)
       .andThen(() => this.applyTheme(theme))
-      .mapErr((error) => new ThemeNotFoundError(theme.path, { cause: error }));
+      .mapErr((error) =>
+        new ThemeNotFoundError(theme.path, [], { cause: error })
+      );
+  }
+
+  /**
+   * Creates a backup of the configuration file and a timestamped snapshot
+   * in the backups' directory, if any.
+   * While a live preview is in progress, the file holds a previewed theme, so
+   * the content captured before the first preview is backed up instead.
+   */
+  #createBackup() {
+    const contentResult = this.#contentBeforePreview === null
+      ? safeReadFile(this.#configPath)
+      : okAsync(this.#contentBeforePreview);
+
+    return contentResult
+      .andThen((content) => {
+        const backupHistory = this.#backupHistory;
+        return safeWriteFile(this.#backupPath, content).andThen(() =>
+          backupHistory === null
+            ? okAsync(undefined)
+            : recordSnapshot(backupHistory, content).map(() => undefined)
+        );
+      })
+      .mapErr((error) => new BackupError(this.#configPath, { cause: error }));
+  }
+
+  /**
+   * Creates a copy of the current configuration with the given theme imported
+   * in place of any other theme. The theme is imported before the overrides
+   * file, if any, so that the overrides still win.
+   */
+  #withThemeImported(theme: Theme) {
+    const newConfig = structuredClone(this.getConfig());
+    newConfig.general ??= {};
+    newConfig.general.import ??= [];
+    // Remove all themes from import entries first
+    newConfig.general.import = newConfig.general.import.filter(
+      (importEntryPath: string) => !this.#themesPaths.has(importEntryPath),
+    );
+    // Then add the selected theme there
+    const overridesIndex = this.#overridesPath === null
+      ? -1
+      : newConfig.general.import.indexOf(this.#overridesPath);
+    if (overridesIndex === -1) {
+      newConfig.general.import.push(theme.path);
+    } else {
+      newConfig.general.import.splice(overridesIndex, 0, theme.path);
+    }
+
+    return newConfig;
+  }
+
+  /**
+   * Writes import entries of the given configuration to the configuration file,
+   * leaving the rest of the file as it is.
+   */
+  #writeImports(config: Config) {
+    return writeConfigImports(this.#configPath, config.general?.import ?? []);
   }
 
   /**
@@ -137,6 +481,10 @@ class ThemeManager {
    * @returns A set of all currently active themes
    */
   #getActiveThemes() {
+    if (this.#activeThemeFile) {
+      const themePath = this.#activeThemeFile.themePath;
+      return new Set(themePath === undefined ? [] : [themePath]);
+    }
     const config = this.getConfig();
     const imports = config.general?.import ?? [];
     const activeThemes = imports.filter((i: string) =>
@@ -152,10 +500,18 @@ class ThemeManager {
    * If the directory exists and contains TOML files, they will be parsed and returned.
    * If the directory exists and contains no TOML files, an error will be returned.
    *
+   * Theme files that can't be read or parsed are skipped and returned as
+   * failures, unless no theme loads at all. In strict mode the first failure
+   * is returned as an error instead.
+   *
    * @param themeDirPath - Path to the directory containing custom themes' files
-   * @returns A ResultAsync containing an array of all themes or an error
+   * @param options - Loading options
+   * @returns A ResultAsync containing loaded themes and failures or an error
    */
-  static loadThemes(themeDirPath: FilePath) {
+  static loadThemes(
+    themeDirPath: FilePath,
+    options: LoadThemesOptions = {},
+  ) {
     return safeEnsureDir(themeDirPath)
       .andThen(() => safeStat(themeDirPath))
       .andThen((stat) => {
@@ -174,16 +530,54 @@ class ThemeManager {
             return errAsync(new NoThemesFoundError(themeDirPath));
           }
           const themesResults = entries.map((entry) => {
-            return safeParseToml(entry.path).map((themeContent) =>
-              new Theme(entry.path, themeContent, null)
+            return safeReadFile(entry.path).andThen((content) =>
+              safeParseTomlContent(content, entry.path).map((themeContent) =>
+                new Theme(
+                  entry.path,
+                  themeContent,
+                  null,
+                  readBrightnessOverride(content),
+                )
+              )
             );
           });
-          return ResultAsync.combine(themesResults);
+          if (options.strict) {
+            return ResultAsync.combine(themesResults)
+              .map((themes): LoadedThemes => ({ themes, failures: [] }));
+          }
+          return ResultAsync.combine(
+            themesResults.map((result, index) =>
+              result
+                .map((theme): Theme | ThemeLoadFailure => theme)
+                .orElse((error) =>
+                  okAsync({ path: entries[index].path, error })
+                )
+            ),
+          ).andThen((results) => {
+            const themes = results.filter((result) => result instanceof Theme);
+            const failures = results.filter((
+              result,
+            ): result is ThemeLoadFailure => !(result instanceof Theme));
+            return themes.length === 0
+              ? errAsync(failures[0].error)
+              : okAsync<LoadedThemes>({ themes, failures });
+          });
         });
       });
   }
 }
 
+/**
+ * Loads all themes from the given directory.
+ * @see ThemeManager.loadThemes
+ */
+export function loadThemes(
+  themeDirPath: FilePath,
+  options: LoadThemesOptions = {},
+) {
+  return ThemeManager.loadThemes(themeDirPath, options);
+}
+
 /**
  * Type alias for ThemeManager instance.
  */
@@ -197,20 +591,74 @@ type ThemesManagerParams = {
   configPath: FilePath;
   /** Path to the directory containing custom themes' files */
   themesDirPath: FilePath;
+  /**
+   * Path to the active theme file imported by the Alacritty configuration.
+   * When set, themes are applied by replacing this file only (indirection mode).
+   */
+  activeThemePath?: FilePath;
+  /** Whether the active theme file is a copy of the theme or a symlink to it */
+  activeThemeMode?: ActiveThemeFileMode;
+  /** Path to the state file recording applied themes */
+  statePath?: FilePath;
+  /** Directory of timestamped backups made before every switch */
+  backupHistory?: BackupHistory;
+  /** Path to the overrides file the theme is imported before */
+  overridesPath?: FilePath;
+  /** Fail on the first theme file that can't be loaded instead of skipping it */
+  strict?: boolean;
 };
 
 /**
  * Factory function for creating a theme manager.
  */
 export function createThemeManager(params: ThemesManagerParams) {
-  return ThemeManager.loadThemes(params.themesDirPath)
-    .andThen((themes) => {
-      return parseConfig(params.configPath).map((config) => {
+  return ThemeManager.loadThemes(params.themesDirPath, {
+    strict: params.strict,
+  })
+    .andThen(({ themes, failures }) => {
+      return parseConfig(params.configPath).map((config) => ({
+        config,
+        themes,
+        failures,
+      }));
+    })
+    .andThen(({ config, themes, failures }) => {
+      const activeThemePath = params.activeThemePath;
+      if (activeThemePath === undefined) {
+        return okAsync(
+          new ThemeManager(
+            config,
+            themes,
+            params.backupPath,
+            params.configPath,
+            {
+              statePath: params.statePath,
+              backupHistory: params.backupHistory,
+              overridesPath: params.overridesPath,
+              loadFailures: failures,
+              themesDirPath: params.themesDirPath,
+            },
+          ),
+        );
+      }
+      return readActiveThemeFile(activeThemePath).map((state) => {
         return new ThemeManager(
           config,
           themes,
           params.backupPath,
           params.configPath,
+          {
+            activeThemeFile: {
+              path: activeThemePath,
+              mode: params.activeThemeMode ?? "copy",
+              themePath: findActiveFileTheme(state, themes)?.path,
+            },
+            statePath: params.statePath,
+            backupHistory: params.backupHistory,
+            overridesPath: params.overridesPath,
+            loadFailures: failures,
+            themesDirPath: params.themesDirPath,
+          },
         );
       });
     });
@@ -0,0 +1,49 @@
+/**
+ * Metadata kept in theme files.
+ *
+ * Alacritty warns about keys it doesn't know, also in imported files, so
+ * metadata is written as comment lines such as `# ats-brightness: light`,
+ * which Alacritty ignores and which stay with the theme when it's moved or
+ * shared.
+ */
+
+import type { Brightness } from "../utils/theme-utils.ts";
+
+/** Comment line setting the brightness, with its line break */
+const BRIGHTNESS_LINE = /^#\s*ats-brightness:\s*(\S*)[^\S\r\n]*(?:\r?\n|$)/gm;
+
+/**
+ * Reads the brightness set by hand from the content of a theme file.
+ *
+ * @param content - Content of the theme file
+ * @returns The brightness, or null if none is set
+ *
+ * @example
+ * readBrightnessOverride('# ats-brightness: light\n[colors.primary]\n')
+ * // "light"
+ */
+export function readBrightnessOverride(content: string): Brightness | null {
+  const values = [...content.matchAll(BRIGHTNESS_LINE)].map((match) =>
+    match[1]
+  );
+  const value = values[values.length - 1];
+  return value === "light" || value === "dark" ? value : null;
+}
+
+/**
+ * Sets the brightness in the content of a theme file, replacing the one set
+ * before. The rest of the content is left as it is.
+ *
+ * @param content - Content of the theme file
+ * @param brightness - Brightness to set, or null to remove it
+ * @returns The new content
+ */
+export function writeBrightnessOverride(
+  content: string,
+  brightness: Brightness | null,
+): string {
+  const rest = content.replace(BRIGHTNESS_LINE, "");
+  return brightness === null
+    ? rest
+    : `# ats-brightness: ${brightness}\n${rest}`;
+}
@@ -0,0 +1,308 @@
+/**
+ * Typed model and validation of Alacritty's `[colors]` section.
+ *
+ * The schema follows the colors Alacritty documents in `alacritty(5)`. Themes
+ * are validated against it to report unknown keys, values of wrong types and
+ * colors that aren't colors, and the valid part of a theme is exposed as
+ * typed `ThemeColors`.
+ */
+
+import {
+  type CellReference,
+  isCellReference,
+  isRgbColor,
+  parseColor,
+} from "../utils/colors.ts";
+import { findSimilar } from "../utils/string-utils.ts";
+
+/** Color as written in the theme, e.g. "#1e2127" or "0x1e2127" */
+export type Color = string;
+
+/** Color or the color of the cell under the cursor, selection, etc. */
+export type CellColor = Color | CellReference;
+
+/** Foreground and background of an element */
+export type ColorPair<T extends CellColor = Color> = {
+  foreground?: T;
+  background?: T;
+};
+
+/** The 8 normal, bright or dim ANSI colors */
+export type AnsiColors = {
+  black?: Color;
+  red?: Color;
+  green?: Color;
+  yellow?: Color;
+  blue?: Color;
+  magenta?: Color;
+  cyan?: Color;
+  white?: Color;
+};
+
+/** Colors of a cursor */
+export type CursorColors = {
+  text?: CellColor;
+  cursor?: CellColor;
+};
+
+/** Color of one of the 256 indexed colors, above the 16 ANSI colors */
+export type IndexedColor = {
+  index: number;
+  color: Color;
+};
+
+/** Alacritty's `[colors]` section */
+export type ThemeColors = {
+  primary?: {
+    foreground?: Color;
+    background?: Color;
+    dim_foreground?: Color;
+    bright_foreground?: Color;
+  };
+  normal?: AnsiColors;
+  bright?: AnsiColors;
+  dim?: AnsiColors;
+  cursor?: CursorColors;
+  vi_mode_cursor?: CursorColors;
+  search?: {
+    matches?: ColorPair<CellColor>;
+    focused_match?: ColorPair<CellColor>;
+  };
+  hints?: {
+    start?: ColorPair<CellColor>;
+    end?: ColorPair<CellColor>;
+  };
+  line_indicator?: ColorPair;
+  footer_bar?: ColorPair;
+  selection?: {
+    text?: CellColor;
+    background?: CellColor;
+  };
+  indexed_colors?: IndexedColor[];
+  transparent_background_colors?: boolean;
+  draw_bold_text_with_bright_colors?: boolean;
+};
+
+/** Problem found in a theme */
+export type ThemeValidationIssue = {
+  /** Key path of the problem, e.g. "colors.primary.background" */
+  path: string;
+  /** What is wrong */
+  message: string;
+};
+
+/** Kind of a value in the schema, or the schema of a table */
+type SchemaNode =
+  | "color"
+  | "cellColor"
+  | "boolean"
+  | "indexedColors"
+  | { [key: string]: SchemaNode };
+
+const ANSI_SCHEMA = {
+  black: "color",
+  red: "color",
+  green: "color",
+  yellow: "color",
+  blue: "color",
+  magenta: "color",
+  cyan: "color",
+  white: "color",
+} as const;
+
+const CURSOR_SCHEMA = { text: "cellColor", cursor: "cellColor" } as const;
+
+const PAIR_SCHEMA = { foreground: "color", background: "color" } as const;
+
+const CELL_PAIR_SCHEMA = {
+  foreground: "cellColor",
+  background: "cellColor",
+} as const;
+
+/** Schema of the `[colors]` section */
+const COLORS_SCHEMA: SchemaNode = {
+  primary: {
+    foreground: "color",
+    background: "color",
+    dim_foreground: "color",
+    bright_foreground: "color",
+  },
+  normal: ANSI_SCHEMA,
+  bright: ANSI_SCHEMA,
+  dim: ANSI_SCHEMA,
+  cursor: CURSOR_SCHEMA,
+  vi_mode_cursor: CURSOR_SCHEMA,
+  search: { matches: CELL_PAIR_SCHEMA, focused_match: CELL_PAIR_SCHEMA },
+  hints: { start: CELL_PAIR_SCHEMA, end: CELL_PAIR_SCHEMA },
+  line_indicator: PAIR_SCHEMA,
+  footer_bar: PAIR_SCHEMA,
+  selection: { text: "cellColor", background: "cellColor" },
+  indexed_colors: "indexedColors",
+  transparent_background_colors: "boolean",
+  draw_bold_text_with_bright_colors: "boolean",
+};
+
+/**
+ * Validates the `[colors]` section of a theme. Other sections are left out.
+ *
+ * @param themeContent - Parsed theme content
+ * @returns Problems found, empty for a valid theme
+ *
+ * @example
+ * validateThemeContent({ colors: { primary: { backgroud: "#000000" } } })
+ * // [{ path: "colors.primary.backgroud",
+ * //    message: "Unknown key, did you mean background?" }]
+ */
+export function validateThemeContent(
+  themeContent: Record<string, unknown>,
+): ThemeValidationIssue[] {
+  if (themeContent.colors === undefined) {
+    return [];
+  }
+  return validateNode(themeContent.colors, COLORS_SCHEMA, "colors");
+}
+
+/**
+ * Gets the valid colors of a theme, leaving out everything the validation
+ * reports except "#RGB" colors, which are read even though Alacritty doesn't
+ * accept them.
+ *
+ * @param themeContent - Parsed theme content
+ * @returns The typed colors
+ */
+export function toThemeColors(
+  themeContent: Record<string, unknown>,
+): ThemeColors {
+  return (pickValid(themeContent.colors, COLORS_SCHEMA) ?? {}) as ThemeColors;
+}
+
+function validateNode(
+  value: unknown,
+  schema: SchemaNode,
+  path: string,
+): ThemeValidationIssue[] {
+  switch (schema) {
+    case "color":
+    case "cellColor":
+      // Alacritty rejects the "#RGB" notation ats reads
+      return isValidColor(value, schema) && !isShortColor(value) ? [] : [{
+        path,
+        message: typeof value === "string"
+          ? `Invalid color "${value}", expected #RRGGBB or 0xRRGGBB` +
+            (schema === "cellColor" ? ", CellForeground or CellBackground" : "")
+          : `Expected a color, got ${describeType(value)}`,
+      }];
+    case "boolean":
+      return typeof value === "boolean"
+        ? []
+        : [{ path, message: `Expected a boolean, got ${describeType(value)}` }];
+    case "indexedColors":
+      return validateIndexedColors(value, path);
+  }
+
+  if (!isTable(value)) {
+    return [{ path, message: `Expected a table, got ${describeType(value)}` }];
+  }
+  return Object.entries(value).flatMap(([key, item]) => {
+    const itemPath = `${path}.${key}`;
+    if (!Object.hasOwn(schema, key)) {
+      const similar = findSimilar(key, Object.keys(schema), 1);
+      return [{
+        path: itemPath,
+        message: similar.length > 0
+          ? `Unknown key, did you mean ${similar[0]}?`
+          : "Unknown key",
+      }];
+    }
+    return validateNode(item, schema[key], itemPath);
+  });
+}
+
+function validateIndexedColors(
+  value: unknown,
+  path: string,
+): ThemeValidationIssue[] {
+  if (!Array.isArray(value)) {
+    return [{ path, message: `Expected an array, got ${describeType(value)}` }];
+  }
+  return value.flatMap((entry, position) => {
+    const entryPath = `${path}[${position}]`;
+    if (!isTable(entry)) {
+      return [{
+        path: entryPath,
+        message: `Expected a table, got ${describeType(entry)}`,
+      }];
+    }
+    const { index, color, ...rest } = entry;
+    return [
+      ...(isIndex(index) ? [] : [{
+        path: `${entryPath}.index`,
+        message: `Expected an integer from 16 to 255, got ${
+          typeof index === "number" ? index : describeType(index)
+        }`,
+      }]),
+      ...validateNode(color, "color", `${entryPath}.color`),
+      ...Object.keys(rest).map((key) => ({
+        path: `${entryPath}.${key}`,
+        message: "Unknown key",
+      })),
+    ];
+  });
+}
+
+function pickValid(value: unknown, schema: SchemaNode): unknown {
+  switch (schema) {
+    case "color":
+    case "cellColor":
+      return isValidColor(value, schema) ? value : undefined;
+    case "boolean":
+      return typeof value === "boolean" ? value : undefined;
+    case "indexedColors":
+      return Array.isArray(value)
+        ? value
+          .filter((entry) =>
+            isTable(entry) && isIndex(entry.index) && isRgbColor(entry.color)
+          )
+          .map(({ index, color }) => ({ index, color }))
+        : undefined;
+  }
+
+  if (!isTable(value)) {
+    return undefined;
+  }
+  const entries = Object.entries(value)
+    .filter(([key]) => Object.hasOwn(schema, key))
+    .map(([key, item]) => [key, pickValid(item, schema[key])])
+    .filter(([, item]) => item !== undefined);
+  return Object.fromEntries(entries);
+}
+
+function isValidColor(value: unknown, kind: "color" | "cellColor"): boolean {
+  return isRgbColor(value) || (kind === "cellColor" && isCellReference(value));
+}
+
+function isShortColor(value: unknown): boolean {
+  const color = typeof value === "string" ? parseColor(value) : null;
+  return color?.type === "rgb" && color.notation === "#rgb";
+}
+
+function isIndex(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 16 &&
+    (value as number) <= 255;
+}
+
+function isTable(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function describeType(value: unknown): string {
+  if (Array.isArray(value)) {
+    return "an array";
+  }
+  if (value === null || value === undefined) {
+    return "nothing";
+  }
+  return isTable(value)
+    ? "a table"
+    : `${typeof value} ${JSON.stringify(value)}`;
+}
@@ -1,15 +1,13 @@
 import { basename } from "@std/path/basename";
 import type { FilePath } from "../types.ts";
+import {
+  type BrightnessClassification,
+  classifyBrightness,
+  type ThemeBrightness,
+} from "../utils/brightness.ts";
 import { unslugify } from "../utils/string-utils.ts";
-import { detectThemeBrightness } from "../utils/theme-utils.ts";
-
-type ThemeContent = Record<string, unknown> & {
-  colors?: {
-    primary?: {
-      background?: string;
-    };
-  };
-};
+import type { Brightness } from "../utils/theme-utils.ts";
+import { type ThemeColors, toThemeColors } from "./theme-schema.ts";
 
 /**
  * Theme represents a color theme for Alacritty.
@@ -19,17 +17,27 @@ export class Theme {
   path: FilePath;
   /** Whether the theme is currently active */
   isCurrentlyActive: boolean | null;
-  /** Parsed theme content */
-  themeContent: ThemeContent;
+  /** Parsed theme content, as written in the file */
+  themeContent: Record<string, unknown>;
+  /** Valid colors of the theme's `[colors]` section */
+  readonly colors: ThemeColors;
+  /** Brightness classified from the theme's colors */
+  readonly detectedBrightness: BrightnessClassification;
+  /** Brightness set by hand, winning over the detected one */
+  brightnessOverride: Brightness | null;
 
   constructor(
     path: FilePath,
     themeContent: Record<string, unknown> = {},
     isCurrentlyActive: boolean | null = null,
+    brightnessOverride: Brightness | null = null,
   ) {
     this.path = path;
     this.themeContent = themeContent;
+    this.colors = toThemeColors(themeContent);
+    this.detectedBrightness = classifyBrightness(this.colors);
     this.isCurrentlyActive = isCurrentlyActive;
+    this.brightnessOverride = brightnessOverride;
   }
 
   /** Human-readable theme name */
@@ -37,8 +45,15 @@ export class Theme {
     return unslugify(basename(this.path));
   }
 
-  /** Theme brightness */
-  get brightness(): "light" | "dark" {
-    return detectThemeBrightness(this.themeContent);
+  /** Theme brightness, "unknown" if neither detected nor set by hand */
+  get brightness(): ThemeBrightness {
+    return this.brightnessOverride ?? this.detectedBrightness.brightness;
+  }
+
+  /** How sure the brightness is, from 0 to 1, 1 if set by hand */
+  get brightnessConfidence(): number {
+    return this.brightnessOverride === null
+      ? this.detectedBrightness.confidence
+      : 1;
   }
 }
@@ -0,0 +1,137 @@
+/**
+ * Classification of themes as light or dark.
+ *
+ * A theme is classified by weighing several clues: whether the foreground is
+ * darker or lighter than the background, how light the background and the
+ * foreground are, and how light the accent colors of the palettes are, as
+ * light themes need darker accents to be readable. Themes with too few or
+ * contradicting clues are "unknown" rather than guessed.
+ */
+
+import type { ThemeColors } from "../theme-manager/theme-schema.ts";
+import { calculateLuminance, parseRgb, type RGB } from "./colors.ts";
+import type { Brightness } from "./theme-utils.ts";
+
+/** Brightness of a theme, "unknown" if it can't be told */
+export type ThemeBrightness = Brightness | "unknown";
+
+/** Result of classifying a theme */
+export type BrightnessClassification = {
+  brightness: ThemeBrightness;
+  /** How sure the classification is, from 0 to 1 */
+  confidence: number;
+};
+
+/** Clue about the brightness, from -1 (dark) to 1 (light), and its weight */
+type Clue = {
+  score: number;
+  weight: number;
+};
+
+/** Confidence below which the brightness is unknown */
+const MIN_CONFIDENCE = 0.15;
+
+/** Weights of the clues, the contrast direction being the strongest */
+const WEIGHTS = {
+  contrast: 3,
+  background: 2,
+  foreground: 1,
+  accents: 1,
+};
+
+/** Palette colors used as accents, black and white are left out */
+const ACCENT_NAMES = [
+  "red",
+  "green",
+  "yellow",
+  "blue",
+  "magenta",
+  "cyan",
+] as const;
+
+/**
+ * Classifies a theme as light or dark.
+ *
+ * @param colors - Theme colors
+ * @returns The brightness with its confidence
+ *
+ * @example
+ * classifyBrightness({
+ *   primary: { background: "#fdf6e3", foreground: "#657b83" },
+ * })
+ * // { brightness: "light", confidence: 0.7 }
+ * classifyBrightness({}) // { brightness: "unknown", confidence: 0 }
+ */
+export function classifyBrightness(
+  colors: ThemeColors,
+): BrightnessClassification {
+  const clues = collectClues(colors);
+  const totalWeight = clues.reduce((sum, clue) => sum + clue.weight, 0);
+  if (totalWeight === 0) {
+    return { brightness: "unknown", confidence: 0 };
+  }
+
+  const score = clues.reduce((sum, clue) => sum + clue.score * clue.weight, 0) /
+    totalWeight;
+  const confidence = Math.round(Math.abs(score) * 100) / 100;
+  if (confidence < MIN_CONFIDENCE) {
+    return { brightness: "unknown", confidence };
+  }
+  return { brightness: score > 0 ? "light" : "dark", confidence };
+}
+
+function collectClues(colors: ThemeColors): Clue[] {
+  const parse = (color: string | undefined) =>
+    color === undefined ? null : parseRgb(color);
+  const background = parse(colors.primary?.background);
+  const foreground = parse(colors.primary?.foreground);
+  const accents = [colors.normal, colors.bright]
+    .flatMap((palette) => ACCENT_NAMES.map((name) => parse(palette?.[name])))
+    .filter((rgb) => rgb !== null);
+
+  const clues: Clue[] = [];
+  if (background !== null && foreground !== null) {
+    // Text darker than its background makes a light theme, whatever the
+    // background's own lightness
+    const [darker, lighter] = [background, foreground]
+      .map(calculateLuminance)
+      .sort((a, b) => a - b);
+    const contrastRatio = (lighter + 0.05) / (darker + 0.05);
+    const direction = Math.sign(
+      calculateLuminance(background) - calculateLuminance(foreground),
+    );
+    clues.push({
+      score: direction * Math.min(1, (contrastRatio - 1) / 4),
+      weight: WEIGHTS.contrast,
+    });
+  }
+  if (background !== null) {
+    clues.push({
+      score: (lightness(background) - 50) / 50,
+      weight: WEIGHTS.background,
+    });
+  }
+  if (foreground !== null) {
+    clues.push({
+      score: (50 - lightness(foreground)) / 50,
+      weight: WEIGHTS.foreground,
+    });
+  }
+  if (accents.length > 0) {
+    const average = accents.reduce((sum, rgb) => sum + lightness(rgb), 0) /
+      accents.length;
+    clues.push({
+      score: Math.max(-1, Math.min(1, (50 - average) / 25)),
+      weight: WEIGHTS.accents,
+    });
+  }
+  return clues;
+}
+
+/** Perceived lightness (CIE L*) from 0 (black) to 100 (white) */
+function lightness(rgb: RGB): number {
+  const luminance = calculateLuminance(rgb);
+  return luminance > 0.008856
+    ? 116 * Math.cbrt(luminance) - 16
+    : 903.3 * luminance;
+}
@@ -0,0 +1,183 @@
+/**
+ * Parsing, formatting and math of the colors written in Alacritty themes.
+ *
+ * Alacritty accepts colors as "#RRGGBB" or "0xRRGGBB", and the colors of the
+ * cursor, selection, search and hints can also refer to the colors of the
+ * cell with "CellForeground" or "CellBackground". "#RGB" is read as well, as
+ * some hand-written themes use it, though Alacritty rejects it.
+ */
+
+/** Red, green and blue components from 0 to 255 */
+export type RGB = [number, number, number];
+
+/** How a color is written, leaving out the case of its digits */
+export type ColorNotation = "#rgb" | "#rrggbb" | "0xrrggbb";
+
+/** Color of the cell the element is drawn on */
+export type CellReference = "CellForeground" | "CellBackground";
+
+/** Color read from a theme */
+export type ParsedColor =
+  | {
+    type: "rgb";
+    rgb: RGB;
+    notation: ColorNotation;
+  }
+  | { type: "cell"; reference: CellReference };
+
+const CELL_REFERENCES: readonly string[] = ["CellForeground", "CellBackground"];
+
+/** Levels of the red, green and blue components of the 6×6×6 color cube */
+const CUBE_LEVELS = [0, 95, 135, 175, 215, 255];
+
+/**
+ * Parses a color in any notation Alacritty accepts.
+ *
+ * @param value - Color as written in the theme
+ * @returns The color, or null if it isn't a color
+ *
+ * @example
+ * parseColor("0x1E2127")
+ * // { type: "rgb", rgb: [30, 33, 39], notation: "0xrrggbb" }
+ * parseColor("CellBackground")
+ * // { type: "cell", reference: "CellBackground" }
+ */
+export function parseColor(value: string): ParsedColor | null {
+  if (CELL_REFERENCES.includes(value)) {
+    return { type: "cell", reference: value as CellReference };
+  }
+
+  const match = /^(?:#([\da-f]{6}|[\da-f]{3})|0x([\da-f]{6}))$/i.exec(value);
+  if (match === null) {
+    return null;
+  }
+  const digits = match[1] ?? match[2];
+  const notation: ColorNotation = match[2] !== undefined
+    ? "0xrrggbb"
+    : digits.length === 3
+    ? "#rgb"
+    : "#rrggbb";
+  const pairs = digits.length === 3
+    ? [...digits].map((digit) => digit + digit)
+    : [digits.slice(0, 2), digits.slice(2, 4), digits.slice(4, 6)];
+  return {
+    type: "rgb",
+    rgb: pairs.map((pair) => parseInt(pair, 16)) as RGB,
+    notation,
+  };
+}
+
+/**
+ * Parses a color to its RGB components. Cell references have none.
+ *
+ * @param value - Color as written in the theme
+ * @returns RGB values in the 0-255 range, or null
+ *
+ * @example
+ * parseRgb("#1e2127") // [30, 33, 39]
+ * parseRgb("0xffffff") // [255, 255, 255]
+ * parseRgb("CellForeground") // null
+ */
+export function parseRgb(value: string): RGB | null {
+  const color = parseColor(value);
+  return color?.type === "rgb" ? color.rgb : null;
+}
+
+/**
+ * Formats RGB components as a "#rrggbb" color.
+ *
+ * @param rgb - RGB values in the 0-255 range
+ * @returns The color
+ *
+ * @example
+ * formatColor([30, 33, 39]) // "#1e2127"
+ */
+export function formatColor(rgb: RGB): string {
+  return "#" +
+    rgb.map((value) =>
+      Math.round(Math.min(255, Math.max(0, value))).toString(16)
+        .padStart(2, "0")
+    ).join("");
+}
+
+/**
+ * Checks whether the value is a color, in any notation that can be read, not
+ * counting cell references.
+ */
+export function isRgbColor(value: unknown): value is string {
+  return typeof value === "string" && parseRgb(value) !== null;
+}
+
+/**
+ * Checks whether the value refers to the color of the cell.
+ */
+export function isCellReference(value: unknown): value is CellReference {
+  return typeof value === "string" && CELL_REFERENCES.includes(value);
+}
+
+/**
+ * Calculates the relative luminance of an RGB color.
+ * Uses the W3C formula for relative luminance.
+ *
+ * @param rgb - RGB values in the 0-255 range
+ * @returns Relative luminance (0-1)
+ *
+ * @example
+ * calculateLuminance([255, 255, 255]) // 1.0 (white)
+ * calculateLuminance([0, 0, 0]) // 0.0 (black)
+ * calculateLuminance([30, 33, 39]) // ~0.01 (dark)
+ */
+export function calculateLuminance(rgb: RGB): number {
+  // Apply gamma correction to the components in the 0-1 range
+  const [r, g, b] = rgb.map((value) => {
+    const channel = value / 255;
+    return channel <= 0.03928
+      ? channel / 12.92
+      : Math.pow((channel + 0.055) / 1.055, 2.4);
+  });
+
+  // Calculate relative luminance using W3C formula
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+/**
+ * Finds the nearest of the 256 xterm colors, either in the 6×6×6 color cube
+ * or on the grayscale ramp. The first 16 colors are left out, as terminals
+ * change them with their theme.
+ *
+ * @example
+ * rgbTo256(255, 0, 0) // 196
+ * rgbTo256(128, 128, 128) // 244
+ */
+export function rgbTo256(r: number, g: number, b: number): number {
+  const [ri, gi, bi] = [r, g, b].map(nearestCubeLevel);
+  const cubeColor: RGB = [CUBE_LEVELS[ri], CUBE_LEVELS[gi], CUBE_LEVELS[bi]];
+  const cubeIndex = 16 + 36 * ri + 6 * gi + bi;
+
+  // Grayscale ramp from 8 to 238 in steps of 10
+  const grayStep = Math.min(
+    23,
+    Math.max(0, Math.round(((r + g + b) / 3 - 8) / 10)),
+  );
+  const gray = 8 + grayStep * 10;
+  const grayIndex = 232 + grayStep;
+
+  return distance([r, g, b], [gray, gray, gray]) <
+      distance([r, g, b], cubeColor)
+    ? grayIndex
+    : cubeIndex;
+}
+
+function nearestCubeLevel(value: number): number {
+  return CUBE_LEVELS.reduce(
+    (nearest, level, index) =>
+      Math.abs(level - value) < Math.abs(CUBE_LEVELS[nearest] - value)
+        ? index
+        : nearest,
+    0,
+  );
+}
+
+function distance(a: RGB, b: RGB): number {
+  return (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+}
@@ -0,0 +1,111 @@
+/** Edit operation turning the old list into the new one */
+export type DiffOperation =
+  | { type: "keep"; index: number }
+  | { type: "delete"; index: number }
+  | { type: "insert"; value: string };
+
+/**
+ * Computes a minimal list of edit operations using the longest common subsequence.
+ * Deletions go before insertions, so that replacing items take the place of
+ * removed ones.
+ *
+ * @param oldValues - Original list
+ * @param newValues - Changed list
+ * @returns Edit operations in order
+ */
+export function diffLists(
+  oldValues: string[],
+  newValues: string[],
+): DiffOperation[] {
+  // lengths[i][j] is the LCS length of oldValues[i..] and newValues[j..]
+  const lengths = Array.from(
+    { length: oldValues.length + 1 },
+    () => new Array<number>(newValues.length + 1).fill(0),
+  );
+  for (let i = oldValues.length - 1; i >= 0; i--) {
+    for (let j = newValues.length - 1; j >= 0; j--) {
+      lengths[i][j] = oldValues[i] === newValues[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const operations: DiffOperation[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < oldValues.length || j < newValues.length) {
+    if (
+      i < oldValues.length && j < newValues.length &&
+      oldValues[i] === newValues[j]
+    ) {
+      operations.push({ type: "keep", index: i });
+      i++;
+      j++;
+    } else if (
+      i < oldValues.length &&
+      (j === newValues.length || lengths[i + 1][j] >= lengths[i][j + 1])
+    ) {
+      operations.push({ type: "delete", index: i });
+      i++;
+    } else {
+      operations.push({ type: "insert", value: newValues[j] });
+      j++;
+    }
+  }
+  return operations;
+}
+
+/**
+ * Formats a line diff of two texts. Changed lines are prefixed with "-" or
+ * "+", unchanged lines around them with a space, and skipped unchanged lines
+ * are replaced by "...".
+ *
+ * @param oldText - Original text
+ * @param newText - Changed text
+ * @param context - Number of unchanged lines shown around changes
+ * @returns Diff lines, empty if the texts have the same lines
+ *
+ * @example
+ * formatLineDiff("a\nb\n", "a\nc\n") // [" a", "-b", "+c"]
+ */
+export function formatLineDiff(
+  oldText: string,
+  newText: string,
+  context = 2,
+): string[] {
+  const oldLines = splitLines(oldText);
+  const lines = diffLists(oldLines, splitLines(newText)).map((operation) => {
+    switch (operation.type) {
+      case "keep":
+        return ` ${oldLines[operation.index]}`;
+      case "delete":
+        return `-${oldLines[operation.index]}`;
+      case "insert":
+        return `+${operation.value}`;
+    }
+  });
+
+  const changed = lines.map((line) => !line.startsWith(" "));
+  if (!changed.includes(true)) {
+    return [];
+  }
+  const isShown = (index: number) =>
+    changed
+      .slice(Math.max(0, index - context), index + context + 1)
+      .includes(true);
+
+  const result: string[] = [];
+  lines.forEach((line, index) => {
+    if (isShown(index)) {
+      result.push(line);
+    } else if (index === 0 || isShown(index - 1)) {
+      result.push("...");
+    }
+  });
+  return result;
+}
+
+function splitLines(text: string): string[] {
+  const lines = text.split(/\r?\n/);
+  return lines[lines.length - 1] === "" ? lines.slice(0, -1) : lines;
+}
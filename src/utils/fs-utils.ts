@@ -5,6 +5,7 @@ import {
   DirectoryNotAccessibleError,
   FileDeletionError,
   FileNotFoundError,
+  FileNotReadableError,
   WriteError,
 } from "./fs-errors.ts";
 
@@ -60,6 +61,21 @@ export function safeEnsureDir(
   );
 }
 
+/**
+ * Safely reads a text file.
+ *
+ * @param path - Path to the file
+ * @returns A ResultAsync containing the file content or an error
+ */
+export function safeReadFile(
+  path: FilePath,
+): ResultAsync<string, FileNotReadableError> {
+  return fromPromise(
+    Deno.readTextFile(path),
+    (error) => new FileNotReadableError(path, { cause: error }),
+  );
+}
+
 /**
  * Safely writes a file.
  *
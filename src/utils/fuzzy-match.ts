@@ -0,0 +1,133 @@
+/**
+ * Fuzzy matching of search queries against short texts such as theme labels.
+ *
+ * Every word of the query has to appear in the text as a subsequence, i.e. in
+ * order but not necessarily next to each other. Among all ways a word can
+ * match, the one with the best score is taken: consecutive characters and
+ * characters starting a word score higher, gaps between matched characters
+ * lower.
+ */
+
+/** Score of every matched character */
+const MATCH_SCORE = 16;
+/** Bonus for a character following the previous matched character */
+const CONSECUTIVE_BONUS = 12;
+/** Bonus for a character starting a word */
+const WORD_START_BONUS = 10;
+/** Penalty for every character skipped between matched characters */
+const GAP_PENALTY = 2;
+/** Penalty for every character skipped before the first matched character */
+const LEADING_GAP_PENALTY = 1;
+
+/** Result of a successful fuzzy match */
+export type FuzzyMatch = {
+  /** Score of the match, higher is better */
+  score: number;
+  /** Sorted indices of the matched characters in the text */
+  positions: number[];
+};
+
+/**
+ * Matches a query against a text, ignoring letter case.
+ *
+ * @param query - Words to find in the text
+ * @param text - Text to search in
+ * @returns The match, or null if any word of the query isn't in the text
+ *
+ * @example
+ * fuzzyMatch("mkp", "Monokai Pro") // { score: …, positions: [0, 4, 8] }
+ * fuzzyMatch("pro mon", "Monokai Pro") // { score: …, positions: [0, 1, 2, 8, 9, 10] }
+ * fuzzyMatch("xyz", "Monokai Pro") // null
+ */
+export function fuzzyMatch(query: string, text: string): FuzzyMatch | null {
+  const words = query.toLowerCase().split(/\s+/).filter((word) => word !== "");
+  const lowerText = text.toLowerCase();
+
+  let score = 0;
+  const positions = new Set<number>();
+  for (const word of words) {
+    const match = matchWord(word, lowerText, text);
+    if (match === null) {
+      return null;
+    }
+    score += match.score;
+    match.positions.forEach((position) => positions.add(position));
+  }
+  return { score, positions: [...positions].sort((a, b) => a - b) };
+}
+
+/**
+ * Finds the best scoring subsequence of the text equal to the word.
+ * `best[i][j]` is the best score of matching the first i + 1 characters of
+ * the word with the last one at text index j.
+ */
+function matchWord(
+  word: string,
+  lowerText: string,
+  text: string,
+): FuzzyMatch | null {
+  const best: number[][] = [];
+  const previous: number[][] = [];
+
+  for (let i = 0; i < word.length; i++) {
+    best.push(new Array(text.length).fill(-Infinity));
+    previous.push(new Array(text.length).fill(-1));
+    for (let j = i; j < text.length; j++) {
+      if (lowerText[j] !== word[i]) {
+        continue;
+      }
+      const charScore = MATCH_SCORE +
+        (isWordStart(text, j) ? WORD_START_BONUS : 0);
+      if (i === 0) {
+        best[i][j] = charScore - j * LEADING_GAP_PENALTY;
+        continue;
+      }
+      for (let k = i - 1; k < j; k++) {
+        if (best[i - 1][k] === -Infinity) {
+          continue;
+        }
+        const transition = k === j - 1
+          ? CONSECUTIVE_BONUS
+          : -(j - k - 1) * GAP_PENALTY;
+        const score = best[i - 1][k] + transition + charScore;
+        if (score > best[i][j]) {
+          best[i][j] = score;
+          previous[i][j] = k;
+        }
+      }
+    }
+  }
+
+  const last = best[word.length - 1];
+  let end = -1;
+  last.forEach((score, j) => {
+    if (score > -Infinity && (end === -1 || score > last[end])) {
+      end = j;
+    }
+  });
+  if (end === -1) {
+    return null;
+  }
+
+  const positions = [];
+  for (let i = word.length - 1, j = end; i >= 0; j = previous[i][j], i--) {
+    positions.unshift(j);
+  }
+  return { score: last[end], positions };
+}
+
+/**
+ * Checks whether the character starts a word: it's the first character,
+ * follows a separator or is an uppercase letter following a lowercase one.
+ */
+function isWordStart(text: string, index: number): boolean {
+  if (index === 0) {
+    return true;
+  }
+  const before = text[index - 1];
+  const char = text[index];
+  if (/[\s\-_./]/.test(before)) {
+    return true;
+  }
+  return /[a-z]/.test(before) && /[A-Z]/.test(char);
+}
@@ -33,3 +33,87 @@ export function unslugify(filename: string): string {
     .map((word) => isRomanNumeral(word) ? word.toUpperCase() : word)
     .join(" ");
 }
+
+/**
+ * Aligns rows into columns separated by two spaces.
+ * Trailing whitespace of each row is removed.
+ *
+ * @example
+ * formatTable([["LABEL", "ACTIVE"], ["Monokai Pro", "*"]])
+ * // "LABEL        ACTIVE\nMonokai Pro  *"
+ */
+export function formatTable(rows: string[][]): string {
+  const widths = rows[0].map((_, column) =>
+    Math.max(...rows.map((row) => row[column].length))
+  );
+  return rows
+    .map((row) =>
+      row.map((cell, column) => cell.padEnd(widths[column])).join("  ")
+        .trimEnd()
+    )
+    .join("\n");
+}
+
+/**
+ * Counts single-character insertions, deletions and substitutions turning one
+ * string into another (Levenshtein distance).
+ *
+ * @example
+ * editDistance("monokia", "monokai") // 2
+ */
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + substitution,
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Finds candidates similar to the given string, the most similar first.
+ * Candidates further than a third of the string's length are left out.
+ * Letter case is ignored.
+ *
+ * A candidate can be compared by a key other than itself, e.g. a path by its
+ * filename.
+ *
+ * @param value - String to find similar candidates of
+ * @param candidates - Candidates to choose from
+ * @param limit - Maximum number of candidates returned
+ * @param keyOf - String the value is compared with, the candidate itself by
+ * default
+ *
+ * @example
+ * findSimilar("monokia.toml", ["monokai.toml", "nord.toml"]) // ["monokai.toml"]
+ */
+export function findSimilar(
+  value: string,
+  candidates: string[],
+  limit = 3,
+  keyOf: (candidate: string) => string = (candidate) => candidate,
+): string[] {
+  const maxDistance = Math.max(1, Math.floor(value.length / 3));
+  return candidates
+    .map((candidate) => ({
+      candidate,
+      distance: editDistance(
+        value.toLowerCase(),
+        keyOf(candidate).toLowerCase(),
+      ),
+    }))
+    .filter(({ distance }) => distance <= maxDistance)
+    .sort((a, b) =>
+      a.distance - b.distance || a.candidate.localeCompare(b.candidate)
+    )
+    .slice(0, limit)
+    .map(({ candidate }) => candidate);
+}
@@ -0,0 +1,96 @@
+/**
+ * Color swatches showing a theme's palette in the terminal.
+ *
+ * Every color is drawn as a colored block using 24-bit escape sequences, or
+ * the nearest of the 256 xterm colors in terminals without truecolor support.
+ */
+
+import type { Color, ThemeColors } from "../theme-manager/theme-schema.ts";
+import { parseRgb, rgbTo256 } from "./colors.ts";
+
+/** Colors a terminal can show */
+export type ColorDepth = "truecolor" | "256" | "none";
+
+/** Names of the 8 ANSI colors, in the order of their indices */
+const ANSI_COLOR_NAMES = [
+  "black",
+  "red",
+  "green",
+  "yellow",
+  "blue",
+  "magenta",
+  "cyan",
+  "white",
+] as const;
+
+/** Block drawn for every color */
+const SWATCH = "█";
+
+/**
+ * Detects the colors the terminal can show from its environment variables.
+ * `NO_COLOR` turns colors off, `COLORTERM` tells about truecolor support.
+ *
+ * @param env - Environment variables
+ * @returns The color depth
+ *
+ * @example
+ * detectColorDepth({ COLORTERM: "truecolor" }) // "truecolor"
+ * detectColorDepth({ TERM: "xterm-256color" }) // "256"
+ */
+export function detectColorDepth(env: Record<string, string>): ColorDepth {
+  if (env.NO_COLOR !== undefined && env.NO_COLOR !== "") {
+    return "none";
+  }
+  const colorTerm = env.COLORTERM?.toLowerCase();
+  if (colorTerm === "truecolor" || colorTerm === "24bit") {
+    return "truecolor";
+  }
+  // Windows Terminal supports truecolor without setting COLORTERM
+  return env.WT_SESSION ? "truecolor" : "256";
+}
+
+/**
+ * Gets the palette of a theme: the primary background and foreground followed
+ * by the 8 normal and the 8 bright ANSI colors. Missing colors are undefined.
+ *
+ * @param colors - Theme colors
+ * @returns 18 colors as they are written in the theme
+ */
+export function getPalette(colors: ThemeColors): (Color | undefined)[] {
+  return [
+    colors.primary?.background,
+    colors.primary?.foreground,
+    ...ANSI_COLOR_NAMES.map((name) => colors.normal?.[name]),
+    ...ANSI_COLOR_NAMES.map((name) => colors.bright?.[name]),
+  ];
+}
+
+/**
+ * Renders a theme's palette as colored blocks. Missing or invalid colors are
+ * left blank, so palettes of all themes have the same width.
+ *
+ * @param colors - Theme colors
+ * @param depth - Colors the terminal can show
+ * @returns The swatches, or an empty string without colors
+ */
+export function renderSwatches(
+  colors: ThemeColors,
+  depth: ColorDepth,
+): string {
+  if (depth === "none") {
+    return "";
+  }
+  return getPalette(colors)
+    .map((color) => {
+      const rgb = color === undefined ? null : parseRgb(color);
+      if (rgb === null) {
+        return " ";
+      }
+      const [r, g, b] = rgb;
+      const sequence = depth === "truecolor"
+        ? `38;2;${r};${g};${b}`
+        : `38;5;${rgbTo256(r, g, b)}`;
+      return `\x1b[${sequence}m${SWATCH}\x1b[39m`;
+    })
+    .join("");
+}
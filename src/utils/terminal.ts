@@ -0,0 +1,149 @@
+/**
+ * Querying the terminal with escape sequences.
+ *
+ * Terminals answer queries such as OSC 11 ("which background color?") by
+ * writing the reply to their input, as if it was typed. The input is read in
+ * raw mode, so that the replies are neither echoed nor buffered until Enter.
+ */
+
+import { errAsync, fromPromise, type ResultAsync } from "neverthrow";
+
+/** Primary device attributes query, answered by every terminal */
+const DEVICE_ATTRIBUTES_QUERY = "\x1b[c";
+
+/** Primary device attributes reply, e.g. "\x1b[?62;22c" */
+// deno-lint-ignore no-control-regex
+const DEVICE_ATTRIBUTES_REPLY = /\x1b\[\?[\d;]*c/;
+
+/**
+ * Input and output of a terminal.
+ */
+export type Terminal = {
+  /** Whether the input and output are connected to a terminal */
+  isTerminal(): boolean;
+  /** Switches the input to raw mode or back */
+  setRaw(raw: boolean): void;
+  /** Writes to the terminal */
+  write(data: string): Promise<void>;
+  /** Reads the next chunk of input, or null at its end */
+  read(): Promise<string | null>;
+};
+
+/**
+ * Error thrown when the input or output isn't a terminal.
+ */
+export class NotATerminalError extends Error {
+  readonly _tag = "NotATerminalError";
+  constructor(options?: ErrorOptions) {
+    super("The input or output isn't a terminal.", options);
+  }
+}
+
+/**
+ * Error thrown when the terminal doesn't answer a query in time.
+ */
+export class TerminalTimeoutError extends Error {
+  readonly _tag = "TerminalTimeoutError";
+  timeout: number;
+  constructor(timeout: number, options?: ErrorOptions) {
+    super(`The terminal didn't answer within ${timeout} ms.`, options);
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * Error thrown when reading from or writing to the terminal fails.
+ */
+export class TerminalIOError extends Error {
+  readonly _tag = "TerminalIOError";
+  constructor(options?: ErrorOptions) {
+    super("Failed to communicate with the terminal.", options);
+  }
+}
+
+/**
+ * Creates the terminal of the standard input and output.
+ */
+export function createStdioTerminal(): Terminal {
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+  const buffer = new Uint8Array(1024);
+  return {
+    isTerminal: () => Deno.stdin.isTerminal() && Deno.stdout.isTerminal(),
+    setRaw: (raw) => Deno.stdin.setRaw(raw),
+    write: async (data) => {
+      const bytes = encoder.encode(data);
+      let written = 0;
+      while (written < bytes.length) {
+        written += await Deno.stdout.write(bytes.subarray(written));
+      }
+    },
+    read: async () => {
+      const count = await Deno.stdin.read(buffer);
+      return count === null
+        ? null
+        : decoder.decode(buffer.subarray(0, count), { stream: true });
+    },
+  };
+}
+
+/**
+ * Sends a query to the terminal and collects everything it answers. The query
+ * is followed by a device attributes query, which every terminal answers, so
+ * the replies are complete once its reply arrives, even if the terminal
+ * ignores some queries.
+ *
+ * @param terminal - Terminal to query
+ * @param query - Escape sequences to send
+ * @param timeout - Milliseconds to wait for the replies
+ * @returns A ResultAsync containing the replies or an error
+ */
+export function queryTerminal(
+  terminal: Terminal,
+  query: string,
+  timeout: number,
+): ResultAsync<
+  string,
+  NotATerminalError | TerminalTimeoutError | TerminalIOError
+> {
+  if (!terminal.isTerminal()) {
+    return errAsync(new NotATerminalError());
+  }
+
+  let timer: number | undefined;
+  const timedOut = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new TerminalTimeoutError(timeout)),
+      timeout,
+    );
+  });
+  // The timeout is handled while reading, don't report it as unhandled
+  timedOut.catch(() => {});
+
+  const readReplies = async () => {
+    terminal.setRaw(true);
+    try {
+      await terminal.write(query + DEVICE_ATTRIBUTES_QUERY);
+      let replies = "";
+      while (!DEVICE_ATTRIBUTES_REPLY.test(replies)) {
+        const chunk = await Promise.race([terminal.read(), timedOut]);
+        if (chunk === null) {
+          break;
+        }
+        replies += chunk;
+      }
+      return replies.replace(DEVICE_ATTRIBUTES_REPLY, "");
+    } finally {
+      clearTimeout(timer);
+      terminal.setRaw(false);
+    }
+  };
+
+  return fromPromise(
+    readReplies(),
+    (error) =>
+      error instanceof TerminalTimeoutError
+        ? error
+        : new TerminalIOError({ cause: error }),
+  );
+}
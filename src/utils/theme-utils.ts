@@ -1,112 +1,135 @@
-/**
- * Detects whether a theme is light or dark based on its background color.
- *
- * @param theme - Parsed theme content
- * @returns "light" or "dark" based on the background color luminance
- *
- * @example
- * ```ts
- * const theme = {
- *   colors: {
- *     primary: {
- *       background: "#1e2127",
- *       foreground: "#abb2bf"
- *     }
- *   }
- * };
- * detectThemeBrightness(theme) // "dark"
- * ```
- */
-export function detectThemeBrightness(
-  theme: Record<string, unknown>, // TODO: Change to Theme type or apply better validation
-): "light" | "dark" {
-  // Extract background color from theme
-  const colors = theme.colors as Record<string, unknown> | undefined;
-  const primary = colors?.primary as Record<string, unknown> | undefined;
-  const background = primary?.background as string | undefined;
+import type { Theme } from "../theme-manager/theme.ts";
+import { toThemeColors } from "../theme-manager/theme-schema.ts";
+import { classifyBrightness, type ThemeBrightness } from "./brightness.ts";
+import { fuzzyMatch } from "./fuzzy-match.ts";
 
-  // Default to dark if background color is missing or invalid
-  if (!background || typeof background !== "string") {
-    return "dark";
-  }
+/** Theme brightness */
+export type Brightness = "light" | "dark";
 
-  // Parse hex color
-  const rgb = parseHexColor(background);
-  if (!rgb) {
-    return "dark";
-  }
+/** Criteria for narrowing down a list of themes */
+export type ThemeFilter = {
+  /** Keep only themes of the given brightness */
+  brightness?: Brightness;
+  /** Keep only themes whose label contains all words of the query */
+  query?: string;
+};
+
+/** Theme found by a search with the matched characters of its label */
+export type ThemeSearchResult<T extends Theme> = {
+  theme: T;
+  /** Indices of the label's characters matching the search */
+  positions: number[];
+};
 
-  // Calculate luminance
-  const [r, g, b] = rgb;
-  const luminance = calculateLuminance(r, g, b);
+/** Order of brightness groups when sorting themes */
+const BRIGHTNESS_ORDER: Record<ThemeBrightness, number> = {
+  dark: 0,
+  light: 1,
+  unknown: 2,
+};
 
-  // Threshold of 0.5 - above is light, below is dark
-  return luminance > 0.5 ? "light" : "dark";
+/**
+ * Compares themes for sorting: dark themes first, then light themes, then
+ * themes of unknown brightness, each group alphabetically by label with
+ * numbers compared by their value ("Theme 2" before "Theme 10").
+ */
+export function compareThemes(a: Theme, b: Theme): number {
+  // Sort by brightness first (dark before light before unknown)
+  if (a.brightness !== b.brightness) {
+    return BRIGHTNESS_ORDER[a.brightness] - BRIGHTNESS_ORDER[b.brightness];
+  }
+  // Then sort alphabetically by label
+  return a.label.localeCompare(b.label, undefined, { numeric: true });
 }
 
 /**
- * Parses a hex color string to RGB values.
- *
- * @param hex - Hex color string (e.g., "#1e2127" or "#fff")
- * @returns RGB values as [r, g, b] in 0-255 range, or null if invalid
+ * Filters themes by brightness and by words contained in their labels.
  *
  * @example
- * parseHexColor("#1e2127") // [30, 33, 39]
- * parseHexColor("#fff") // [255, 255, 255]
- * parseHexColor("invalid") // null
+ * filterThemes(themes, { brightness: "dark", query: "monokai pro" })
  */
-function parseHexColor(hex: string): [number, number, number] | null {
-  // Remove # if present
-  const cleanHex = hex.replace(/^#/, "");
+export function filterThemes<T extends Theme>(
+  themes: T[],
+  filter: ThemeFilter,
+): T[] {
+  const queryWords = filter.query?.toLowerCase().split(/\s+/)
+    .filter((word) => word !== "") ?? [];
 
-  // Handle 3-digit hex (e.g., #fff)
-  if (cleanHex.length === 3) {
-    const r = parseInt(cleanHex[0] + cleanHex[0], 16);
-    const g = parseInt(cleanHex[1] + cleanHex[1], 16);
-    const b = parseInt(cleanHex[2] + cleanHex[2], 16);
-    return isNaN(r) || isNaN(g) || isNaN(b) ? null : [r, g, b];
-  }
+  return themes.filter((theme) => {
+    if (filter.brightness && theme.brightness !== filter.brightness) {
+      return false;
+    }
+    const label = theme.label.toLowerCase();
+    return queryWords.every((word) => label.includes(word));
+  });
+}
 
-  // Handle 6-digit hex (e.g., #1e2127)
-  if (cleanHex.length === 6) {
-    const r = parseInt(cleanHex.substring(0, 2), 16);
-    const g = parseInt(cleanHex.substring(2, 4), 16);
-    const b = parseInt(cleanHex.substring(4, 6), 16);
-    return isNaN(r) || isNaN(g) || isNaN(b) ? null : [r, g, b];
-  }
+/**
+ * Parses a search input into a fuzzy query and filters given by tokens such
+ * as `is:dark` or `is:light`. Tokens with other values are left out, so that
+ * half-typed tokens don't hide every theme.
+ *
+ * @example
+ * parseSearchInput("is:dark monokai") // { brightness: "dark", query: "monokai" }
+ */
+export function parseSearchInput(input: string): ThemeFilter {
+  const words = input.split(/\s+/).filter((word) => word !== "");
+  const brightness = words
+    .map((word) => word.toLowerCase())
+    .filter((word) => word === "is:dark" || word === "is:light")
+    .map((word) => word.slice("is:".length) as Brightness)
+    .pop();
+  const query = words
+    .filter((word) => !word.toLowerCase().startsWith("is:"))
+    .join(" ");
+  return brightness === undefined ? { query } : { brightness, query };
+}
 
-  return null;
+/**
+ * Searches themes by a fuzzy query on their labels and by `is:` tokens, the
+ * best matches first. Themes matching equally well, or all themes for an empty
+ * query, keep the order of `compareThemes`.
+ *
+ * @example
+ * searchThemes(themes, "is:dark mnk") // dark themes like "Monokai" first
+ */
+export function searchThemes<T extends Theme>(
+  themes: T[],
+  input: string,
+): ThemeSearchResult<T>[] {
+  const { brightness, query = "" } = parseSearchInput(input);
+  return themes
+    .filter((theme) => !brightness || theme.brightness === brightness)
+    .map((theme) => ({ theme, match: fuzzyMatch(query, theme.label) }))
+    .filter(({ match }) => match !== null)
+    .sort((a, b) =>
+      (b.match?.score ?? 0) - (a.match?.score ?? 0) ||
+      compareThemes(a.theme, b.theme)
+    )
+    .map(({ theme, match }) => ({ theme, positions: match?.positions ?? [] }));
 }
 
 /**
- * Calculates the relative luminance of an RGB color.
- * Uses the W3C formula for relative luminance.
+ * Detects whether a theme is light or dark from its colors.
  *
- * @param r - Red value (0-255)
- * @param g - Green value (0-255)
- * @param b - Blue value (0-255)
- * @returns Relative luminance (0-1)
+ * @param theme - Parsed theme content
+ * @returns "light", "dark", or "unknown" if the colors don't tell
  *
  * @example
- * calculateLuminance(255, 255, 255) // 1.0 (white)
- * calculateLuminance(0, 0, 0) // 0.0 (black)
- * calculateLuminance(30, 33, 39) // ~0.01 (dark)
+ * ```ts
+ * const theme = {
+ *   colors: {
+ *     primary: {
+ *       background: "#1e2127",
+ *       foreground: "#abb2bf"
+ *     }
+ *   }
+ * };
+ * detectThemeBrightness(theme) // "dark"
+ * ```
  */
-function calculateLuminance(r: number, g: number, b: number): number {
-  // Convert to 0-1 range
-  const [rs, gs, bs] = [r / 255, g / 255, b / 255];
-
-  // Apply gamma correction
-  const gammaCorrect = (channel: number): number => {
-    return channel <= 0.03928
-      ? channel / 12.92
-      : Math.pow((channel + 0.055) / 1.055, 2.4);
-  };
-
-  const rLinear = gammaCorrect(rs);
-  const gLinear = gammaCorrect(gs);
-  const bLinear = gammaCorrect(bs);
-
-  // Calculate relative luminance using W3C formula
-  return 0.2126 * rLinear + 0.7152 * gLinear + 0.0722 * bLinear;
+export function detectThemeBrightness(
+  theme: Record<string, unknown>,
+): ThemeBrightness {
+  return classifyBrightness(toThemeColors(theme)).brightness;
 }
@@ -0,0 +1,733 @@
+/**
+ * Module for editing TOML documents in place.
+ *
+ * Unlike parsing and stringifying the whole document, these edits only touch
+ * the bytes of the edited value, so comments, ordering and whitespace of the
+ * rest of the document stay unchanged.
+ */
+
+import { fromThrowable, type Result } from "neverthrow";
+import { diffLists } from "./diff.ts";
+import { TomlEditError } from "./toml-errors.ts";
+
+/** Key-value entry found in a TOML document */
+type TomlEntry = {
+  /** Full key path including the enclosing table */
+  path: string[];
+  /** Path of the table header the entry is defined under */
+  tablePath: string[];
+  /** Whether the entry is defined under an array of tables */
+  inArrayTable: boolean;
+  /** Offset of the line start */
+  lineStart: number;
+  /** Offset of the first value character */
+  valueStart: number;
+  /** Offset right after the last value character */
+  valueEnd: number;
+  /** Offset right after the line (including the line break) */
+  lineEnd: number;
+};
+
+/** Table header found in a TOML document */
+type TomlTableHeader = {
+  path: string[];
+  isArrayTable: boolean;
+  /** Offset of the header line start */
+  lineStart: number;
+  /** Offset right after the header line (including the line break) */
+  lineEnd: number;
+};
+
+/** Comment within an array value */
+type ArrayComment = {
+  /** Comment text from "#" to the end of the line */
+  text: string;
+  /** Offset of the "#" */
+  start: number;
+};
+
+/** String item of an array value */
+type ArrayItem = {
+  /** Decoded string value */
+  value: string;
+  /** Offset of the opening quote */
+  start: number;
+  /** Offset right after the closing quote */
+  end: number;
+};
+
+/**
+ * Sets an array of strings under the given key path, keeping the rest of the
+ * document untouched.
+ *
+ * - An existing array is edited item by item. Items that stay keep their line,
+ *   including comments, and the array keeps its inline or multi-line layout
+ *   and quoting style. A multi-line array with several items on a line gets
+ *   one item per line, keeping its comments. An unchanged array is left as
+ *   it is.
+ * - A missing key is added to its table, or a new table is appended to the end
+ *   of the document.
+ *
+ * @param content - TOML document
+ * @param keyPath - Full key path of the array, e.g. ["general", "import"]
+ * @param values - New array items
+ * @returns Result containing the edited document or a TomlEditError
+ *
+ * @example
+ * setStringArray('[general]\nimport = ["a.toml"] # themes\n', ["general", "import"], ["b.toml"])
+ * // '[general]\nimport = ["b.toml"] # themes\n'
+ */
+export function setStringArray(
+  content: string,
+  keyPath: string[],
+  values: string[],
+): Result<string, TomlEditError> {
+  const edit = fromThrowable(
+    () => editStringArray(content, keyPath, values),
+    (error) => new TomlEditError(keyPath.join("."), { cause: error }),
+  );
+  return edit();
+}
+
+function editStringArray(
+  content: string,
+  keyPath: string[],
+  values: string[],
+): string {
+  const { entries, tables } = scanDocument(content);
+  const tablePath = keyPath.slice(0, -1);
+  const newline = content.includes("\r\n") ? "\r\n" : "\n";
+
+  // Edit the existing array
+  const entry = entries.find((entry) =>
+    !entry.inArrayTable && equalPaths(entry.path, keyPath)
+  );
+  if (entry) {
+    const valueText = content.slice(entry.valueStart, entry.valueEnd);
+    if (!valueText.startsWith("[")) {
+      throw new TypeError(`Value of ${keyPath.join(".")} is not an array.`);
+    }
+    return content.slice(0, entry.valueStart) +
+      editArray(valueText, values) +
+      content.slice(entry.valueEnd);
+  }
+
+  const inlineTable = entries.find((entry) =>
+    !entry.inArrayTable && equalPaths(entry.path, tablePath)
+  );
+  if (inlineTable) {
+    throw new TypeError(
+      `Table ${tablePath.join(".")} is defined inline and can't be edited.`,
+    );
+  }
+
+  const line = `${formatKey(keyPath.at(-1) ?? "")} = ${
+    renderInlineArray(values, '"', "")
+  }`;
+
+  // Add the key to the end of its table
+  const table = tables.find((table) =>
+    !table.isArrayTable && equalPaths(table.path, tablePath)
+  );
+  if (table) {
+    const lastEntry = entries.findLast((entry) =>
+      !entry.inArrayTable && equalPaths(entry.tablePath, tablePath)
+    );
+    return insertLine(content, lastEntry?.lineEnd ?? table.lineEnd, line);
+  }
+
+  // Add the key next to dotted keys defining the table from a parent table,
+  // e.g. `general.live_config_reload = true` at the root
+  const dottedEntry = entries.findLast((entry) =>
+    !entry.inArrayTable &&
+    entry.tablePath.length < tablePath.length &&
+    startsWithPath(entry.path, tablePath)
+  );
+  if (dottedEntry) {
+    const relativeKey = keyPath.slice(dottedEntry.tablePath.length);
+    return insertLine(
+      content,
+      dottedEntry.lineEnd,
+      `${relativeKey.map(formatKey).join(".")} = ${
+        renderInlineArray(values, '"', "")
+      }`,
+    );
+  }
+
+  // Append a new table
+  const header = `[${tablePath.map(formatKey).join(".")}]`;
+  if (content.trim() === "") {
+    return `${header}${newline}${line}${newline}`;
+  }
+  const separator = content.endsWith(newline) ? newline : newline + newline;
+  return `${content}${separator}${header}${newline}${line}${newline}`;
+}
+
+/**
+ * Removes a key with everything under it, i.e. its tables, arrays of tables
+ * and dotted keys, keeping the rest of the document untouched.
+ *
+ * Comments and blank lines within the removed tables are removed with them.
+ * The removed text is returned as well. If the key is a top-level one, the
+ * removed text is a valid TOML document on its own.
+ *
+ * @param content - TOML document
+ * @param keyPath - Full key path to remove, e.g. ["colors"]
+ * @returns Result containing the edited document and the removed text, or a
+ * TomlEditError
+ *
+ * @example
+ * removeKey('[font]\nsize = 12\n\n[colors.primary]\nbackground = "#000"\n', ["colors"])
+ * // { content: '[font]\nsize = 12\n\n', removed: '[colors.primary]\nbackground = "#000"\n' }
+ */
+export function removeKey(
+  content: string,
+  keyPath: string[],
+): Result<{ content: string; removed: string }, TomlEditError> {
+  const edit = fromThrowable(
+    () => editRemoveKey(content, keyPath),
+    (error) => new TomlEditError(keyPath.join("."), { cause: error }),
+  );
+  return edit();
+}
+
+function editRemoveKey(
+  content: string,
+  keyPath: string[],
+): { content: string; removed: string } {
+  const { entries, tables } = scanDocument(content);
+  const isRemoved = (path: string[]) =>
+    equalPaths(path, keyPath) || startsWithPath(path, keyPath);
+  const ranges: Array<{ start: number; end: number }> = [];
+
+  // Tables are removed up to their last entry, so that comments preceding
+  // the next table stay
+  tables.forEach((table, index) => {
+    if (!isRemoved(table.path)) {
+      return;
+    }
+    const nextTableStart = tables[index + 1]?.lineStart ?? content.length;
+    const lastEntry = entries.findLast((entry) =>
+      entry.lineStart >= table.lineEnd && entry.lineStart < nextTableStart
+    );
+    ranges.push({
+      start: table.lineStart,
+      end: lastEntry?.lineEnd ?? table.lineEnd,
+    });
+  });
+
+  // Dotted keys and inline tables defined from a parent table
+  for (const entry of entries) {
+    const inRemovedTable = ranges.some((range) =>
+      entry.lineStart >= range.start && entry.lineStart < range.end
+    );
+    if (isRemoved(entry.path) && !inRemovedTable) {
+      ranges.push({ start: entry.lineStart, end: entry.lineEnd });
+    }
+  }
+
+  // Merge ranges separated by whitespace only
+  ranges.sort((a, b) => a.start - b.start);
+  const merged: Array<{ start: number; end: number }> = [];
+  for (const range of ranges) {
+    const last = merged.at(-1);
+    if (last && content.slice(last.end, range.start).trim() === "") {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+
+  const newline = content.includes("\r\n") ? "\r\n" : "\n";
+  let result = "";
+  let offset = 0;
+  for (const range of merged) {
+    const before = content.slice(offset, range.start);
+    result += before;
+    // Drop a blank line following the range if a blank line precedes it
+    const after = /^[ \t]*\r?\n/.exec(content.slice(range.end));
+    const precededByBlank = result === "" || /\n[ \t]*\r?\n$/.test(result);
+    offset = range.end + (after && precededByBlank ? after[0].length : 0);
+  }
+  result += content.slice(offset);
+
+  const removed = merged
+    .map((range) => {
+      const text = content.slice(range.start, range.end);
+      return text.endsWith("\n") ? text : text + newline;
+    })
+    .join(newline);
+
+  return { content: result, removed };
+}
+
+/**
+ * Inserts a line at the given offset, which is expected to be a line start.
+ */
+function insertLine(content: string, offset: number, line: string): string {
+  const newline = content.includes("\r\n") ? "\r\n" : "\n";
+  const before = content.slice(0, offset);
+  // The offset may point to the end of a document without a trailing line break
+  const prefix = before === "" || before.endsWith("\n") ? "" : newline;
+  return before + prefix + line + newline + content.slice(offset);
+}
+
+/**
+ * Edits an array value so that it contains the given strings.
+ * Multi-line arrays with one item per line are edited line by line, other
+ * arrays are rendered anew in their original layout, keeping their comments.
+ */
+function editArray(arrayText: string, values: string[]): string {
+  const items = parseArrayItems(arrayText);
+  const quote = items?.[0] ? arrayText[items[0].start] : '"';
+
+  if (
+    items?.length === values.length &&
+    items.every((item, index) => item.value === values[index])
+  ) {
+    return arrayText;
+  }
+
+  if (!arrayText.includes("\n")) {
+    const padding = items?.length && /^\[[ \t]/.test(arrayText) ? " " : "";
+    return renderInlineArray(values, quote, padding);
+  }
+
+  const newline = arrayText.includes("\r\n") ? "\r\n" : "\n";
+  const closingIndent = /([ \t]*)\]$/.exec(arrayText)?.[1] ?? "";
+  if (!items?.length) {
+    return renderMultilineArray(values, quote, newline, closingIndent);
+  }
+  if (!hasOneItemPerLine(arrayText, items)) {
+    return renderCommentedArray(
+      arrayText,
+      items,
+      values,
+      newline,
+      closingIndent,
+    );
+  }
+
+  const lines = items.map((item) => ({
+    start: arrayText.lastIndexOf("\n", item.start) + 1,
+    end: arrayText.indexOf("\n", item.end) + 1,
+  }));
+  const indent = arrayText.slice(lines[0].start, items[0].start);
+  const lastItem = items[items.length - 1];
+  const hasTrailingComma = /^\s*,/.test(arrayText.slice(lastItem.end));
+
+  const operations = diffLists(items.map((item) => item.value), values);
+  const remainingItems = (index: number) =>
+    operations.slice(index + 1).some((op) => op.type !== "delete");
+
+  let result = arrayText.slice(0, lines[0].start);
+  operations.forEach((operation, index) => {
+    if (operation.type === "insert") {
+      const comma = hasTrailingComma || remainingItems(index) ? "," : "";
+      result += indent + formatString(operation.value, quote) + comma + newline;
+      return;
+    }
+    const item = items[operation.index];
+    const line = lines[operation.index];
+    // Comments and blank lines between items stay in place
+    const previousLineEnd = operation.index === 0
+      ? line.start
+      : lines[operation.index - 1].end;
+    result += arrayText.slice(previousLineEnd, line.start);
+    if (operation.type === "delete") {
+      return;
+    }
+    // The original last item needs a comma once more items follow it
+    if (item === lastItem && !hasTrailingComma && remainingItems(index)) {
+      result += arrayText.slice(line.start, item.end) + "," +
+        arrayText.slice(item.end, line.end);
+      return;
+    }
+    result += arrayText.slice(line.start, line.end);
+  });
+
+  return result + arrayText.slice(lines[lines.length - 1].end);
+}
+
+/**
+ * Checks that every item sits on its own line, optionally followed by a comma
+ * and a comment, and that the brackets are on separate lines.
+ */
+function hasOneItemPerLine(arrayText: string, items: ArrayItem[]): boolean {
+  return items.every((item) => {
+    const lineStart = arrayText.lastIndexOf("\n", item.start) + 1;
+    const lineEnd = arrayText.indexOf("\n", item.end);
+    return lineStart > 0 &&
+      lineEnd !== -1 &&
+      /^[ \t]*$/.test(arrayText.slice(lineStart, item.start)) &&
+      /^[ \t]*,?[ \t]*(#.*)?\r?$/.test(arrayText.slice(item.end, lineEnd));
+  });
+}
+
+function renderInlineArray(
+  values: string[],
+  quote: string,
+  padding: string,
+): string {
+  if (values.length === 0) {
+    return "[]";
+  }
+  const items = values.map((value) => formatString(value, quote));
+  return `[${padding}${items.join(", ")}${padding}]`;
+}
+
+function renderMultilineArray(
+  values: string[],
+  quote: string,
+  newline: string,
+  closingIndent: string,
+): string {
+  if (values.length === 0) {
+    return "[]";
+  }
+  const lines = values.map((value) =>
+    `${closingIndent}  ${formatString(value, quote)},${newline}`
+  );
+  return `[${newline}${lines.join("")}${closingIndent}]`;
+}
+
+/**
+ * Renders a multi-line array with one item per line, keeping the comments of
+ * the original array. A comment following an item on its line stays after the
+ * item and is removed with it, other comments stay before the next item.
+ */
+function renderCommentedArray(
+  arrayText: string,
+  items: ArrayItem[],
+  values: string[],
+  newline: string,
+  closingIndent: string,
+): string {
+  const indent = `${closingIndent}  `;
+  const quote = arrayText[items[0].start];
+  const leading: string[][] = Array.from(
+    { length: items.length + 1 },
+    () => [],
+  );
+  const trailing: string[][] = items.map(() => []);
+  let opening = "";
+
+  for (const comment of parseArrayComments(arrayText)) {
+    const previous = items.findLastIndex((item) => item.end <= comment.start);
+    const sameLine = !arrayText
+      .slice(previous === -1 ? 0 : items[previous].end, comment.start)
+      .includes("\n");
+    if (sameLine && previous === -1) {
+      opening = ` ${comment.text}`;
+    } else if (sameLine) {
+      trailing[previous].push(comment.text);
+    } else {
+      leading[previous + 1].push(comment.text);
+    }
+  }
+
+  const lines: string[] = [];
+  for (const operation of diffLists(items.map((item) => item.value), values)) {
+    if (operation.type === "insert") {
+      lines.push(`${indent}${formatString(operation.value, quote)},`);
+      continue;
+    }
+    const item = items[operation.index];
+    lines.push(...leading[operation.index].map((text) => indent + text));
+    if (operation.type === "keep") {
+      lines.push(
+        [
+          `${indent}${arrayText.slice(item.start, item.end)},`,
+          ...trailing[operation.index],
+        ].join(" "),
+      );
+    }
+  }
+  lines.push(...leading[items.length].map((text) => indent + text));
+
+  return `[${opening}${newline}${
+    lines.map((line) => line + newline).join("")
+  }${closingIndent}]`;
+}
+
+/**
+ * Formats a string value, using the preferred quote if the value allows it.
+ */
+function formatString(value: string, quote: string): string {
+  if (quote === "'" && !/['\n\r]/.test(value)) {
+    return `'${value}'`;
+  }
+  const escaped = value
+    .replaceAll("\\", "\\\\")
+    .replaceAll('"', '\\"')
+    .replaceAll("\n", "\\n")
+    .replaceAll("\r", "\\r")
+    .replaceAll("\t", "\\t");
+  return `"${escaped}"`;
+}
+
+function formatKey(key: string): string {
+  return /^[A-Za-z0-9_-]+$/.test(key) ? key : formatString(key, '"');
+}
+
+function equalPaths(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((key, i) => key === b[i]);
+}
+
+function startsWithPath(path: string[], prefix: string[]): boolean {
+  return path.length > prefix.length &&
+    prefix.every((key, i) => key === path[i]);
+}
+
+/**
+ * Scans the document for key-value entries and table headers.
+ * Values are skipped over without being parsed.
+ */
+function scanDocument(
+  content: string,
+): { entries: TomlEntry[]; tables: TomlTableHeader[] } {
+  const entries: TomlEntry[] = [];
+  const tables: TomlTableHeader[] = [];
+  let tablePath: string[] = [];
+  let inArrayTable = false;
+  let i = 0;
+
+  while (i < content.length) {
+    const lineStart = i;
+    i = skipSpaces(content, i);
+    const char = content[i];
+
+    if (char === undefined) {
+      break;
+    }
+    if (char === "\n" || char === "\r" || char === "#") {
+      i = skipLine(content, i);
+      continue;
+    }
+    if (char === "[") {
+      const isArrayTable = content[i + 1] === "[";
+      const key = scanKey(content, i + (isArrayTable ? 2 : 1));
+      i = skipLine(content, key.end);
+      tablePath = key.path;
+      inArrayTable = isArrayTable;
+      tables.push({ path: key.path, isArrayTable, lineStart, lineEnd: i });
+      continue;
+    }
+
+    const key = scanKey(content, i);
+    i = skipSpaces(content, key.end);
+    if (content[i] !== "=") {
+      throw new SyntaxError(`Expected "=" at offset ${i}.`);
+    }
+    const valueStart = skipSpaces(content, i + 1);
+    const valueEnd = scanValue(content, valueStart);
+    i = skipLine(content, valueEnd);
+    entries.push({
+      path: [...tablePath, ...key.path],
+      tablePath,
+      inArrayTable,
+      lineStart,
+      valueStart,
+      valueEnd,
+      lineEnd: i,
+    });
+  }
+
+  return { entries, tables };
+}
+
+function skipSpaces(content: string, i: number): number {
+  while (content[i] === " " || content[i] === "\t") {
+    i++;
+  }
+  return i;
+}
+
+/**
+ * Skips to the start of the next line.
+ */
+function skipLine(content: string, i: number): number {
+  const lineEnd = content.indexOf("\n", i);
+  return lineEnd === -1 ? content.length : lineEnd + 1;
+}
+
+/**
+ * Scans a (possibly dotted and quoted) key.
+ */
+function scanKey(content: string, i: number): { path: string[]; end: number } {
+  const path: string[] = [];
+  while (true) {
+    i = skipSpaces(content, i);
+    if (content[i] === '"' || content[i] === "'") {
+      const string = scanString(content, i);
+      path.push(string.value);
+      i = string.end;
+    } else {
+      const bareKey = /^[A-Za-z0-9_-]+/.exec(content.slice(i));
+      if (!bareKey) {
+        throw new SyntaxError(`Expected a key at offset ${i}.`);
+      }
+      path.push(bareKey[0]);
+      i += bareKey[0].length;
+    }
+    i = skipSpaces(content, i);
+    if (content[i] !== ".") {
+      return { path, end: i };
+    }
+    i++;
+  }
+}
+
+/**
+ * Scans a value and returns the offset right after it.
+ */
+function scanValue(content: string, i: number): number {
+  const char = content[i];
+  if (char === '"' || char === "'") {
+    return scanString(content, i).end;
+  }
+  if (char === "[" || char === "{") {
+    let depth = 0;
+    while (i < content.length) {
+      const char = content[i];
+      if (char === '"' || char === "'") {
+        i = scanString(content, i).end;
+        continue;
+      }
+      if (char === "#") {
+        i = content.indexOf("\n", i);
+        if (i === -1) break;
+        continue;
+      }
+      if (char === "[" || char === "{") {
+        depth++;
+      } else if (char === "]" || char === "}") {
+        depth--;
+        if (depth === 0) {
+          return i + 1;
+        }
+      }
+      i++;
+    }
+    throw new SyntaxError("Unterminated array or inline table.");
+  }
+  // Scalars (numbers, booleans, dates) end with the line or a comment
+  const match = /^[^\n#]*/.exec(content.slice(i));
+  return i + (match?.[0].trimEnd().length ?? 0);
+}
+
+/**
+ * Scans a basic, literal or multi-line string and decodes its value.
+ */
+function scanString(
+  content: string,
+  i: number,
+): { value: string; end: number } {
+  const quote = content[i];
+  const isMultiline = content.startsWith(quote.repeat(3), i);
+  const delimiter = isMultiline ? quote.repeat(3) : quote;
+  let j = i + delimiter.length;
+
+  while (j < content.length) {
+    if (quote === '"' && content[j] === "\\") {
+      j += 2;
+      continue;
+    }
+    if (!isMultiline && content[j] === "\n") {
+      break;
+    }
+    if (content.startsWith(delimiter, j)) {
+      // Up to two quotes may directly precede the closing delimiter
+      let end = j + delimiter.length;
+      while (isMultiline && content[end] === quote && end - j < 5) {
+        end++;
+      }
+      const raw = content.slice(i + delimiter.length, end - delimiter.length);
+      return {
+        value: quote === '"' ? unescapeBasicString(raw) : raw,
+        end,
+      };
+    }
+    j++;
+  }
+  throw new SyntaxError(`Unterminated string at offset ${i}.`);
+}
+
+const ESCAPES: Record<string, string> = {
+  b: "\b",
+  t: "\t",
+  n: "\n",
+  f: "\f",
+  r: "\r",
+  e: "\x1b",
+  '"': '"',
+  "\\": "\\",
+};
+
+function unescapeBasicString(raw: string): string {
+  return raw.replace(
+    /\\(u[0-9a-fA-F]{4}|U[0-9a-fA-F]{8}|\s*\n\s*|.)/g,
+    (_, escape: string) => {
+      if (escape[0] === "u" || escape[0] === "U") {
+        return String.fromCodePoint(parseInt(escape.slice(1), 16));
+      }
+      // Line ending backslash trims the following whitespace
+      if (escape.includes("\n")) {
+        return "";
+      }
+      return ESCAPES[escape] ?? escape;
+    },
+  );
+}
+
+/**
+ * Parses string items of an array value.
+ * @returns The items, or null if the array contains anything but plain strings
+ */
+function parseArrayItems(arrayText: string): ArrayItem[] | null {
+  const items: ArrayItem[] = [];
+  let i = 1;
+  while (i < arrayText.length - 1) {
+    const char = arrayText[i];
+    if (/[\s,]/.test(char)) {
+      i++;
+      continue;
+    }
+    if (char === "#") {
+      i = skipLine(arrayText, i);
+      continue;
+    }
+    if (
+      (char !== '"' && char !== "'") || arrayText.startsWith(char.repeat(3), i)
+    ) {
+      return null;
+    }
+    const string = scanString(arrayText, i);
+    items.push({ value: string.value, start: i, end: string.end });
+    i = string.end;
+  }
+  return items;
+}
+
+/**
+ * Finds the comments of an array value, skipping over its strings.
+ */
+function parseArrayComments(arrayText: string): ArrayComment[] {
+  const comments: ArrayComment[] = [];
+  let i = 1;
+  while (i < arrayText.length - 1) {
+    const char = arrayText[i];
+    if (char === '"' || char === "'") {
+      i = scanString(arrayText, i).end;
+      continue;
+    }
+    if (char === "#") {
+      const end = skipLine(arrayText, i);
+      comments.push({ text: arrayText.slice(i, end).trimEnd(), start: i });
+      i = end;
+      continue;
+    }
+    i++;
+  }
+  return comments;
+}
@@ -1,13 +1,103 @@
 /**
  * Error thrown when parsing TOML content fails.
+ *
+ * The position of the error is taken from the parser's message, so that the
+ * error can be rendered as `path:line:column` with a code frame.
  */
 export class TomlParseError extends Error {
   readonly _tag = "TomlParseError";
   content: string;
-  constructor(content: string, options?: ErrorOptions) {
-    super(`Failed to parse TOML content.`, options);
+  /** Path to the parsed file, if the content was read from a file */
+  path: string | undefined;
+  /** Line of the error, starting at 1 */
+  line: number | undefined;
+  /** Column of the error, starting at 1 */
+  column: number | undefined;
+  /** Parser's description of the error */
+  reason: string;
+  constructor(
+    content: string,
+    path: string | undefined,
+    options?: ErrorOptions,
+  ) {
+    const position = parsePosition(options?.cause);
+    const location = position
+      ? `${path ?? "TOML content"}:${position.line}:${position.column}`
+      : path;
+    super(
+      location
+        ? `Failed to parse ${location}: ${position?.reason ?? "invalid TOML"}`
+        : `Failed to parse TOML content.`,
+      options,
+    );
     this.content = content;
+    this.path = path;
+    this.line = position?.line;
+    this.column = position?.column;
+    this.reason = position?.reason ?? "invalid TOML";
   }
+
+  /**
+   * Formats lines around the error with a caret marking the column.
+   *
+   * @param context - Number of lines shown before and after the error line
+   * @returns The code frame, or an empty string if the position is unknown
+   *
+   * @example
+   * ```
+   *   1 | [general]
+   * > 2 | import = [
+   *     |           ^
+   * ```
+   */
+  codeFrame(context = 2): string {
+    if (this.line === undefined || this.column === undefined) {
+      return "";
+    }
+    const lines = this.content.split(/\r?\n/);
+    const first = Math.max(1, this.line - context);
+    const last = Math.min(lines.length, this.line + context);
+    const width = String(last).length;
+
+    const frame: string[] = [];
+    for (let number = first; number <= last; number++) {
+      const gutter = String(number).padStart(width);
+      const text = lines[number - 1];
+      frame.push(
+        `${number === this.line ? ">" : " "} ${gutter} |${
+          text ? ` ${text}` : ""
+        }`,
+      );
+      if (number === this.line) {
+        frame.push(
+          `  ${" ".repeat(width)} | ${" ".repeat(this.column - 1)}^`,
+        );
+      }
+    }
+    return frame.join("\n");
+  }
+}
+
+/**
+ * Reads the error position from the TOML parser's message, e.g.
+ * "Parse error on line 2, column 4: Unexpected character", where the column
+ * is counted from 0.
+ */
+function parsePosition(
+  cause: unknown,
+): { line: number; column: number; reason: string } | undefined {
+  if (!Error.isError(cause)) {
+    return undefined;
+  }
+  const match = /line (\d+), column (\d+): (.*)/s.exec(cause.message);
+  if (!match) {
+    return undefined;
+  }
+  return {
+    line: Number(match[1]),
+    column: Number(match[2]) + 1,
+    reason: match[3].trim(),
+  };
 }
 
 export class TomlStringifyError extends Error {
@@ -18,3 +108,15 @@ export class TomlStringifyError extends Error {
     this.obj = obj;
   }
 }
+
+/**
+ * Error thrown when editing a TOML document in place fails.
+ */
+export class TomlEditError extends Error {
+  readonly _tag = "TomlEditError";
+  key: string;
+  constructor(key: string, options?: ErrorOptions) {
+    super(`Failed to edit ${key} in TOML content.`, options);
+    this.key = key;
+  }
+}
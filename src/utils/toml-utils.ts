@@ -28,14 +28,16 @@ export function isToml(path: string): boolean {
  * Safely parses TOML content from a string.
  *
  * @param content - TOML content as a string
+ * @param path - Path to the file the content was read from, used in errors
  * @returns Result containing the parsed TOML object or a TomlParseError
  */
 export function safeParseTomlContent(
   content: string,
+  path?: FilePath,
 ): Result<Record<string, unknown>, TomlParseError> {
   const parseToml = fromThrowable(
     parse,
-    (error) => new TomlParseError(content, { cause: error }),
+    (error) => new TomlParseError(content, path, { cause: error }),
   );
   return parseToml(content);
 }
@@ -56,7 +58,7 @@ export function safeParseToml(path: FilePath): ResultAsync<
     (error) => new FileNotReadableError(path, { cause: error }),
   );
 
-  return readContent.andThen((content) => safeParseTomlContent(content));
+  return readContent.andThen((content) => safeParseTomlContent(content, path));
 }
 
 /**
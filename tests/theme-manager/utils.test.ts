@@ -86,7 +86,7 @@ Deno.test("detectThemeBrightness - should handle 3-digit hex colors (light)", ()
   assertEquals(result, "light");
 });
 
-Deno.test("detectThemeBrightness - should default to dark for missing background", () => {
+Deno.test("detectThemeBrightness - should tell a dark theme by its light text without background", () => {
   const theme = {
     colors: {
       primary: {
@@ -99,14 +99,7 @@ Deno.test("detectThemeBrightness - should default to dark for missing background
   assertEquals(result, "dark");
 });
 
-Deno.test("detectThemeBrightness - should default to dark for missing colors", () => {
-  const theme = {};
-
-  const result = detectThemeBrightness(theme);
-  assertEquals(result, "dark");
-});
-
-Deno.test("detectThemeBrightness - should default to dark for invalid hex color", () => {
+Deno.test("detectThemeBrightness - should ignore an invalid background and tell by the text", () => {
   const theme = {
     colors: {
       primary: {
@@ -120,20 +113,6 @@ Deno.test("detectThemeBrightness - should default to dark for invalid hex color"
   assertEquals(result, "dark");
 });
 
-Deno.test("detectThemeBrightness - should handle hex without # prefix", () => {
-  const theme = {
-    colors: {
-      primary: {
-        background: "1e2127",
-        foreground: "abb2bf",
-      },
-    },
-  };
-
-  const result = detectThemeBrightness(theme);
-  assertEquals(result, "dark");
-});
-
 Deno.test("detectThemeBrightness - should work with actual TOML parsed theme", async () => {
   const tomlContent = await Deno.readTextFile(
     "tests/fixtures/themes/one-dark.toml",
@@ -144,23 +123,7 @@ Deno.test("detectThemeBrightness - should work with actual TOML parsed theme", a
   assertEquals(result, "dark");
 });
 
-Deno.test("detectThemeBrightness - should detect edge case near threshold (dark)", () => {
-  // RGB(186, 186, 186) has luminance ~0.47, should be dark
-  const theme = {
-    colors: {
-      primary: {
-        background: "#bababa",
-        foreground: "#000000",
-      },
-    },
-  };
-
-  const result = detectThemeBrightness(theme);
-  assertEquals(result, "dark");
-});
-
-Deno.test("detectThemeBrightness - should detect edge case near threshold (light)", () => {
-  // RGB(200, 200, 200) has luminance ~0.58, should be light
+Deno.test("detectThemeBrightness - should detect light theme (black text on light gray)", () => {
   const theme = {
     colors: {
       primary: {
@@ -0,0 +1,222 @@
+/**
+ * Unit tests for timestamped backups and the backups command.
+ */
+
+import { assertEquals } from "@std/assert";
+import {
+  listBackupsCommand,
+  restoreBackupCommand,
+} from "../../src/commands/backups.ts";
+import {
+  formatSnapshotId,
+  listSnapshots,
+  pruneSnapshots,
+  recordSnapshot,
+  restoreSnapshot,
+} from "../../src/theme-manager/backup-history.ts";
+import { createThemeManager } from "../../src/theme-manager/theme-manager.ts";
+import {
+  createBasicConfig,
+  createTestEnvironment,
+  createTestThemes,
+  writeTestConfig,
+} from "../utils/test-setup.ts";
+
+Deno.test("formatSnapshotId: formats UTC time sortably", () => {
+  assertEquals(
+    formatSnapshotId(new Date("2026-10-18T09:30:15.042Z")),
+    "20261018-093015-042",
+  );
+});
+
+Deno.test("pruneSnapshots: deletes snapshots beyond count and age", async () => {
+  await using env = await createTestEnvironment();
+  const dir = `${env.tempDir}/backups`;
+  await Deno.mkdir(dir);
+  for (
+    const id of [
+      "20261001-000000-000",
+      "20261015-000000-000",
+      "20261016-000000-000",
+      "20261017-000000-000",
+    ]
+  ) {
+    await Deno.writeTextFile(`${dir}/${id}.toml`, "");
+  }
+  await Deno.writeTextFile(`${dir}/notes.txt`, "");
+  const now = new Date("2026-10-18T00:00:00.000Z");
+
+  const byCount = await pruneSnapshots(
+    { dir, retention: { maxCount: 3 } },
+    now,
+  );
+  assertEquals(
+    byCount._unsafeUnwrap().map((snapshot) => snapshot.id),
+    ["20261001-000000-000"],
+  );
+
+  const byAge = await pruneSnapshots(
+    { dir, retention: { maxAgeDays: 2 } },
+    now,
+  );
+  assertEquals(
+    byAge._unsafeUnwrap().map((snapshot) => snapshot.id),
+    ["20261015-000000-000"],
+  );
+
+  const remaining = await listSnapshots(dir);
+  assertEquals(
+    remaining._unsafeUnwrap().map((snapshot) => snapshot.id),
+    ["20261017-000000-000", "20261016-000000-000"],
+  );
+  assertEquals(await Deno.readTextFile(`${dir}/notes.txt`), "");
+});
+
+Deno.test("recordSnapshot: numbers snapshots made in the same millisecond", async () => {
+  await using env = await createTestEnvironment();
+  const history = { dir: `${env.tempDir}/backups`, retention: {} };
+  const now = new Date("2026-10-18T09:30:15.042Z");
+
+  for (const content of ["first", "second", "third"]) {
+    await recordSnapshot(history, content, now);
+  }
+
+  const snapshots = (await listSnapshots(history.dir))._unsafeUnwrap();
+  assertEquals(snapshots.map((snapshot) => snapshot.id), [
+    "20261018-093015-042-2",
+    "20261018-093015-042-1",
+    "20261018-093015-042",
+  ]);
+  assertEquals(await Deno.readTextFile(snapshots[0].path), "third");
+  assertEquals(await Deno.readTextFile(snapshots[2].path), "first");
+});
+
+Deno.test("restoreSnapshot: removes the copy when the config can't be replaced", async () => {
+  await using env = await createTestEnvironment();
+  const history = { dir: `${env.tempDir}/backups`, retention: {} };
+  await recordSnapshot(history, "[general]\nimport = []\n");
+  const [snapshot] = (await listSnapshots(history.dir))._unsafeUnwrap();
+  // A directory can't be replaced by a file
+  const configPath = `${env.tempDir}/config-dir`;
+  await Deno.mkdir(configPath);
+
+  const result = await restoreSnapshot(configPath, snapshot);
+
+  assertEquals(result._unsafeUnwrapErr()._tag, "RestoreBackupError");
+  assertEquals(
+    await Deno.stat(`${configPath}.tmp`).then(() => true, () => false),
+    false,
+  );
+});
+
+Deno.test("backups: switches keep snapshots that can be listed and restored", async () => {
+  await using env = await createTestEnvironment();
+  const backupHistory = {
+    dir: `${env.tempDir}/backups`,
+    retention: { maxCount: 2 },
+  };
+  const options = {
+    configPath: env.configPath,
+    backupHistory,
+    homeDir: env.tempDir,
+  };
+
+  await createTestThemes(env.themesDir, ["dark1", "dark2", "dark3"]);
+  await writeTestConfig(
+    env.configPath,
+    createBasicConfig([`${env.themesDir}/dark1.toml`]),
+  );
+  const originalContent = await Deno.readTextFile(env.configPath);
+
+  const managerResult = await createThemeManager({
+    configPath: env.configPath,
+    themesDirPath: env.themesDir,
+    backupPath: env.backupPath,
+    backupHistory,
+  });
+  if (!managerResult.isOk()) throw new Error("Failed to create manager");
+  const manager = managerResult.value;
+
+  for (const name of ["dark2.toml", "dark3.toml"]) {
+    const result = await manager.applyThemeByFilename(name);
+    if (!result.isOk()) throw new Error("Failed to apply theme");
+    // Snapshot identifiers have millisecond precision
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+
+  const records = (await listBackupsCommand(manager, options))
+    ._unsafeUnwrap();
+  assertEquals(
+    records.map((record) => record.theme?.label),
+    ["Dark2", "Dark1"],
+  );
+  assertEquals(records[1].diff.some((line) => line.startsWith("-")), true);
+
+  const oldest = records[1].snapshot.id;
+  const restoreResult = await restoreBackupCommand(
+    options,
+    env.backupPath,
+    oldest,
+  );
+
+  assertEquals(restoreResult.isOk(), true);
+  assertEquals(await Deno.readTextFile(env.configPath), originalContent);
+  // The replaced configuration is backed up, the restored snapshot pruned
+  const snapshots = (await listSnapshots(backupHistory.dir))._unsafeUnwrap();
+  assertEquals(snapshots.length, 2);
+  assertEquals(snapshots.some((snapshot) => snapshot.id === oldest), false);
+});
+
+Deno.test("backups: fails to restore an unknown snapshot", async () => {
+  await using env = await createTestEnvironment();
+  await writeTestConfig(env.configPath, createBasicConfig());
+
+  const result = await restoreBackupCommand(
+    {
+      configPath: env.configPath,
+      backupHistory: { dir: `${env.tempDir}/backups`, retention: {} },
+      homeDir: env.tempDir,
+    },
+    env.backupPath,
+    "20261018-093015-042",
+  );
+
+  assertEquals(result.isErr(), true);
+  if (!result.isErr()) throw new Error("Expected an error");
+  assertEquals(result.error._tag, "BackupSnapshotNotFoundError");
+});
+
+Deno.test("backups: finds themes imported with ~ or relative paths", async () => {
+  await using env = await createTestEnvironment();
+  const backupHistory = { dir: `${env.tempDir}/backups`, retention: {} };
+  const options = {
+    configPath: env.configPath,
+    backupHistory,
+    homeDir: env.tempDir,
+  };
+
+  await createTestThemes(env.themesDir, ["dark1", "dark2"]);
+  await writeTestConfig(env.configPath, createBasicConfig());
+  for (const importPath of ["~/themes/dark1.toml", "./themes/dark2.toml"]) {
+    await recordSnapshot(
+      backupHistory,
+      `[general]\nimport = ["${importPath}"]\n`,
+    );
+    // Snapshot identifiers have millisecond precision
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+
+  const managerResult = await createThemeManager({
+    configPath: env.configPath,
+    themesDirPath: env.themesDir,
+    backupPath: env.backupPath,
+  });
+  if (!managerResult.isOk()) throw new Error("Failed to create manager");
+
+  const records = (await listBackupsCommand(managerResult.value, options))
+    ._unsafeUnwrap();
+  assertEquals(
+    records.map((record) => record.theme?.label),
+    ["Dark2", "Dark1"],
+  );
+});
@@ -0,0 +1,74 @@
+/**
+ * Unit tests for the brightness command.
+ */
+
+import { assert, assertEquals } from "@std/assert";
+import {
+  isBrightnessSetting,
+  setBrightnessCommand,
+} from "../../src/commands/brightness.ts";
+import { createThemeManager } from "../../src/theme-manager/theme-manager.ts";
+import {
+  createBasicConfig,
+  createTestEnvironment,
+  writeTestConfig,
+  writeTestTheme,
+} from "../utils/test-setup.ts";
+
+Deno.test("isBrightnessSetting: accepts light, dark and auto", () => {
+  assertEquals(isBrightnessSetting("light"), true);
+  assertEquals(isBrightnessSetting("dark"), true);
+  assertEquals(isBrightnessSetting("auto"), true);
+  assertEquals(isBrightnessSetting("unknown"), false);
+});
+
+Deno.test("setBrightnessCommand: overrides the detected brightness", async () => {
+  await using env = await createTestEnvironment();
+  const themePath = `${env.themesDir}/gray.toml`;
+
+  await writeTestTheme(themePath, {
+    colors: { primary: { background: "#808080", foreground: "#888888" } },
+  });
+  await writeTestConfig(env.configPath, createBasicConfig());
+
+  const createManager = () =>
+    createThemeManager({
+      configPath: env.configPath,
+      themesDirPath: env.themesDir,
+      backupPath: env.backupPath,
+    });
+
+  const manager = (await createManager())._unsafeUnwrap();
+  assertEquals(manager.listThemes()[0].brightness, "unknown");
+
+  const result = await setBrightnessCommand(manager, "gray", "light");
+  assertEquals(result._unsafeUnwrap().brightness, "light");
+  const content = await Deno.readTextFile(themePath);
+  assert(content.startsWith("# ats-brightness: light\n"));
+  assert(content.includes('background = "#808080"'));
+
+  // The override is read from the theme file when themes are loaded again
+  const reloaded = (await createManager())._unsafeUnwrap();
+  assertEquals(reloaded.listThemes()[0].brightness, "light");
+  assertEquals(reloaded.listThemes()[0].brightnessConfidence, 1);
+
+  await setBrightnessCommand(reloaded, "gray", "auto");
+  assertEquals(reloaded.listThemes()[0].brightness, "unknown");
+  assert(!(await Deno.readTextFile(themePath)).includes("ats-brightness"));
+});
+
+Deno.test("setBrightnessCommand: fails for an unknown theme", async () => {
+  await using env = await createTestEnvironment();
+
+  await writeTestTheme(`${env.themesDir}/dark1.toml`, {});
+  await writeTestConfig(env.configPath, createBasicConfig());
+
+  const manager = (await createThemeManager({
+    configPath: env.configPath,
+    themesDirPath: env.themesDir,
+    backupPath: env.backupPath,
+  }))._unsafeUnwrap();
+
+  const result = await setBrightnessCommand(manager, "missing", "dark");
+  assertEquals(result.isErr(), true);
+});
@@ -0,0 +1,100 @@
+/**
+ * Unit tests for classifying themes as light or dark.
+ */
+
+import { assertEquals } from "@std/assert";
+import { classifyBrightness } from "../../src/utils/brightness.ts";
+import { detectThemeBrightness } from "../../src/utils/theme-utils.ts";
+
+Deno.test("classifyBrightness: uses the contrast direction", () => {
+  const light = classifyBrightness({
+    primary: { background: "#bababa", foreground: "#000000" },
+  });
+  const dark = classifyBrightness({
+    primary: { background: "#1e2127", foreground: "#abb2bf" },
+  });
+
+  assertEquals(light.brightness, "light");
+  assertEquals(dark.brightness, "dark");
+  assertEquals(light.confidence > 0.5, true);
+  assertEquals(dark.confidence > 0.5, true);
+});
+
+Deno.test("classifyBrightness: understands 0x colors", () => {
+  const result = classifyBrightness({
+    primary: { background: "0xfdf6e3", foreground: "0x657b83" },
+  });
+
+  assertEquals(result, { brightness: "light", confidence: 0.7 });
+});
+
+Deno.test("classifyBrightness: falls back to the foreground and palettes", () => {
+  assertEquals(
+    classifyBrightness({ primary: { foreground: "#1c1c1c" } }).brightness,
+    "light",
+  );
+  assertEquals(
+    classifyBrightness({
+      normal: { red: "#ff7b72", green: "#7ee787", blue: "#79c0ff" },
+    }).brightness,
+    "dark",
+  );
+});
+
+Deno.test("classifyBrightness: is less sure with fewer clues", () => {
+  const both = classifyBrightness({
+    primary: { background: "#ffffff", foreground: "#333333" },
+  });
+  const foregroundOnly = classifyBrightness({
+    primary: { foreground: "#333333" },
+  });
+
+  assertEquals(foregroundOnly.brightness, "light");
+  assertEquals(foregroundOnly.confidence < both.confidence, true);
+});
+
+Deno.test("classifyBrightness: is unknown rather than guessing", () => {
+  assertEquals(classifyBrightness({}), {
+    brightness: "unknown",
+    confidence: 0,
+  });
+  assertEquals(
+    classifyBrightness({
+      primary: { background: "#808080", foreground: "#888888" },
+    }).brightness,
+    "unknown",
+  );
+  assertEquals(
+    classifyBrightness({ cursor: { cursor: "CellForeground" } }).brightness,
+    "unknown",
+  );
+});
+
+Deno.test("detectThemeBrightness: is unknown without colors", () => {
+  assertEquals(detectThemeBrightness({}), "unknown");
+  assertEquals(
+    detectThemeBrightness({
+      colors: { primary: { background: "1e2127", foreground: "abb2bf" } },
+    }),
+    "unknown",
+  );
+});
+
+Deno.test("detectThemeBrightness: reads 0x colors", () => {
+  assertEquals(
+    detectThemeBrightness({
+      colors: { primary: { background: "0xfdf6e3", foreground: "0x657b83" } },
+    }),
+    "light",
+  );
+});
+
+Deno.test("detectThemeBrightness: tells a mid-gray background by its text", () => {
+  // The background alone has a luminance of ~0.47, below the old threshold
+  assertEquals(
+    detectThemeBrightness({
+      colors: { primary: { background: "#bababa", foreground: "#000000" } },
+    }),
+    "light",
+  );
+});
@@ -0,0 +1,186 @@
+/**
+ * Unit tests for the capture command.
+ */
+
+import { assertEquals } from "@std/assert";
+import { parse } from "@std/toml/parse";
+import {
+  captureCommand,
+  formatPaletteQuery,
+  getThemeFilename,
+  parsePaletteReplies,
+} from "../../src/commands/capture.ts";
+import { loadThemes } from "../../src/theme-manager/theme-manager.ts";
+import type { Terminal } from "../../src/utils/terminal.ts";
+import {
+  createTestEnvironment,
+  createTestThemes,
+} from "../utils/test-setup.ts";
+
+const REPLIES = "\x1b]10;rgb:f8f8/f8f8/f2f2\x1b\\" +
+  "\x1b]11;rgb:2727/2828/2222\x07" +
+  "\x1b]4;1;rgb:f9/26/72\x1b\\" +
+  "\x1b]4;9;rgb:ffff/0000/0000\x1b\\" +
+  "\x1b[?62;22c";
+
+/**
+ * Creates a terminal answering queries with the given replies, or never
+ * answering without replies.
+ */
+function createFakeTerminal(replies?: string) {
+  const written: string[] = [];
+  const rawModes: boolean[] = [];
+  const terminal: Terminal = {
+    isTerminal: () => true,
+    setRaw: (raw) => {
+      rawModes.push(raw);
+    },
+    write: (data) => {
+      written.push(data);
+      return Promise.resolve();
+    },
+    read: () => {
+      if (replies === undefined) {
+        return new Promise(() => {});
+      }
+      const chunk = replies;
+      replies = "";
+      return Promise.resolve(chunk);
+    },
+  };
+  return { terminal, written, rawModes };
+}
+
+Deno.test("getThemeFilename: makes a filename of the name", () => {
+  assertEquals(
+    getThemeFilename("My Palette")._unsafeUnwrap(),
+    "my_palette.toml",
+  );
+  assertEquals(
+    getThemeFilename("custom/Night")._unsafeUnwrap(),
+    "custom/night.toml",
+  );
+  assertEquals(getThemeFilename("Mine.toml")._unsafeUnwrap(), "mine.toml");
+});
+
+Deno.test("getThemeFilename: keeps the file in the themes' directory", () => {
+  assertEquals(
+    getThemeFilename("../../x.toml")._unsafeUnwrap(),
+    "x.toml",
+  );
+  assertEquals(
+    getThemeFilename("/etc/Night")._unsafeUnwrap(),
+    "etc/night.toml",
+  );
+});
+
+Deno.test("getThemeFilename: rejects names without letters or digits", () => {
+  for (const name of ["", "!!!", ".toml", "../.."]) {
+    assertEquals(
+      getThemeFilename(name)._unsafeUnwrapErr()._tag,
+      "InvalidThemeNameError",
+    );
+  }
+});
+
+Deno.test("formatPaletteQuery: queries ANSI colors, foreground and background", () => {
+  const query = formatPaletteQuery();
+
+  assertEquals(query.startsWith("\x1b]4;0;?\x1b\\"), true);
+  assertEquals(query.includes("\x1b]4;15;?\x1b\\"), true);
+  assertEquals(query.endsWith("\x1b]10;?\x1b\\\x1b]11;?\x1b\\"), true);
+});
+
+Deno.test("parsePaletteReplies: parses replies terminated by ST or BEL", () => {
+  const palette = parsePaletteReplies(REPLIES);
+
+  assertEquals(palette.foreground, "#f8f8f2");
+  assertEquals(palette.background, "#272822");
+  assertEquals([...palette.ansi], [[1, "#f92672"], [9, "#ff0000"]]);
+});
+
+Deno.test("captureCommand: saves the terminal's colors as a theme", async () => {
+  await using env = await createTestEnvironment();
+  await createTestThemes(env.themesDir, ["nord"]);
+  const { terminal, written, rawModes } = createFakeTerminal(REPLIES);
+
+  const result = await captureCommand({
+    themesDirPath: env.themesDir,
+    name: "My Palette",
+    terminal,
+  });
+
+  if (!result.isOk()) throw new Error("Expected the colors to be captured");
+  assertEquals(result.value.path, `${env.themesDir}/my_palette.toml`);
+  assertEquals(written[0].endsWith("\x1b[c"), true);
+  assertEquals(rawModes, [true, false]);
+  assertEquals(parse(await Deno.readTextFile(result.value.path)), {
+    colors: {
+      primary: { background: "#272822", foreground: "#f8f8f2" },
+      normal: { red: "#f92672" },
+      bright: { red: "#ff0000" },
+    },
+  });
+
+  const loaded = await loadThemes(env.themesDir);
+  assertEquals(
+    loaded.isOk() && loaded.value.themes.map((theme) => theme.label).sort(),
+    ["My Palette", "Nord"],
+  );
+});
+
+Deno.test("captureCommand: fails when the terminal doesn't answer", async () => {
+  await using env = await createTestEnvironment();
+  const { terminal, rawModes } = createFakeTerminal();
+
+  const result = await captureCommand({
+    themesDirPath: env.themesDir,
+    name: "silent",
+    terminal,
+    timeout: 10,
+  });
+
+  assertEquals(result.isErr() && result.error._tag, "TerminalTimeoutError");
+  assertEquals(rawModes, [true, false]);
+});
+
+Deno.test("captureCommand: fails without foreground and background", async () => {
+  await using env = await createTestEnvironment();
+  const { terminal } = createFakeTerminal("\x1b[?62c");
+
+  const result = await captureCommand({
+    themesDirPath: env.themesDir,
+    name: "ignored",
+    terminal,
+  });
+
+  assertEquals(result.isErr() && result.error._tag, "NoTerminalColorsError");
+});
+
+Deno.test("captureCommand: doesn't overwrite an existing theme", async () => {
+  await using env = await createTestEnvironment();
+  await createTestThemes(env.themesDir, ["nord"]);
+  const { terminal, written } = createFakeTerminal(REPLIES);
+
+  const result = await captureCommand({
+    themesDirPath: env.themesDir,
+    name: "Nord",
+    terminal,
+  });
+
+  assertEquals(result.isErr() && result.error._tag, "ThemeExistsError");
+  assertEquals(written, []);
+});
+
+Deno.test("captureCommand: fails outside a terminal", async () => {
+  await using env = await createTestEnvironment();
+  const { terminal } = createFakeTerminal(REPLIES);
+
+  const result = await captureCommand({
+    themesDirPath: env.themesDir,
+    name: "piped",
+    terminal: { ...terminal, isTerminal: () => false },
+  });
+
+  assertEquals(result.isErr() && result.error._tag, "NotATerminalError");
+});
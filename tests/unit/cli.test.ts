@@ -1,11 +1,27 @@
-import { assertEquals } from "@std/assert";
+import { assert, assertEquals } from "@std/assert";
 import {
   bold,
+  createLivePreview,
   getArgs,
+  getCommandQuery,
+  getDefaultActiveThemePath,
   getHomeDir,
+  getOutputFormat,
+  highlightPositions,
+  parseBackupRetention,
+  parseBrightnessOption,
+  parseCountOption,
   parsePositionalCommand,
   underscore,
 } from "../../src/cli.ts";
+import { createThemeManager } from "../../src/theme-manager/theme-manager.ts";
+import {
+  createBasicConfig,
+  createTestEnvironment,
+  createTestThemes,
+  type TestEnvironment,
+  writeTestConfig,
+} from "../utils/test-setup.ts";
 
 // Mock environment for testing getHomeDir function
 const originalEnv = {
@@ -155,6 +171,18 @@ Deno.test("getArgs: select theme", () => {
   assertEquals(args.select, "monokai-pro.toml");
 });
 
+Deno.test("getArgs: live preview is enabled by default", () => {
+  const args = getArgs([], "/home/user", "linux");
+
+  assertEquals(args.preview, true);
+});
+
+Deno.test("getArgs: --no-preview disables live preview", () => {
+  const args = getArgs(["--no-preview"], "/home/user", "linux");
+
+  assertEquals(args.preview, false);
+});
+
 Deno.test("getArgs: multiple flags combined", () => {
   const args = getArgs(
     [
@@ -230,6 +258,17 @@ Deno.test("bold and underscore: can be combined", () => {
   assertEquals(result, "\x1b[1m\x1b[4mtest\x1b[0m\x1b[0m");
 });
 
+Deno.test("highlightPositions: colors matched characters in runs", () => {
+  assertEquals(
+    highlightPositions("Monokai Pro", [0, 1, 8]),
+    "\x1b[33mMo\x1b[39mnokai \x1b[33mP\x1b[39mro",
+  );
+});
+
+Deno.test("highlightPositions: leaves text without positions as it is", () => {
+  assertEquals(highlightPositions("Nord", []), "Nord");
+});
+
 Deno.test("getArgs: uses provided homeDir parameter", () => {
   const args = getArgs([], "/custom/home", "linux");
 
@@ -241,6 +280,78 @@ Deno.test("getArgs: uses provided homeDir parameter", () => {
   );
 });
 
+Deno.test("getArgs: keeps files next to a config in XDG_CONFIG_HOME", () => {
+  const args = getArgs(
+    [],
+    "/home/user",
+    "linux",
+    {},
+    "/xdg/alacritty/alacritty.toml",
+  );
+
+  assertEquals(args.config, "/xdg/alacritty/alacritty.toml");
+  assertEquals(args.themes, "/xdg/alacritty/themes");
+  assertEquals(args.backup, "/xdg/alacritty/alacritty.bak.toml");
+  assertEquals(args["backup-dir"], "/xdg/alacritty/backups");
+  assertEquals(args.state, "/xdg/alacritty/ats-state.toml");
+});
+
+Deno.test("getArgs: keeps files of a config in XDG_CONFIG_HOME in an alacritty directory", () => {
+  const args = getArgs([], "/home/user", "linux", {}, "/xdg/alacritty.toml");
+
+  assertEquals(args.config, "/xdg/alacritty.toml");
+  assertEquals(args.themes, "/xdg/alacritty/themes");
+  assertEquals(args.backup, "/xdg/alacritty/alacritty.bak.toml");
+  assertEquals(args["backup-dir"], "/xdg/alacritty/backups");
+  assertEquals(args.state, "/xdg/alacritty/ats-state.toml");
+});
+
+Deno.test("getArgs: keeps files of a config in the home directory in the user's directory", () => {
+  const args = getArgs(
+    [],
+    "/home/user",
+    "linux",
+    {},
+    "/home/user/.alacritty.toml",
+  );
+
+  assertEquals(args.config, "/home/user/.alacritty.toml");
+  assertEquals(args.themes, "/home/user/.config/alacritty/themes");
+  assertEquals(args.backup, "/home/user/.config/alacritty/alacritty.bak.toml");
+  assertEquals(args["backup-dir"], "/home/user/.config/alacritty/backups");
+  assertEquals(args.state, "/home/user/.config/alacritty/ats-state.toml");
+});
+
+Deno.test("getArgs: keeps files of a config in /etc in the user's directory", () => {
+  const args = getArgs(
+    [],
+    "/home/user",
+    "linux",
+    {},
+    "/etc/alacritty/alacritty.toml",
+  );
+
+  assertEquals(args.config, "/etc/alacritty/alacritty.toml");
+  assertEquals(args.themes, "/home/user/.config/alacritty/themes");
+  assertEquals(args.backup, "/home/user/.config/alacritty/alacritty.bak.toml");
+  assertEquals(args["backup-dir"], "/home/user/.config/alacritty/backups");
+  assertEquals(args.state, "/home/user/.config/alacritty/ats-state.toml");
+});
+
+Deno.test("getArgs: settings override the discovered config", () => {
+  const args = getArgs(
+    [],
+    "/home/user",
+    "linux",
+    { config: "/custom/alacritty/alacritty.toml" },
+    "/xdg/alacritty/alacritty.toml",
+  );
+
+  assertEquals(args.config, "/custom/alacritty/alacritty.toml");
+  assertEquals(args.themes, "/custom/alacritty/themes");
+  assertEquals(args.state, "/custom/alacritty/ats-state.toml");
+});
+
 // Tests for getHomeDir function (which still has side effects)
 Deno.test("getHomeDir: uses HOME on POSIX systems", () => {
   setTestEnv("/home/user");
@@ -398,3 +509,168 @@ Deno.test("parsePositionalCommand: recognizes clear-themes", () => {
 
   assertEquals(command, "clear-themes");
 });
+
+Deno.test("getArgs: init command with active theme options", () => {
+  const args = getArgs(
+    ["init", "--active-theme", "/custom/active.toml", "--symlink"],
+    "/home/user",
+    "linux",
+  );
+
+  assertEquals(args.command, "init");
+  assertEquals(args["active-theme"], "/custom/active.toml");
+  assertEquals(args.symlink, true);
+});
+
+Deno.test("getDefaultActiveThemePath: places file next to the config", () => {
+  assertEquals(
+    getDefaultActiveThemePath("/home/user/.config/alacritty/alacritty.toml"),
+    "/home/user/.config/alacritty/active-theme.toml",
+  );
+});
+
+Deno.test("getArgs: list command with output options", () => {
+  const args = getArgs(
+    ["list", "monokai", "--brightness", "dark", "--json"],
+    "/home/user",
+    "linux",
+  );
+
+  assertEquals(args.command, "list");
+  assertEquals(args.brightness, "dark");
+  assertEquals(getCommandQuery(args._), "monokai");
+  assertEquals(getOutputFormat(args), { type: "json" });
+});
+
+Deno.test("getOutputFormat: template and plain output", () => {
+  assertEquals(
+    getOutputFormat(getArgs(["list", "--format", "{label}"], "/h", "linux")),
+    { type: "template", template: "{label}" },
+  );
+  assertEquals(
+    getOutputFormat(getArgs(["list", "--plain"], "/h", "linux")),
+    { type: "plain" },
+  );
+  assertEquals(
+    getOutputFormat(getArgs(["list"], "/h", "linux")),
+    { type: "table" },
+  );
+});
+
+Deno.test("parseBrightnessOption: accepts light and dark only", () => {
+  assertEquals(parseBrightnessOption(undefined)._unsafeUnwrap(), undefined);
+  assertEquals(parseBrightnessOption("light")._unsafeUnwrap(), "light");
+  assertEquals(
+    parseBrightnessOption("dim")._unsafeUnwrapErr()._tag,
+    "InvalidOptionError",
+  );
+});
+
+Deno.test("parseCountOption: accepts non-negative integers only", () => {
+  assertEquals(
+    parseCountOption("avoid-recent", undefined)._unsafeUnwrap(),
+    undefined,
+  );
+  assertEquals(parseCountOption("avoid-recent", "3")._unsafeUnwrap(), 3);
+  assertEquals(
+    parseCountOption("avoid-recent", "-1")._unsafeUnwrapErr().option,
+    "avoid-recent",
+  );
+});
+
+Deno.test("parseBackupRetention: keeps at least one snapshot", () => {
+  const parse = (cliArgs: string[]) =>
+    parseBackupRetention(getArgs(cliArgs, "/home/user", "linux"));
+
+  assertEquals(parse(["--keep-backups", "1"])._unsafeUnwrap().maxCount, 1);
+  assertEquals(
+    parse(["--keep-backups", "0"])._unsafeUnwrapErr().option,
+    "keep-backups",
+  );
+});
+
+Deno.test("getArgs: parses random options", () => {
+  const args = getArgs(
+    ["random", "--favorites", "--avoid-recent", "3", "--seed", "42"],
+    "/home/test",
+    "linux",
+  );
+  assertEquals(args.command, "random");
+  assertEquals(args.favorites, true);
+  assertEquals(args["avoid-recent"], "3");
+  assertEquals(args.seed, "42");
+  assertEquals(args.state, "/home/test/.config/alacritty/ats-state.toml");
+});
+
+Deno.test("getArgs: flags override settings, which override defaults", () => {
+  const args = getArgs(
+    ["--themes", "/flag/themes", "--no-symlink"],
+    "/home/user",
+    "linux",
+    { themes: "/settings/themes", ref: "main", symlink: true },
+  );
+  assertEquals(args.themes, "/flag/themes");
+  assertEquals(args.ref, "main");
+  assertEquals(args.symlink, false);
+  assertEquals(args.config, "/home/user/.config/alacritty/alacritty.toml");
+});
+
+async function createPreviewManager(env: TestEnvironment) {
+  await createTestThemes(env.themesDir, ["theme1", "theme2", "theme3"]);
+  await writeTestConfig(
+    env.configPath,
+    createBasicConfig([`${env.themesDir}/theme1.toml`]),
+  );
+  const result = await createThemeManager({
+    configPath: env.configPath,
+    themesDirPath: env.themesDir,
+    backupPath: env.backupPath,
+  });
+  return result._unsafeUnwrap();
+}
+
+Deno.test("createLivePreview: previews the last highlighted theme", async () => {
+  await using env = await createTestEnvironment();
+  const manager = await createPreviewManager(env);
+  const [theme1, theme2, theme3] = manager.listThemes()
+    .sort((a, b) => a.label.localeCompare(b.label));
+
+  const previewed: string[] = [];
+  const previewTheme = manager.previewTheme.bind(manager);
+  manager.previewTheme = (theme) => {
+    previewed.push(theme.label);
+    return previewTheme(theme);
+  };
+
+  const livePreview = createLivePreview(
+    manager,
+    manager.listThemes(),
+    theme1.path,
+  );
+  livePreview.highlight(theme1.path);
+  livePreview.highlight(theme2.path);
+  livePreview.highlight(theme3.path);
+  livePreview.highlight(theme3.path);
+  await livePreview.settled();
+
+  // Theme2 was already being previewed when Theme3 was highlighted
+  assertEquals(previewed, ["Theme2", "Theme3"]);
+  assert((await Deno.readTextFile(env.configPath)).includes(theme3.path));
+});
+
+Deno.test("createLivePreview: keeps the error of a failed preview", async () => {
+  await using env = await createTestEnvironment();
+  const manager = await createPreviewManager(env);
+  const theme2 = manager.listThemes().find((t) => t.label === "Theme2");
+  if (!theme2) throw new Error("Theme not found");
+
+  // The config can't be written once it's a directory
+  await Deno.remove(env.configPath);
+  await Deno.mkdir(env.configPath);
+
+  const livePreview = createLivePreview(manager, manager.listThemes());
+  livePreview.highlight(theme2.path);
+  await livePreview.settled();
+
+  assert(livePreview.getError(theme2.path) !== undefined);
+});
@@ -0,0 +1,76 @@
+/**
+ * Unit tests for parsing and formatting colors.
+ */
+
+import { assertEquals } from "@std/assert";
+import {
+  calculateLuminance,
+  formatColor,
+  isCellReference,
+  isRgbColor,
+  parseColor,
+  parseRgb,
+  rgbTo256,
+} from "../../src/utils/colors.ts";
+
+Deno.test("parseColor: parses every notation Alacritty accepts", () => {
+  assertEquals(parseColor("#1e2127"), {
+    type: "rgb",
+    rgb: [30, 33, 39],
+    notation: "#rrggbb",
+  });
+  assertEquals(parseColor("0x1E2127"), {
+    type: "rgb",
+    rgb: [30, 33, 39],
+    notation: "0xrrggbb",
+  });
+  assertEquals(parseColor("#fA0"), {
+    type: "rgb",
+    rgb: [255, 170, 0],
+    notation: "#rgb",
+  });
+  assertEquals(parseColor("CellBackground"), {
+    type: "cell",
+    reference: "CellBackground",
+  });
+});
+
+Deno.test("parseColor: rejects anything else", () => {
+  assertEquals(parseColor("1e2127"), null);
+  assertEquals(parseColor("#12345"), null);
+  assertEquals(parseColor("0xfff"), null);
+  assertEquals(parseColor("#gggggg"), null);
+  assertEquals(parseColor("cellbackground"), null);
+});
+
+Deno.test("parseRgb: has no components for cell references", () => {
+  assertEquals(parseRgb("0xffffff"), [255, 255, 255]);
+  assertEquals(parseRgb("CellForeground"), null);
+});
+
+Deno.test("formatColor: formats #rrggbb colors", () => {
+  assertEquals(formatColor([30, 33, 39]), "#1e2127");
+  assertEquals(formatColor([255, 255, 255]), "#ffffff");
+  assertEquals(formatColor([300, -5, 127.6]), "#ff0080");
+});
+
+Deno.test("isRgbColor and isCellReference: tell colors apart", () => {
+  assertEquals(isRgbColor("0x1e2127"), true);
+  assertEquals(isRgbColor("CellForeground"), false);
+  assertEquals(isRgbColor(0x1e2127), false);
+  assertEquals(isCellReference("CellForeground"), true);
+  assertEquals(isCellReference("#000000"), false);
+});
+
+Deno.test("calculateLuminance: ranges from black to white", () => {
+  assertEquals(calculateLuminance([0, 0, 0]), 0);
+  assertEquals(Math.round(calculateLuminance([255, 255, 255]) * 1000), 1000);
+  assertEquals(calculateLuminance([30, 33, 39]) < 0.05, true);
+});
+
+Deno.test("rgbTo256: finds the nearest cube or grayscale color", () => {
+  assertEquals(rgbTo256(255, 0, 0), 196);
+  assertEquals(rgbTo256(0, 0, 0), 16);
+  assertEquals(rgbTo256(128, 128, 128), 244);
+  assertEquals(rgbTo256(39, 40, 34), 235);
+});
@@ -0,0 +1,65 @@
+/**
+ * Unit tests for the Alacritty configuration file discovery.
+ */
+
+import { assertEquals } from "@std/assert";
+import {
+  discoverConfig,
+  getConfigCandidates,
+} from "../../src/config-discovery.ts";
+import { createTestEnvironment } from "../utils/test-setup.ts";
+
+Deno.test("getConfigCandidates: follows Alacritty's search order", () => {
+  assertEquals(
+    getConfigCandidates("/home/user", "linux", { XDG_CONFIG_HOME: "/xdg" }),
+    [
+      "/xdg/alacritty/alacritty.toml",
+      "/xdg/alacritty.toml",
+      "/home/user/.config/alacritty/alacritty.toml",
+      "/home/user/.alacritty.toml",
+      "/etc/alacritty/alacritty.toml",
+    ],
+  );
+});
+
+Deno.test("getConfigCandidates: skips duplicates without XDG_CONFIG_HOME", () => {
+  assertEquals(getConfigCandidates("/home/user", "linux", {}), [
+    "/home/user/.config/alacritty/alacritty.toml",
+    "/home/user/.config/alacritty.toml",
+    "/home/user/.alacritty.toml",
+    "/etc/alacritty/alacritty.toml",
+  ]);
+});
+
+Deno.test("discoverConfig: picks the first existing file", async () => {
+  await using env = await createTestEnvironment();
+  const candidates = [
+    `${env.tempDir}/missing.toml`,
+    `${env.tempDir}/themes`,
+    `${env.tempDir}/second.toml`,
+    `${env.tempDir}/third.toml`,
+  ];
+  await Deno.writeTextFile(candidates[2], "");
+  await Deno.writeTextFile(candidates[3], "");
+
+  const result = await discoverConfig(candidates);
+
+  assertEquals(result._unsafeUnwrap(), {
+    path: candidates[2],
+    exists: true,
+    candidates,
+  });
+});
+
+Deno.test("discoverConfig: falls back to the first candidate", async () => {
+  await using env = await createTestEnvironment();
+  const candidates = [`${env.tempDir}/a.toml`, `${env.tempDir}/b.toml`];
+
+  const result = await discoverConfig(candidates);
+
+  assertEquals(result._unsafeUnwrap(), {
+    path: candidates[0],
+    exists: false,
+    candidates,
+  });
+});
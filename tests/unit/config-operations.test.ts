@@ -2,7 +2,8 @@ import { assertEquals } from "@std/assert";
 import {
   createBackup,
   parseConfig,
-  writeConfigToFile,
+  restoreBackup,
+  writeConfigImports,
 } from "../../src/theme-manager/config-operations.ts";
 import type { Config } from "../../src/types.ts";
 import {
@@ -61,31 +62,109 @@ Deno.test("createBackup: fails when source file doesn't exist", async () => {
   }
 });
 
-Deno.test("writeConfigToFile: successfully writes config", async () => {
+Deno.test("writeConfigImports: changes only the import array", async () => {
   await using env = await createTestEnvironment();
 
-  const config = createBasicConfig(["theme1.toml"]);
-  const result = await writeConfigToFile(env.configPath, config);
+  const content = "# Managed by dotfiles\n" +
+    "[window]\n" +
+    "opacity = 0.9 # translucent\n" +
+    "\n" +
+    "[general]\n" +
+    'import = ["theme1.toml"]\n';
+  await Deno.writeTextFile(env.configPath, content);
+
+  const result = await writeConfigImports(env.configPath, ["theme2.toml"]);
+
+  assertEquals(result.isOk(), true);
+  assertEquals(
+    await Deno.readTextFile(env.configPath),
+    content.replace("theme1.toml", "theme2.toml"),
+  );
+});
+
+Deno.test("writeConfigImports: fails when file doesn't exist", async () => {
+  await using env = await createTestEnvironment();
+
+  const result = await writeConfigImports(
+    `${env.tempDir}/nonexistent.toml`,
+    ["theme1.toml"],
+  );
+
+  assertEquals(result.isErr(), true);
+  if (result.isErr()) {
+    assertEquals(result.error._tag, "FileNotReadableError");
+  }
+});
+
+Deno.test("restoreBackup: swaps config and backup, so restoring again redoes", async () => {
+  await using env = await createTestEnvironment();
+
+  await Deno.writeTextFile(env.configPath, 'import = ["new.toml"]\n');
+  await Deno.writeTextFile(env.backupPath, 'import = ["old.toml"]\n');
+
+  const result = await restoreBackup(env.configPath, env.backupPath);
+
+  assertEquals(result.isOk(), true);
+  assertEquals(
+    await Deno.readTextFile(env.configPath),
+    'import = ["old.toml"]\n',
+  );
+  assertEquals(
+    await Deno.readTextFile(env.backupPath),
+    'import = ["new.toml"]\n',
+  );
+
+  await restoreBackup(env.configPath, env.backupPath);
+  assertEquals(
+    await Deno.readTextFile(env.configPath),
+    'import = ["new.toml"]\n',
+  );
+});
+
+Deno.test("restoreBackup: keeps a symlinked config a symlink", async () => {
+  await using env = await createTestEnvironment();
+
+  const targetPath = `${env.tempDir}/dotfiles.toml`;
+  await Deno.writeTextFile(targetPath, 'import = ["new.toml"]\n');
+  await Deno.symlink(targetPath, env.configPath);
+  await Deno.writeTextFile(env.backupPath, 'import = ["old.toml"]\n');
+
+  const result = await restoreBackup(env.configPath, env.backupPath);
 
   assertEquals(result.isOk(), true);
-  await assertFileExists(env.configPath);
+  assertEquals((await Deno.lstat(env.configPath)).isSymlink, true);
+  assertEquals(await Deno.readTextFile(targetPath), 'import = ["old.toml"]\n');
+});
 
-  // Verify content was written correctly
-  const content = await Deno.readTextFile(env.configPath);
-  assertEquals(content.includes("theme1.toml"), true);
+Deno.test("restoreBackup: fails when backup doesn't exist", async () => {
+  await using env = await createTestEnvironment();
+
+  await writeTestConfig(env.configPath, createBasicConfig());
+
+  const result = await restoreBackup(env.configPath, env.backupPath);
+
+  assertEquals(result.isErr(), true);
+  if (result.isErr()) {
+    assertEquals(result.error._tag, "NoBackupFoundError");
+  }
 });
 
-Deno.test("writeConfigToFile: fails with invalid path", async () => {
+Deno.test("restoreBackup: leaves files untouched when backup isn't TOML", async () => {
   await using env = await createTestEnvironment();
-  const invalidPath = `${env.tempDir}/nonexistent/config.toml`;
 
-  const config = createBasicConfig();
-  const result = await writeConfigToFile(invalidPath, config);
+  await Deno.writeTextFile(env.configPath, 'import = ["new.toml"]\n');
+  await Deno.writeTextFile(env.backupPath, "import = [");
+
+  const result = await restoreBackup(env.configPath, env.backupPath);
 
   assertEquals(result.isErr(), true);
   if (result.isErr()) {
-    assertEquals(result.error._tag, "WriteError");
+    assertEquals(result.error._tag, "InvalidBackupError");
   }
+  assertEquals(
+    await Deno.readTextFile(env.configPath),
+    'import = ["new.toml"]\n',
+  );
 });
 
 Deno.test("parseConfig: successfully parses valid TOML config", async () => {
@@ -0,0 +1,34 @@
+/**
+ * Unit tests for the current command.
+ */
+
+import { assertEquals } from "@std/assert";
+import { formatCurrentTheme } from "../../src/commands/current-theme.ts";
+import type { ThemeRecord } from "../../src/commands/list-themes.ts";
+
+const record: ThemeRecord = {
+  label: "Monokai Pro",
+  path: "monokai_pro.toml",
+  absolutePath: "/themes/monokai_pro.toml",
+  brightness: "dark",
+  confidence: 0.8,
+  active: true,
+};
+
+Deno.test("formatCurrentTheme: prints label by default", () => {
+  assertEquals(formatCurrentTheme(record, { type: "table" }), "Monokai Pro");
+});
+
+Deno.test("formatCurrentTheme: prints template fields", () => {
+  assertEquals(
+    formatCurrentTheme(record, { type: "template", template: "{brightness}" }),
+    "dark",
+  );
+});
+
+Deno.test("formatCurrentTheme: prints a single JSON object", () => {
+  assertEquals(
+    JSON.parse(formatCurrentTheme(record, { type: "json" })),
+    record,
+  );
+});
@@ -0,0 +1,94 @@
+/**
+ * Unit tests for the next and prev commands.
+ */
+
+import { assertEquals } from "@std/assert";
+import {
+  cycleThemeCommand,
+  getAdjacentTheme,
+} from "../../src/commands/cycle-theme.ts";
+import { createThemeManager } from "../../src/theme-manager/theme-manager.ts";
+import { Theme } from "../../src/theme-manager/theme.ts";
+import {
+  assertFileExists,
+  createBasicConfig,
+  createTestEnvironment,
+  createTestThemes,
+  writeTestConfig,
+  writeTestTheme,
+} from "../utils/test-setup.ts";
+
+function createThemes(activeIndex: number) {
+  return ["a.toml", "b.toml", "c.toml"].map((path, index) =>
+    new Theme(path, {}, index === activeIndex)
+  );
+}
+
+Deno.test("getAdjacentTheme: steps forward and backward", () => {
+  assertEquals(getAdjacentTheme(createThemes(1), "next")?.path, "c.toml");
+  assertEquals(getAdjacentTheme(createThemes(1), "prev")?.path, "a.toml");
+});
+
+Deno.test("getAdjacentTheme: wraps around at the ends", () => {
+  assertEquals(getAdjacentTheme(createThemes(2), "next")?.path, "a.toml");
+  assertEquals(getAdjacentTheme(createThemes(0), "prev")?.path, "c.toml");
+});
+
+Deno.test("getAdjacentTheme: starts at the ends without an active theme", () => {
+  assertEquals(getAdjacentTheme(createThemes(-1), "next")?.path, "a.toml");
+  assertEquals(getAdjacentTheme(createThemes(-1), "prev")?.path, "c.toml");
+  assertEquals(getAdjacentTheme([], "next"), undefined);
+});
+
+Deno.test("cycleThemeCommand: applies next theme within brightness", async () => {
+  await using env = await createTestEnvironment();
+
+  await createTestThemes(env.themesDir, ["dark1", "dark2"]);
+  await writeTestTheme(`${env.themesDir}/light1.toml`, {
+    colors: { primary: { background: "#ffffff" } },
+  });
+  await writeTestConfig(
+    env.configPath,
+    createBasicConfig([`${env.themesDir}/dark2.toml`]),
+  );
+
+  const managerResult = await createThemeManager({
+    configPath: env.configPath,
+    themesDirPath: env.themesDir,
+    backupPath: env.backupPath,
+  });
+  if (!managerResult.isOk()) throw new Error("Failed to create manager");
+
+  const result = await cycleThemeCommand(managerResult.value, {
+    direction: "next",
+    brightness: "dark",
+  });
+
+  assertEquals(result.isOk(), true);
+  if (!result.isOk()) throw new Error("Failed to cycle theme");
+  assertEquals(result.value.label, "Dark1");
+  await assertFileExists(env.backupPath);
+});
+
+Deno.test("cycleThemeCommand: fails when no theme matches", async () => {
+  await using env = await createTestEnvironment();
+
+  await createTestThemes(env.themesDir, ["dark1"]);
+  await writeTestConfig(env.configPath, createBasicConfig());
+
+  const managerResult = await createThemeManager({
+    configPath: env.configPath,
+    themesDirPath: env.themesDir,
+    backupPath: env.backupPath,
+  });
+  if (!managerResult.isOk()) throw new Error("Failed to create manager");
+
+  const result = await cycleThemeCommand(managerResult.value, {
+    direction: "prev",
+    query: "solarized",
+  });
+
+  assertEquals(result.isErr(), true);
+  if (!result.isErr()) throw new Error("Expected error");
+  assertEquals(result.error._tag, "NoMatchingThemesError");
+});
@@ -0,0 +1,196 @@
+/**
+ * Unit tests for the doctor command.
+ */
+
+import { assertEquals } from "@std/assert";
+import {
+  doctorCommand,
+  type DoctorOptions,
+  type Finding,
+} from "../../src/commands/doctor.ts";
+import {
+  createBasicConfig,
+  createTestEnvironment,
+  createTestThemes,
+  type TestEnvironment,
+  writeTestConfig,
+  writeTestTheme,
+} from "../utils/test-setup.ts";
+
+function createOptions(env: TestEnvironment): DoctorOptions {
+  return {
+    configPath: env.configPath,
+    configDiscovery: {
+      path: env.configPath,
+      exists: true,
+      candidates: [env.configPath],
+    },
+    themesDirPath: env.themesDir,
+    backupPath: env.backupPath,
+    homeDir: env.tempDir,
+  };
+}
+
+function severities(findings: Finding[]): Record<string, string[]> {
+  const result: Record<string, string[]> = {};
+  for (const finding of findings) {
+    (result[finding.check] ??= []).push(finding.severity);
+  }
+  return result;
+}
+
+Deno.test("doctor: reports a healthy setup", async () => {
+  await using env = await createTestEnvironment();
+  await createTestThemes(env.themesDir, ["dark1", "dark2"]);
+  await writeTestConfig(
+    env.configPath,
+    createBasicConfig([`${env.themesDir}/dark1.toml`]),
+  );
+
+  const findings = (await doctorCommand(createOptions(env)))._unsafeUnwrap();
+
+  assertEquals(severities(findings), {
+    "config-path": ["ok"],
+    "config-parse": ["ok"],
+    "general-import": ["ok"],
+    themes: ["ok"],
+    "themes-dir-writable": ["ok"],
+    "backup-writable": ["ok"],
+  });
+});
+
+Deno.test("doctor: reports inline colors, several themes and missing imports", async () => {
+  await using env = await createTestEnvironment();
+  await createTestThemes(env.themesDir, ["dark1", "dark2"]);
+  await writeTestConfig(env.configPath, {
+    ...createBasicConfig([
+      `${env.themesDir}/dark1.toml`,
+      `${env.themesDir}/dark2.toml`,
+      "missing.toml",
+    ]),
+    colors: { primary: { background: "#000000" } },
+  });
+
+  const findings = (await doctorCommand(createOptions(env)))._unsafeUnwrap();
+  const result = severities(findings);
+
+  assertEquals(result["multiple-themes"], ["error"]);
+  assertEquals(result["inline-colors"], ["warning"]);
+  assertEquals(result["missing-import"], ["error"]);
+});
+
+Deno.test("doctor: resolves imports written with ~ or relative paths", async () => {
+  await using env = await createTestEnvironment();
+  await createTestThemes(env.themesDir, ["dark1", "dark2"]);
+  const activeThemePath = `${env.tempDir}/active-theme.toml`;
+  await Deno.writeTextFile(activeThemePath, "");
+
+  for (
+    const activeThemeImport of ["~/active-theme.toml", "active-theme.toml"]
+  ) {
+    await writeTestConfig(
+      env.configPath,
+      createBasicConfig([
+        activeThemeImport,
+        "~/themes/dark1.toml",
+        "./themes/dark2.toml",
+      ]),
+    );
+
+    const findings = (await doctorCommand({
+      ...createOptions(env),
+      activeThemePath,
+    }))._unsafeUnwrap();
+    const result = severities(findings);
+
+    assertEquals(result["general-import"], ["ok"]);
+    assertEquals(result["multiple-themes"], ["error"]);
+  }
+});
+
+Deno.test("doctor: reports a config that isn't valid TOML", async () => {
+  await using env = await createTestEnvironment();
+  await createTestThemes(env.themesDir, ["dark1"]);
+  await Deno.writeTextFile(env.configPath, "[general\nimport = [");
+
+  const findings = (await doctorCommand(createOptions(env)))._unsafeUnwrap();
+
+  assertEquals(severities(findings)["config-parse"], ["error"]);
+});
+
+Deno.test("doctor: reports broken theme files", async () => {
+  await using env = await createTestEnvironment();
+  await createTestThemes(env.themesDir, ["dark1"]);
+  await Deno.writeTextFile(`${env.themesDir}/broken.toml`, "[colors");
+  await writeTestConfig(env.configPath, createBasicConfig());
+
+  const findings = (await doctorCommand(createOptions(env)))._unsafeUnwrap();
+  const themeFindings = findings.filter((finding) =>
+    finding.check === "themes"
+  );
+
+  assertEquals(themeFindings.map((finding) => finding.severity), [
+    "ok",
+    "error",
+  ]);
+  assertEquals(themeFindings[1].message.includes("broken.toml"), true);
+});
+
+Deno.test("doctor: warns about invalid theme colors", async () => {
+  await using env = await createTestEnvironment();
+  await writeTestTheme(`${env.themesDir}/typo.toml`, {
+    colors: { primary: { backgroud: "#000000", foreground: "white" } },
+  });
+  await writeTestConfig(env.configPath, createBasicConfig());
+
+  const findings = (await doctorCommand(createOptions(env)))._unsafeUnwrap();
+  const themeFindings = findings.filter((finding) =>
+    finding.check === "themes"
+  );
+
+  assertEquals(themeFindings.map((finding) => finding.severity), [
+    "ok",
+    "warning",
+  ]);
+  const message = themeFindings[1].message;
+  assertEquals(message.includes("colors.primary.backgroud"), true);
+  assertEquals(message.includes("colors.primary.foreground"), true);
+});
+
+Deno.test("doctor: warns when Alacritty reads a different config", async () => {
+  await using env = await createTestEnvironment();
+  await createTestThemes(env.themesDir, ["dark1"]);
+  await writeTestConfig(env.configPath, createBasicConfig());
+
+  const alacrittyConfigPath = `${env.tempDir}/.alacritty.toml`;
+  const findings = (await doctorCommand({
+    ...createOptions(env),
+    configDiscovery: {
+      path: alacrittyConfigPath,
+      exists: true,
+      candidates: [alacrittyConfigPath],
+    },
+  }))._unsafeUnwrap();
+
+  assertEquals(severities(findings)["config-path"], ["warning"]);
+});
+
+Deno.test("doctor: doesn't create a missing config", async () => {
+  await using env = await createTestEnvironment();
+  await createTestThemes(env.themesDir, ["dark1"]);
+
+  const findings = (await doctorCommand({
+    ...createOptions(env),
+    configDiscovery: {
+      path: env.configPath,
+      exists: false,
+      candidates: [env.configPath],
+    },
+  }))._unsafeUnwrap();
+
+  assertEquals(severities(findings)["config-path"], ["warning"]);
+  assertEquals(
+    await Deno.stat(env.configPath).then(() => true, () => false),
+    false,
+  );
+});
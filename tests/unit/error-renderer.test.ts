@@ -0,0 +1,109 @@
+import { assert, assertEquals } from "@std/assert";
+import { InvalidOptionError } from "../../src/cli.ts";
+import {
+  EXIT_CODES,
+  getExitCode,
+  renderError,
+} from "../../src/error-renderer.ts";
+import {
+  GitHubApiError,
+  HttpStatusError,
+} from "../../src/theme-manager/github/errors.ts";
+import {
+  BackupError,
+  ThemeNotFoundError,
+} from "../../src/theme-manager/errors.ts";
+import { FileNotFoundError, WriteError } from "../../src/utils/fs-errors.ts";
+import { safeParseTomlContent } from "../../src/utils/toml-utils.ts";
+
+Deno.test("renderError: suggests similar theme names", () => {
+  const output = renderError(
+    new ThemeNotFoundError("monokia.toml", ["monokai.toml"]),
+  );
+
+  assertEquals(
+    output,
+    "Given selected theme monokia.toml does not exist.\n" +
+      "Hint: Did you mean monokai.toml?",
+  );
+});
+
+Deno.test("renderError: points to list when no theme name is similar", () => {
+  const output = renderError(new ThemeNotFoundError("solarized.toml"));
+
+  assert(output.includes("Hint: Run `ats list`"));
+});
+
+Deno.test("renderError: suggests GITHUB_TOKEN for HTTP 403", () => {
+  const url = "https://api.github.com/repos/alacritty/alacritty-theme";
+  const error = new GitHubApiError(url, {
+    cause: new HttpStatusError(url, 403, "rate limit exceeded"),
+  });
+
+  const output = renderError(error);
+
+  assert(output.includes("Reason: HTTP 403: rate limit exceeded"));
+  assert(output.includes("Set GITHUB_TOKEN"));
+  assertEquals(getExitCode(error), EXIT_CODES.network);
+});
+
+Deno.test("renderError: shows the cause chain only when verbose", () => {
+  const error = new BackupError("/config.toml", {
+    cause: new WriteError("/config.bak.toml", {
+      cause: new Deno.errors.PermissionDenied("Permission denied"),
+    }),
+  });
+
+  const output = renderError(error);
+  const verboseOutput = renderError(error, { verbose: true });
+
+  assertEquals(output.includes("Caused by:"), false);
+  assert(output.includes("Reason: Permission denied"));
+  assert(output.includes("Run with --verbose"));
+  assert(
+    verboseOutput.includes(
+      "Caused by: WriteError: Failed to write to /config.bak.toml.",
+    ),
+  );
+  assert(
+    verboseOutput.includes("Caused by: PermissionDenied: Permission denied"),
+  );
+  assertEquals(verboseOutput.includes("Run with --verbose"), false);
+});
+
+Deno.test("renderError: prints TOML parse errors with a code frame", () => {
+  const result = safeParseTomlContent('[colors]\nfoo = "bar\n', "theme.toml");
+  if (result.isOk()) {
+    throw new Error("Expected a parse error");
+  }
+
+  const output = renderError(result.error);
+
+  assert(output.includes("Failed to parse theme.toml:2:"));
+  assert(output.includes('> 2 | foo = "bar'));
+  assertEquals(getExitCode(result.error), EXIT_CODES.config);
+});
+
+Deno.test("getExitCode: maps error categories to exit codes", () => {
+  assertEquals(
+    getExitCode(new InvalidOptionError("brightness", "Expected light.")),
+    EXIT_CODES.usage,
+  );
+  assertEquals(
+    getExitCode(new ThemeNotFoundError("nord.toml")),
+    EXIT_CODES.notFound,
+  );
+  assertEquals(
+    getExitCode(new FileNotFoundError("/config.toml")),
+    EXIT_CODES.filesystem,
+  );
+  assertEquals(getExitCode(new Error("Unexpected")), EXIT_CODES.general);
+});
+
+Deno.test("getExitCode: uses the cause of a theme failing to apply", () => {
+  const error = new ThemeNotFoundError("/themes/nord.toml", [], {
+    cause: new FileNotFoundError("/config.toml"),
+  });
+
+  assertEquals(getExitCode(error), EXIT_CODES.filesystem);
+});
@@ -0,0 +1,72 @@
+/**
+ * Unit tests for the favorites command.
+ */
+
+import { assertEquals } from "@std/assert";
+import {
+  addFavoriteCommand,
+  listFavoritesCommand,
+  removeFavoriteCommand,
+} from "../../src/commands/favorites.ts";
+import { createThemeManager } from "../../src/theme-manager/theme-manager.ts";
+import {
+  createBasicConfig,
+  createTestEnvironment,
+  createTestThemes,
+  writeTestConfig,
+} from "../utils/test-setup.ts";
+
+Deno.test("favorites: adds, lists and removes favorite themes", async () => {
+  await using env = await createTestEnvironment();
+  const statePath = `${env.tempDir}/ats-state.toml`;
+
+  await createTestThemes(env.themesDir, ["dark1", "dark2", "dark3"]);
+  await writeTestConfig(env.configPath, createBasicConfig());
+
+  const managerResult = await createThemeManager({
+    configPath: env.configPath,
+    themesDirPath: env.themesDir,
+    backupPath: env.backupPath,
+  });
+  if (!managerResult.isOk()) throw new Error("Failed to create manager");
+  const manager = managerResult.value;
+
+  const listLabels = async () =>
+    (await listFavoritesCommand(manager, statePath))._unsafeUnwrap()
+      .map((theme) => theme.label);
+
+  assertEquals(await listLabels(), []);
+
+  await addFavoriteCommand(manager, statePath, "dark3.toml");
+  await addFavoriteCommand(manager, statePath, "dark1.toml");
+  await addFavoriteCommand(manager, statePath, "dark1.toml");
+  assertEquals(await listLabels(), ["Dark1", "Dark3"]);
+
+  await removeFavoriteCommand(manager, statePath, "dark3.toml");
+  assertEquals(await listLabels(), ["Dark1"]);
+});
+
+Deno.test("favorites: fails to add an unknown theme", async () => {
+  await using env = await createTestEnvironment();
+  const statePath = `${env.tempDir}/ats-state.toml`;
+
+  await createTestThemes(env.themesDir, ["dark1"]);
+  await writeTestConfig(env.configPath, createBasicConfig());
+
+  const managerResult = await createThemeManager({
+    configPath: env.configPath,
+    themesDirPath: env.themesDir,
+    backupPath: env.backupPath,
+  });
+  if (!managerResult.isOk()) throw new Error("Failed to create manager");
+
+  const result = await addFavoriteCommand(
+    managerResult.value,
+    statePath,
+    "nonexistent.toml",
+  );
+
+  assertEquals(result.isErr(), true);
+  if (!result.isErr()) throw new Error("Expected an error");
+  assertEquals(result.error._tag, "ThemeNotFoundError");
+});
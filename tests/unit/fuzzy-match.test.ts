@@ -0,0 +1,97 @@
+import { assertEquals } from "@std/assert";
+import { Theme } from "../../src/theme-manager/theme.ts";
+import { fuzzyMatch } from "../../src/utils/fuzzy-match.ts";
+import { parseSearchInput, searchThemes } from "../../src/utils/theme-utils.ts";
+
+const darkBackground = { colors: { primary: { background: "#000000" } } };
+const lightBackground = { colors: { primary: { background: "#ffffff" } } };
+
+Deno.test("fuzzyMatch: matches a subsequence ignoring case", () => {
+  assertEquals(fuzzyMatch("MKP", "Monokai Pro")?.positions, [0, 4, 8]);
+});
+
+Deno.test("fuzzyMatch: matches every word of the query", () => {
+  assertEquals(
+    fuzzyMatch("pro mon", "Monokai Pro")?.positions,
+    [0, 1, 2, 8, 9, 10],
+  );
+  assertEquals(fuzzyMatch("pro xyz", "Monokai Pro"), null);
+});
+
+Deno.test("fuzzyMatch: prefers word starts and consecutive characters", () => {
+  assertEquals(fuzzyMatch("od", "One Dark")?.positions, [0, 4]);
+  assertEquals(fuzzyMatch("dark", "Darker Dark")?.positions, [0, 1, 2, 3]);
+  const wordStarts = fuzzyMatch("gd", "Gruvbox Dark")?.score ?? 0;
+  const inner = fuzzyMatch("gd", "Dragged")?.score ?? 0;
+  assertEquals(wordStarts > inner, true);
+});
+
+Deno.test("fuzzyMatch: matches anything with an empty query", () => {
+  assertEquals(fuzzyMatch("  ", "Nord"), { score: 0, positions: [] });
+});
+
+Deno.test("parseSearchInput: takes brightness from is: tokens", () => {
+  assertEquals(parseSearchInput("is:dark monokai"), {
+    brightness: "dark",
+    query: "monokai",
+  });
+  assertEquals(parseSearchInput("IS:LIGHT"), {
+    brightness: "light",
+    query: "",
+  });
+});
+
+Deno.test("parseSearchInput: searches words like dark in names", () => {
+  assertEquals(parseSearchInput("darkside"), { query: "darkside" });
+  assertEquals(parseSearchInput("one dark"), { query: "one dark" });
+});
+
+Deno.test("parseSearchInput: ignores unfinished is: tokens", () => {
+  assertEquals(parseSearchInput("is:da nord"), { query: "nord" });
+});
+
+Deno.test("searchThemes: ranks the best matches first", () => {
+  const themes = [
+    new Theme("/themes/solarized_dark.toml", darkBackground),
+    new Theme("/themes/one_dark.toml", darkBackground),
+    new Theme("/themes/gruvbox.toml", darkBackground),
+  ];
+
+  const results = searchThemes(themes, "od");
+
+  assertEquals(results.map(({ theme }) => theme.label), [
+    "One Dark",
+    "Solarized Dark",
+  ]);
+  assertEquals(results[0].positions, [0, 4]);
+});
+
+Deno.test("searchThemes: filters by brightness tokens", () => {
+  const themes = [
+    new Theme("/themes/dayfox.toml", lightBackground),
+    new Theme("/themes/darkside.toml", darkBackground),
+    new Theme("/themes/nord.toml", darkBackground),
+  ];
+
+  assertEquals(
+    searchThemes(themes, "is:light").map(({ theme }) => theme.label),
+    ["Dayfox"],
+  );
+  assertEquals(
+    searchThemes(themes, "darkside").map(({ theme }) => theme.label),
+    ["Darkside"],
+  );
+});
+
+Deno.test("searchThemes: keeps the usual order without a query", () => {
+  const themes = [
+    new Theme("/themes/dayfox.toml", lightBackground),
+    new Theme("/themes/nord.toml", darkBackground),
+    new Theme("/themes/ayu.toml", darkBackground),
+  ];
+
+  assertEquals(
+    searchThemes(themes, "").map(({ theme }) => theme.label),
+    ["Ayu", "Nord", "Dayfox"],
+  );
+});
@@ -1,7 +1,10 @@
 import { assertEquals, assertExists } from "@std/assert";
 import { stub } from "@std/testing/mock";
 import { createGitHubClient } from "../../src/theme-manager/github/client.ts";
-import { InvalidRepositoryUrlError } from "../../src/theme-manager/github/errors.ts";
+import {
+  HttpStatusError,
+  InvalidRepositoryUrlError,
+} from "../../src/theme-manager/github/errors.ts";
 import type { Theme } from "../../src/theme-manager/theme.ts";
 
 // Mock GitHub API responses
@@ -148,6 +151,84 @@ Deno.test("GitHubClient: listThemes should return themes from repository", async
   }
 });
 
+Deno.test("GitHubClient: listThemes should send the token in the Authorization header", async () => {
+  const originalFetch = globalThis.fetch;
+  const requests: (RequestInit | undefined)[] = [];
+
+  const fetchStub = stub(
+    globalThis,
+    "fetch",
+    (_input: string | URL | Request, init?: RequestInit) => {
+      requests.push(init);
+      return Promise.resolve(
+        new Response(JSON.stringify(mockTreeResponse), {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        }),
+      );
+    },
+  );
+
+  try {
+    const clientResult = createGitHubClient(
+      "https://github.com/alacritty/alacritty-theme",
+      "master",
+      "secret-token",
+    );
+
+    if (!clientResult.isOk()) {
+      throw new Error("Failed to create client");
+    }
+
+    const result = await clientResult.value.listThemes();
+
+    assertEquals(result.isOk(), true);
+    assertEquals(requests.length, 1);
+    const headers = requests[0]?.headers as Record<string, string>;
+    assertEquals(headers["Authorization"], "Bearer secret-token");
+    assertEquals(headers["Accept"], "application/vnd.github.v3+json");
+  } finally {
+    fetchStub.restore();
+    globalThis.fetch = originalFetch;
+  }
+});
+
+Deno.test("GitHubClient: listThemes should report the HTTP status of errors", async () => {
+  const originalFetch = globalThis.fetch;
+
+  const fetchStub = stub(
+    globalThis,
+    "fetch",
+    (_input: string | URL | Request, _init?: RequestInit) => {
+      return Promise.resolve(
+        new Response("Forbidden", { status: 403, statusText: "Forbidden" }),
+      );
+    },
+  );
+
+  try {
+    const clientResult = createGitHubClient(
+      "https://github.com/alacritty/alacritty-theme",
+    );
+
+    if (!clientResult.isOk()) {
+      throw new Error("Failed to create client");
+    }
+
+    const result = await clientResult.value.listThemes();
+
+    assertEquals(result.isErr(), true);
+    if (result.isErr()) {
+      const cause = result.error.cause;
+      assertEquals(cause instanceof HttpStatusError, true);
+      assertEquals((cause as HttpStatusError).status, 403);
+    }
+  } finally {
+    fetchStub.restore();
+    globalThis.fetch = originalFetch;
+  }
+});
+
 Deno.test("GitHubClient: downloadTheme should download a single theme", async () => {
   const originalFetch = globalThis.fetch;
   const tempDir = await Deno.makeTempDir();
@@ -0,0 +1,90 @@
+/**
+ * Unit tests for the init command.
+ */
+
+import { assertEquals } from "@std/assert";
+import { initCommand } from "../../src/commands/init.ts";
+import {
+  assertFileExists,
+  createBasicConfig,
+  createTestEnvironment,
+  createTestThemes,
+  readTestToml,
+  writeTestConfig,
+} from "../utils/test-setup.ts";
+
+Deno.test("initCommand: moves imported theme to the active theme file", async () => {
+  await using env = await createTestEnvironment();
+  const activeThemePath = `${env.tempDir}/active-theme.toml`;
+  const themePath = `${env.themesDir}/theme1.toml`;
+
+  await createTestThemes(env.themesDir, ["theme1", "theme2"]);
+  await writeTestConfig(
+    env.configPath,
+    createBasicConfig(["base.toml", themePath]),
+  );
+
+  const result = await initCommand({
+    configPath: env.configPath,
+    themesDirPath: env.themesDir,
+    backupPath: env.backupPath,
+    activeThemePath,
+    activeThemeMode: "copy",
+  });
+
+  assertEquals(result.isOk(), true);
+  if (!result.isOk()) throw new Error("Failed to init");
+  assertEquals(result.value.alreadyInitialized, false);
+  assertEquals(result.value.migratedTheme?.path, themePath);
+
+  const config = await readTestToml(env.configPath) as {
+    general: { import: string[] };
+  };
+  assertEquals(config.general.import, ["base.toml", activeThemePath]);
+  assertEquals(
+    await Deno.readTextFile(activeThemePath),
+    await Deno.readTextFile(themePath),
+  );
+  await assertFileExists(env.backupPath);
+});
+
+Deno.test("initCommand: creates empty active theme file when no theme is imported", async () => {
+  await using env = await createTestEnvironment();
+  const activeThemePath = `${env.tempDir}/active-theme.toml`;
+
+  await createTestThemes(env.themesDir, ["theme1"]);
+  await writeTestConfig(env.configPath, createBasicConfig());
+
+  const result = await initCommand({
+    configPath: env.configPath,
+    themesDirPath: env.themesDir,
+    backupPath: env.backupPath,
+    activeThemePath,
+    activeThemeMode: "copy",
+  });
+
+  assertEquals(result.isOk(), true);
+  assertEquals(await Deno.readTextFile(activeThemePath), "");
+});
+
+Deno.test("initCommand: does nothing when already initialized", async () => {
+  await using env = await createTestEnvironment();
+  const activeThemePath = `${env.tempDir}/active-theme.toml`;
+
+  await createTestThemes(env.themesDir, ["theme1"]);
+  await writeTestConfig(env.configPath, createBasicConfig([activeThemePath]));
+  const originalContent = await Deno.readTextFile(env.configPath);
+
+  const result = await initCommand({
+    configPath: env.configPath,
+    themesDirPath: env.themesDir,
+    backupPath: env.backupPath,
+    activeThemePath,
+    activeThemeMode: "copy",
+  });
+
+  assertEquals(result.isOk(), true);
+  if (!result.isOk()) throw new Error("Failed to init");
+  assertEquals(result.value.alreadyInitialized, true);
+  assertEquals(await Deno.readTextFile(env.configPath), originalContent);
+});
@@ -0,0 +1,149 @@
+/**
+ * Unit tests for the list command.
+ */
+
+import { assertEquals } from "@std/assert";
+import {
+  formatTemplate,
+  formatThemeRecords,
+  listThemesCommand,
+  type ThemeRecord,
+  toThemeRecord,
+} from "../../src/commands/list-themes.ts";
+import { createThemeManager } from "../../src/theme-manager/theme-manager.ts";
+import {
+  createBasicConfig,
+  createTestEnvironment,
+  createTestThemes,
+  writeTestConfig,
+  writeTestTheme,
+} from "../utils/test-setup.ts";
+
+const records: ThemeRecord[] = [
+  {
+    label: "Monokai Pro",
+    path: "monokai_pro.toml",
+    absolutePath: "/themes/monokai_pro.toml",
+    brightness: "dark",
+    confidence: 0.8,
+    active: true,
+  },
+  {
+    label: "Solarized Light",
+    path: "light/solarized_light.toml",
+    absolutePath: "/themes/light/solarized_light.toml",
+    brightness: "light",
+    confidence: 0.6,
+    active: false,
+  },
+];
+
+Deno.test("listThemesCommand: filters by brightness and query and sorts dark first", async () => {
+  await using env = await createTestEnvironment();
+
+  await writeTestConfig(env.configPath, createBasicConfig());
+  await createTestThemes(env.themesDir, ["theme10", "theme2", "other"]);
+  await writeTestTheme(`${env.themesDir}/theme_light.toml`, {
+    colors: { primary: { background: "#ffffff" } },
+  });
+
+  const result = await createThemeManager({
+    configPath: env.configPath,
+    themesDirPath: env.themesDir,
+    backupPath: env.backupPath,
+  });
+  if (!result.isOk()) throw new Error("Failed to create theme manager");
+
+  const all = listThemesCommand(result.value, { query: "theme" });
+  assertEquals(all.map((theme) => theme.label), [
+    "Theme2",
+    "Theme10",
+    "Theme Light",
+  ]);
+
+  const light = listThemesCommand(result.value, { brightness: "light" });
+  assertEquals(light.map((theme) => theme.label), ["Theme Light"]);
+});
+
+Deno.test("listThemesCommand: lists themes of unknown brightness last", async () => {
+  await using env = await createTestEnvironment();
+
+  await writeTestConfig(env.configPath, createBasicConfig());
+  await createTestThemes(env.themesDir, ["dark"]);
+  await writeTestTheme(`${env.themesDir}/blank.toml`, {});
+  await writeTestTheme(`${env.themesDir}/light.toml`, {
+    colors: { primary: { background: "#ffffff", foreground: "#000000" } },
+  });
+
+  const result = await createThemeManager({
+    configPath: env.configPath,
+    themesDirPath: env.themesDir,
+    backupPath: env.backupPath,
+  });
+  if (!result.isOk()) throw new Error("Failed to create theme manager");
+
+  const themes = listThemesCommand(result.value, {});
+  assertEquals(
+    themes.map((theme) => [theme.label, theme.brightness]),
+    [["Dark", "dark"], ["Light", "light"], ["Blank", "unknown"]],
+  );
+  assertEquals(
+    listThemesCommand(result.value, { brightness: "dark" }).length,
+    1,
+  );
+});
+
+Deno.test("toThemeRecord: uses path relative to themes directory", async () => {
+  await using env = await createTestEnvironment();
+
+  await writeTestConfig(env.configPath, createBasicConfig());
+  await createTestThemes(env.themesDir, ["theme1"]);
+
+  const result = await createThemeManager({
+    configPath: env.configPath,
+    themesDirPath: env.themesDir,
+    backupPath: env.backupPath,
+  });
+  if (!result.isOk()) throw new Error("Failed to create theme manager");
+
+  const [theme] = result.value.listThemes();
+  assertEquals(toThemeRecord(theme, env.themesDir), {
+    label: "Theme1",
+    path: "theme1.toml",
+    absolutePath: `${env.themesDir}/theme1.toml`,
+    brightness: "dark",
+    confidence: 0.97,
+    active: false,
+  });
+});
+
+Deno.test("formatThemeRecords: table output", () => {
+  assertEquals(
+    formatThemeRecords(records, { type: "table" }),
+    "LABEL            PATH                        BRIGHTNESS  ACTIVE\n" +
+      "Monokai Pro      monokai_pro.toml            dark        *\n" +
+      "Solarized Light  light/solarized_light.toml  light",
+  );
+});
+
+Deno.test("formatThemeRecords: plain output", () => {
+  assertEquals(
+    formatThemeRecords(records, { type: "plain" }),
+    "Monokai Pro\tmonokai_pro.toml\tdark\t*\n" +
+      "Solarized Light\tlight/solarized_light.toml\tlight\t",
+  );
+});
+
+Deno.test("formatThemeRecords: JSON output", () => {
+  assertEquals(
+    JSON.parse(formatThemeRecords(records, { type: "json" })),
+    records,
+  );
+});
+
+Deno.test("formatTemplate: fills in fields and expands escapes", () => {
+  assertEquals(
+    formatTemplate("{label}\\t{brightness} {active} {unknown}", records[0]),
+    "Monokai Pro\tdark true {unknown}",
+  );
+});
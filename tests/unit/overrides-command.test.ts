@@ -0,0 +1,164 @@
+/**
+ * Unit tests for the overrides command.
+ */
+
+import { assertEquals } from "@std/assert";
+import { parse } from "@std/toml/parse";
+import {
+  deleteOverridesCommand,
+  listOverridesCommand,
+  moveOverridesCommand,
+} from "../../src/commands/overrides.ts";
+import { createThemeManager } from "../../src/theme-manager/theme-manager.ts";
+import {
+  createTestEnvironment,
+  createTestThemes,
+  type TestEnvironment,
+} from "../utils/test-setup.ts";
+
+const CONFIG_WITH_COLORS = "[general]\n" +
+  "import = [] # themes\n" +
+  "\n" +
+  "[colors.primary]\n" +
+  "background = '#101010'\n" +
+  "\n" +
+  "[colors.cursor]\n" +
+  "text = '#ffffff'\n" +
+  "\n" +
+  "[font]\n" +
+  "size = 12\n";
+
+function createOptions(env: TestEnvironment) {
+  return {
+    configPath: env.configPath,
+    backupPath: env.backupPath,
+    backupHistory: { dir: `${env.tempDir}/backups`, retention: {} },
+    overridesPath: `${env.tempDir}/overrides.toml`,
+  };
+}
+
+Deno.test("overrides: lists colors and the ones shadowing the active theme", async () => {
+  await using env = await createTestEnvironment();
+  await createTestThemes(env.themesDir, ["dark1"]);
+  await Deno.writeTextFile(
+    env.configPath,
+    CONFIG_WITH_COLORS.replace(
+      "import = []",
+      `import = ["${env.themesDir}/dark1.toml"]`,
+    ),
+  );
+
+  const managerResult = await createThemeManager({
+    configPath: env.configPath,
+    themesDirPath: env.themesDir,
+    backupPath: env.backupPath,
+  });
+  if (!managerResult.isOk()) throw new Error("Failed to create manager");
+
+  assertEquals(listOverridesCommand(managerResult.value), [
+    { key: "colors.primary.background", shadowed: true },
+    { key: "colors.cursor.text", shadowed: false },
+  ]);
+});
+
+Deno.test("overrides: moves colors to the overrides file imported last", async () => {
+  await using env = await createTestEnvironment();
+  await Deno.writeTextFile(env.configPath, CONFIG_WITH_COLORS);
+  const options = createOptions(env);
+
+  const result = await moveOverridesCommand(options);
+
+  assertEquals(result._unsafeUnwrap(), [
+    "colors.primary.background",
+    "colors.cursor.text",
+  ]);
+  assertEquals(
+    await Deno.readTextFile(env.configPath),
+    `[general]\nimport = ["${options.overridesPath}"] # themes\n` +
+      "\n" +
+      "[font]\n" +
+      "size = 12\n",
+  );
+  assertEquals(parse(await Deno.readTextFile(options.overridesPath)), {
+    colors: {
+      primary: { background: "#101010" },
+      cursor: { text: "#ffffff" },
+    },
+  });
+  assertEquals(await Deno.readTextFile(env.backupPath), CONFIG_WITH_COLORS);
+});
+
+Deno.test("overrides: keeps the config when the overrides file conflicts", async () => {
+  await using env = await createTestEnvironment();
+  await Deno.writeTextFile(env.configPath, CONFIG_WITH_COLORS);
+  const options = createOptions(env);
+  await Deno.writeTextFile(
+    options.overridesPath,
+    "[colors.primary]\nforeground = '#eeeeee'\n",
+  );
+
+  const result = await moveOverridesCommand(options);
+
+  assertEquals(result._unsafeUnwrapErr()._tag, "TomlParseError");
+  assertEquals(await Deno.readTextFile(env.configPath), CONFIG_WITH_COLORS);
+});
+
+Deno.test("overrides: moves colors once when run again after a failure", async () => {
+  await using env = await createTestEnvironment();
+  await Deno.writeTextFile(env.configPath, CONFIG_WITH_COLORS);
+  const options = createOptions(env);
+
+  const failed = await moveOverridesCommand({
+    ...options,
+    backupPath: `${env.tempDir}/missing/alacritty.bak.toml`,
+  });
+
+  assertEquals(failed._unsafeUnwrapErr()._tag, "BackupError");
+  assertEquals(await Deno.readTextFile(env.configPath), CONFIG_WITH_COLORS);
+
+  const result = await moveOverridesCommand(options);
+
+  assertEquals(result.isOk(), true);
+  assertEquals(parse(await Deno.readTextFile(options.overridesPath)), {
+    colors: {
+      primary: { background: "#101010" },
+      cursor: { text: "#ffffff" },
+    },
+  });
+});
+
+Deno.test("overrides: restores the config when the overrides file can't be written", async () => {
+  await using env = await createTestEnvironment();
+  await Deno.writeTextFile(env.configPath, CONFIG_WITH_COLORS);
+
+  const result = await moveOverridesCommand({
+    ...createOptions(env),
+    overridesPath: `${env.tempDir}/missing/overrides.toml`,
+  });
+
+  assertEquals(result._unsafeUnwrapErr()._tag, "WriteError");
+  assertEquals(await Deno.readTextFile(env.configPath), CONFIG_WITH_COLORS);
+});
+
+Deno.test("overrides: deletes colors after backing up the config", async () => {
+  await using env = await createTestEnvironment();
+  await Deno.writeTextFile(env.configPath, CONFIG_WITH_COLORS);
+
+  const result = await deleteOverridesCommand(createOptions(env));
+
+  assertEquals(result._unsafeUnwrap().length, 2);
+  assertEquals(
+    await Deno.readTextFile(env.configPath),
+    "[general]\nimport = [] # themes\n\n[font]\nsize = 12\n",
+  );
+  assertEquals(await Deno.readTextFile(env.backupPath), CONFIG_WITH_COLORS);
+});
+
+Deno.test("overrides: fails when the config defines no colors", async () => {
+  await using env = await createTestEnvironment();
+  await Deno.writeTextFile(env.configPath, "[font]\nsize = 12\n");
+
+  const result = await deleteOverridesCommand(createOptions(env));
+
+  assertEquals(result._unsafeUnwrapErr()._tag, "NoColorOverridesError");
+});
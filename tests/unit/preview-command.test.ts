@@ -0,0 +1,93 @@
+/**
+ * Unit tests for the preview command.
+ */
+
+import { assertEquals } from "@std/assert";
+import { join } from "@std/path/join";
+import { previewCommand, renderPreview } from "../../src/commands/preview.ts";
+import { Theme } from "../../src/theme-manager/theme.ts";
+import {
+  createBasicTheme,
+  createTestEnvironment,
+  createTestThemes,
+  writeTestTheme,
+} from "../utils/test-setup.ts";
+
+Deno.test("previewCommand: finds a theme like --select", async () => {
+  await using env = await createTestEnvironment();
+  await createTestThemes(env.themesDir, ["monokai_pro", "nord"]);
+
+  const result = await previewCommand({
+    themesDirPath: env.themesDir,
+    name: "Monokai Pro",
+  });
+
+  assertEquals(result.isOk() && result.value.label, "Monokai Pro");
+});
+
+Deno.test("previewCommand: loads a theme file outside the themes directory", async () => {
+  await using env = await createTestEnvironment();
+  await createTestThemes(env.themesDir, ["nord"]);
+  const path = join(env.tempDir, "downloaded_theme.toml");
+  await writeTestTheme(path, createBasicTheme());
+
+  const result = await previewCommand({
+    themesDirPath: env.themesDir,
+    name: path,
+  });
+
+  assertEquals(result.isOk() && result.value.path, path);
+});
+
+Deno.test("previewCommand: fails for an unknown theme", async () => {
+  await using env = await createTestEnvironment();
+  await createTestThemes(env.themesDir, ["nord"]);
+
+  const result = await previewCommand({
+    themesDirPath: env.themesDir,
+    name: "nrod.toml",
+  });
+
+  if (!result.isErr() || result.error._tag !== "ThemeNotFoundError") {
+    throw new Error("Expected ThemeNotFoundError");
+  }
+  assertEquals(result.error.suggestions, ["nord.toml"]);
+});
+
+Deno.test("renderPreview: draws with the theme's colors only", () => {
+  const preview = renderPreview(
+    new Theme("/themes/test.toml", createBasicTheme()),
+  );
+
+  const colors = new Set(
+    preview.match(/\[(?:38|48);2;\d+;\d+;\d+m/g)?.map((escape) =>
+      escape.replace(/^\[(?:38|48);2;/, "").replace(/m$/, "")
+    ),
+  );
+  // Bright colors fall back to the normal ones
+  assertEquals(
+    [...colors].sort(),
+    [
+      "0;0;0",
+      "0;0;255",
+      "0;255;0",
+      "0;255;255",
+      "255;0;0",
+      "255;0;255",
+      "255;255;0",
+      "255;255;255",
+    ],
+  );
+});
+
+Deno.test("renderPreview: pads every line to the same width", () => {
+  const preview = renderPreview(new Theme("/themes/test.toml"));
+
+  const widths = preview.split("\n").map((line) =>
+    // Strip escape sequences
+    line.split("\x1b").map((part, index) =>
+      index === 0 ? part : part.replace(/^\[[\d;]*m/, "")
+    ).join("").length
+  );
+  assertEquals(new Set(widths).size, 1);
+});
@@ -0,0 +1,114 @@
+/**
+ * Unit tests for the random command.
+ */
+
+import { assertEquals, assertNotEquals } from "@std/assert";
+import {
+  pickRandomTheme,
+  randomThemeCommand,
+} from "../../src/commands/random-theme.ts";
+import { readState } from "../../src/theme-manager/state.ts";
+import { createThemeManager } from "../../src/theme-manager/theme-manager.ts";
+import { Theme } from "../../src/theme-manager/theme.ts";
+import {
+  createBasicConfig,
+  createTestEnvironment,
+  createTestThemes,
+  writeTestConfig,
+} from "../utils/test-setup.ts";
+
+function createThemes(activeIndex: number) {
+  return ["a.toml", "b.toml", "c.toml", "d.toml"].map((path, index) =>
+    new Theme(path, {}, index === activeIndex)
+  );
+}
+
+const emptyState = { recent: [], favorites: [] };
+
+Deno.test("pickRandomTheme: never picks the active theme", () => {
+  for (let seed = 0; seed < 20; seed++) {
+    const theme = pickRandomTheme(createThemes(1), emptyState, {
+      seed: String(seed),
+    });
+    assertNotEquals(theme?.path, "b.toml");
+  }
+});
+
+Deno.test("pickRandomTheme: same seed picks the same theme", () => {
+  const pick = (seed: string) =>
+    pickRandomTheme(createThemes(-1), emptyState, { seed })?.path;
+
+  assertEquals(pick("login"), pick("login"));
+  assertEquals(
+    new Set(Array.from({ length: 20 }, (_, i) => pick(String(i)))).size > 1,
+    true,
+  );
+});
+
+Deno.test("pickRandomTheme: skips recently applied themes", () => {
+  const state = { recent: ["b.toml", "c.toml", "d.toml"], favorites: [] };
+  for (let seed = 0; seed < 20; seed++) {
+    const theme = pickRandomTheme(createThemes(-1), state, {
+      avoidRecent: 3,
+      seed: String(seed),
+    });
+    assertEquals(theme?.path, "a.toml");
+  }
+});
+
+Deno.test("pickRandomTheme: falls back to recent themes when nothing else matches", () => {
+  const state = { recent: ["c.toml", "d.toml"], favorites: [] };
+  const theme = pickRandomTheme(createThemes(0), state, {
+    query: "d",
+    avoidRecent: 5,
+  });
+  assertEquals(theme?.path, "d.toml");
+});
+
+Deno.test("pickRandomTheme: picks favorites only", () => {
+  const state = { recent: [], favorites: ["c.toml", "d.toml"] };
+  for (let seed = 0; seed < 20; seed++) {
+    const theme = pickRandomTheme(createThemes(3), state, {
+      favorites: true,
+      seed: String(seed),
+    });
+    assertEquals(theme?.path, "c.toml");
+  }
+});
+
+Deno.test("pickRandomTheme: returns undefined when only the active theme matches", () => {
+  assertEquals(
+    pickRandomTheme(createThemes(0), emptyState, { query: "a" }),
+    undefined,
+  );
+});
+
+Deno.test("randomThemeCommand: applies a theme and records it as recent", async () => {
+  await using env = await createTestEnvironment();
+  const statePath = `${env.tempDir}/ats-state.toml`;
+
+  await createTestThemes(env.themesDir, ["dark1", "dark2"]);
+  await writeTestConfig(
+    env.configPath,
+    createBasicConfig([`${env.themesDir}/dark1.toml`]),
+  );
+
+  const managerResult = await createThemeManager({
+    configPath: env.configPath,
+    themesDirPath: env.themesDir,
+    backupPath: env.backupPath,
+    statePath,
+  });
+  if (!managerResult.isOk()) throw new Error("Failed to create manager");
+
+  const result = await randomThemeCommand(managerResult.value, statePath, {
+    seed: "test",
+  });
+
+  assertEquals(result.isOk(), true);
+  if (!result.isOk()) throw new Error("Failed to apply random theme");
+  assertEquals(result.value.label, "Dark2");
+
+  const state = await readState(statePath);
+  assertEquals(state._unsafeUnwrap().recent, [`${env.themesDir}/dark2.toml`]);
+});
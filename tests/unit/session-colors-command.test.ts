@@ -0,0 +1,70 @@
+/**
+ * Unit tests for the session colors command.
+ */
+
+import { assertEquals } from "@std/assert";
+import {
+  formatSessionColors,
+  formatSessionReset,
+  sessionColorsCommand,
+} from "../../src/commands/session-colors.ts";
+import {
+  createTestEnvironment,
+  createTestThemes,
+} from "../utils/test-setup.ts";
+
+Deno.test("formatSessionColors: sets palette, foreground, background and cursor", () => {
+  const sequences = formatSessionColors({
+    primary: { background: "#272822", foreground: "#F8F8F2" },
+    cursor: { text: "CellBackground", cursor: "#fff" },
+    normal: { black: "#000000", red: "#f92672" },
+    bright: { black: "#75715e" },
+  });
+
+  assertEquals(
+    sequences,
+    "\x1b]4;0;rgb:00/00/00\x1b\\" +
+      "\x1b]4;1;rgb:f9/26/72\x1b\\" +
+      "\x1b]4;8;rgb:75/71/5e\x1b\\" +
+      "\x1b]10;rgb:f8/f8/f2\x1b\\" +
+      "\x1b]11;rgb:27/28/22\x1b\\" +
+      "\x1b]12;rgb:ff/ff/ff\x1b\\",
+  );
+});
+
+Deno.test("formatSessionColors: sets indexed colors", () => {
+  const sequences = formatSessionColors({
+    indexed_colors: [{ index: 16, color: "#ff9e64" }],
+  });
+
+  assertEquals(sequences, "\x1b]4;16;rgb:ff/9e/64\x1b\\");
+});
+
+Deno.test("formatSessionColors: skips colors that aren't hex colors", () => {
+  const sequences = formatSessionColors({
+    cursor: { cursor: "CellForeground" },
+  });
+
+  assertEquals(sequences, "");
+});
+
+Deno.test("formatSessionReset: resets palette, foreground, background and cursor", () => {
+  assertEquals(
+    formatSessionReset(),
+    "\x1b]104\x1b\\\x1b]110\x1b\\\x1b]111\x1b\\\x1b]112\x1b\\",
+  );
+});
+
+Deno.test("sessionColorsCommand: formats the colors of the given theme", async () => {
+  await using env = await createTestEnvironment();
+  await createTestThemes(env.themesDir, ["nord"]);
+
+  const result = await sessionColorsCommand({
+    themesDirPath: env.themesDir,
+    name: "nord",
+  });
+
+  if (!result.isOk()) throw new Error("Expected the theme to be found");
+  assertEquals(result.value.theme.label, "Nord");
+  assertEquals(result.value.sequences.includes("\x1b]11;rgb:00/00/00"), true);
+});
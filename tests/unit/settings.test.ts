@@ -0,0 +1,93 @@
+/**
+ * Unit tests for settings of alacritty-theme-switch itself.
+ */
+
+import { assertEquals } from "@std/assert";
+import {
+  getSettingsPath,
+  loadSettings,
+  parseEnvSettings,
+  parseFileSettings,
+} from "../../src/settings.ts";
+import { createTestEnvironment } from "../utils/test-setup.ts";
+
+Deno.test("getSettingsPath: uses XDG_CONFIG_HOME when set", () => {
+  assertEquals(
+    getSettingsPath("/home/user", "linux", { XDG_CONFIG_HOME: "/xdg" }),
+    "/xdg/alacritty-theme-switch/config.toml",
+  );
+  assertEquals(
+    getSettingsPath("/home/user", "linux", {}),
+    "/home/user/.config/alacritty-theme-switch/config.toml",
+  );
+});
+
+Deno.test("parseFileSettings: validates keys and values", () => {
+  assertEquals(
+    parseFileSettings(
+      { themes: "~/themes", symlink: true, "keep-backups": 5 },
+      "config.toml",
+      "/home/user",
+    )._unsafeUnwrap(),
+    { themes: "/home/user/themes", symlink: true, "keep-backups": "5" },
+  );
+  assertEquals(
+    parseFileSettings({ theme: "x" }, "config.toml", "/home/user")
+      ._unsafeUnwrapErr()._tag,
+    "UnknownSettingError",
+  );
+  assertEquals(
+    parseFileSettings({ symlink: "yes" }, "config.toml", "/home/user")
+      ._unsafeUnwrapErr()._tag,
+    "InvalidSettingError",
+  );
+});
+
+Deno.test("parseEnvSettings: reads ATS_* variables only", () => {
+  assertEquals(
+    parseEnvSettings(
+      {
+        ATS_ACTIVE_THEME: "~/active.toml",
+        ATS_PREVIEW: "0",
+        ATS_UNRELATED: "x",
+        HOME: "/home/user",
+      },
+      "/home/user",
+    )._unsafeUnwrap(),
+    { "active-theme": "/home/user/active.toml", preview: false },
+  );
+  assertEquals(
+    parseEnvSettings({ ATS_SYMLINK: "maybe" }, "/home/user")
+      ._unsafeUnwrapErr().key,
+    "ATS_SYMLINK",
+  );
+});
+
+Deno.test("loadSettings: environment overrides the settings file", async () => {
+  await using env = await createTestEnvironment();
+  await Deno.mkdir(`${env.tempDir}/alacritty-theme-switch`);
+  await Deno.writeTextFile(
+    `${env.tempDir}/alacritty-theme-switch/config.toml`,
+    'themes = "/file/themes"\nref = "main"\n',
+  );
+
+  const result = await loadSettings("/home/user", "linux", {
+    XDG_CONFIG_HOME: env.tempDir,
+    ATS_THEMES: "/env/themes",
+  });
+
+  assertEquals(result._unsafeUnwrap(), {
+    themes: "/env/themes",
+    ref: "main",
+  });
+});
+
+Deno.test("loadSettings: missing settings file has no settings", async () => {
+  await using env = await createTestEnvironment();
+
+  const result = await loadSettings("/home/user", "linux", {
+    XDG_CONFIG_HOME: env.tempDir,
+  });
+
+  assertEquals(result._unsafeUnwrap(), {});
+});
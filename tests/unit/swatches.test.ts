@@ -0,0 +1,72 @@
+import { assertEquals } from "@std/assert";
+import {
+  detectColorDepth,
+  getPalette,
+  renderSwatches,
+} from "../../src/utils/swatches.ts";
+
+const colors = {
+  primary: { background: "#272822", foreground: "#f8f8f2" },
+  normal: { black: "#000000", red: "#ff0000" },
+  bright: { white: "#ffffff" },
+};
+
+Deno.test("detectColorDepth: detects truecolor from COLORTERM", () => {
+  assertEquals(detectColorDepth({ COLORTERM: "truecolor" }), "truecolor");
+  assertEquals(detectColorDepth({ COLORTERM: "24bit" }), "truecolor");
+  assertEquals(detectColorDepth({ WT_SESSION: "1" }), "truecolor");
+});
+
+Deno.test("detectColorDepth: falls back to 256 colors", () => {
+  assertEquals(detectColorDepth({ TERM: "xterm-256color" }), "256");
+});
+
+Deno.test("detectColorDepth: turns colors off with NO_COLOR", () => {
+  assertEquals(
+    detectColorDepth({ NO_COLOR: "1", COLORTERM: "truecolor" }),
+    "none",
+  );
+});
+
+Deno.test("getPalette: lists primary, normal and bright colors", () => {
+  const palette = getPalette(colors);
+
+  assertEquals(palette.length, 18);
+  assertEquals(palette.slice(0, 4), [
+    "#272822",
+    "#f8f8f2",
+    "#000000",
+    "#ff0000",
+  ]);
+  assertEquals(palette[4], undefined);
+  assertEquals(palette[17], "#ffffff");
+});
+
+Deno.test("renderSwatches: draws 24-bit blocks and blanks missing colors", () => {
+  const swatches = renderSwatches(colors, "truecolor");
+
+  assertEquals(
+    swatches.startsWith(
+      "\x1b[38;2;39;40;34m█\x1b[39m\x1b[38;2;248;248;242m█\x1b[39m",
+    ),
+    true,
+  );
+  assertEquals(swatches.split("█").length - 1, 5);
+  assertEquals(
+    swatches.endsWith(" ".repeat(7) + "\x1b[38;2;255;255;255m█\x1b[39m"),
+    true,
+  );
+});
+
+Deno.test("renderSwatches: falls back to 256 colors", () => {
+  const swatches = renderSwatches(
+    { primary: { background: "#ff0000" } },
+    "256",
+  );
+
+  assertEquals(swatches.startsWith("\x1b[38;5;196m█\x1b[39m"), true);
+});
+
+Deno.test("renderSwatches: draws nothing without colors", () => {
+  assertEquals(renderSwatches(colors, "none"), "");
+});
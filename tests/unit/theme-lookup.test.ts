@@ -0,0 +1,97 @@
+import { assertEquals } from "@std/assert";
+import { findTheme } from "../../src/theme-manager/theme-lookup.ts";
+import { Theme } from "../../src/theme-manager/theme.ts";
+
+const themesDir = "/themes";
+const themes = [
+  new Theme("/themes/monokai_pro.toml"),
+  new Theme("/themes/one-dark.toml"),
+  new Theme("/themes/dark.toml"),
+  new Theme("/themes/extra/dark.toml"),
+  new Theme("/themes/nord.toml"),
+];
+
+Deno.test("findTheme: finds a theme by its filename", () => {
+  const result = findTheme(themes, "nord.toml", themesDir);
+
+  assertEquals(result.isOk() && result.value.path, "/themes/nord.toml");
+});
+
+Deno.test("findTheme: finds a theme by its relative path without extension", () => {
+  const result = findTheme(themes, "extra/dark", themesDir);
+
+  assertEquals(result.isOk() && result.value.path, "/themes/extra/dark.toml");
+});
+
+Deno.test("findTheme: finds a theme by its relative path starting with ./", () => {
+  const result = findTheme(themes, "./extra/dark.toml", themesDir);
+
+  assertEquals(result.isOk() && result.value.path, "/themes/extra/dark.toml");
+});
+
+Deno.test("findTheme: finds a theme by its relative path going up with ..", () => {
+  const result = findTheme(themes, "extra/../extra/dark", themesDir);
+
+  assertEquals(result.isOk() && result.value.path, "/themes/extra/dark.toml");
+});
+
+Deno.test("findTheme: finds a theme by its label ignoring case", () => {
+  const result = findTheme(themes, "monokai  PRO", themesDir);
+
+  assertEquals(result.isOk() && result.value.path, "/themes/monokai_pro.toml");
+});
+
+Deno.test("findTheme: doesn't match a part of a filename", () => {
+  const result = findTheme(themes, "ne-dark.toml", themesDir);
+
+  assertEquals(result.isErr() && result.error._tag, "ThemeNotFoundError");
+});
+
+Deno.test("findTheme: fails listing the candidates of an ambiguous name", () => {
+  const result = findTheme(themes, "dark.toml", themesDir);
+
+  if (!result.isErr() || result.error._tag !== "AmbiguousThemeError") {
+    throw new Error("Expected AmbiguousThemeError");
+  }
+  assertEquals(result.error.candidates, ["dark.toml", "extra/dark.toml"]);
+});
+
+Deno.test("findTheme: suggests similar filenames", () => {
+  const result = findTheme(themes, "one_drak.toml", themesDir);
+
+  if (!result.isErr() || result.error._tag !== "ThemeNotFoundError") {
+    throw new Error("Expected ThemeNotFoundError");
+  }
+  assertEquals(result.error.suggestions, ["one-dark.toml"]);
+});
+
+Deno.test("findTheme: suggests similar labels", () => {
+  const result = findTheme(themes, "Monokay Pro", themesDir);
+
+  if (!result.isErr() || result.error._tag !== "ThemeNotFoundError") {
+    throw new Error("Expected ThemeNotFoundError");
+  }
+  assertEquals(result.error.suggestions, ["Monokai Pro"]);
+});
+
+Deno.test("findTheme: suggests themes in subdirectories for mistyped names", () => {
+  const nested = [
+    ...themes,
+    new Theme("/themes/tokyo-night/tokyonight_storm.toml"),
+  ];
+
+  for (
+    const [name, suggestion] of [
+      ["tokyonight_strom.toml", "tokyo-night/tokyonight_storm.toml"],
+      ["tokyo-night/tokyonight_strom", "tokyo-night/tokyonight_storm.toml"],
+      ["Tokyonight Strom", "Tokyonight Storm"],
+    ]
+  ) {
+    const result = findTheme(nested, name, themesDir);
+
+    if (!result.isErr() || result.error._tag !== "ThemeNotFoundError") {
+      throw new Error("Expected ThemeNotFoundError");
+    }
+    assertEquals(result.error.suggestions, [suggestion]);
+  }
+});
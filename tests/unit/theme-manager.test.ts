@@ -284,6 +284,49 @@ Deno.test("ThemeManager.applyThemeByFilename: fails with nonexistent theme", asy
   assertEquals(result.error._tag, "ThemeNotFoundError");
 });
 
+Deno.test("ThemeManager.applyThemeByFilename: applies theme by label", async () => {
+  await using env = await createTestEnvironment();
+
+  await writeTestConfig(env.configPath, createBasicConfig());
+  await createTestThemes(env.themesDir, ["monokai-pro", "one-dark"]);
+
+  const managerResult = await createThemeManager({
+    configPath: env.configPath,
+    themesDirPath: env.themesDir,
+    backupPath: env.backupPath,
+  });
+
+  if (!managerResult.isOk()) throw new Error("Failed to create theme manager");
+  const manager = managerResult.value;
+
+  const result = await manager.applyThemeByFilename("one dark");
+
+  assertEquals(result.isOk() && result.value.label, "One Dark");
+});
+
+Deno.test("ThemeManager.applyThemeByFilename: suggests similar themes", async () => {
+  await using env = await createTestEnvironment();
+
+  await writeTestConfig(env.configPath, createBasicConfig());
+  await createTestThemes(env.themesDir, ["monokai-pro", "one-dark"]);
+
+  const managerResult = await createThemeManager({
+    configPath: env.configPath,
+    themesDirPath: env.themesDir,
+    backupPath: env.backupPath,
+  });
+
+  if (!managerResult.isOk()) throw new Error("Failed to create theme manager");
+  const manager = managerResult.value;
+
+  const result = await manager.applyThemeByFilename("monokia-pro.toml");
+
+  if (!result.isErr() || result.error._tag !== "ThemeNotFoundError") {
+    throw new Error("Expected ThemeNotFoundError");
+  }
+  assertEquals(result.error.suggestions, ["monokai-pro.toml"]);
+});
+
 Deno.test("ThemeManager: active theme detection", async () => {
   await using env = await createTestEnvironment();
 
@@ -321,3 +364,366 @@ Deno.test("ThemeManager: active theme detection", async () => {
     themes[1].path,
   );
 });
+
+Deno.test("ThemeManager.previewTheme: writes theme without backup", async () => {
+  await using env = await createTestEnvironment();
+
+  await writeTestConfig(env.configPath, createBasicConfig());
+  await createTestThemes(env.themesDir, ["theme1", "theme2"]);
+
+  const result = await createThemeManager({
+    configPath: env.configPath,
+    themesDirPath: env.themesDir,
+    backupPath: env.backupPath,
+  });
+
+  if (!result.isOk()) throw new Error("Failed to create theme manager");
+  const manager = result.value;
+
+  const themes = manager.listThemes();
+  const previewResult = await manager.previewTheme(themes[0]);
+
+  assertEquals(previewResult.isOk(), true);
+  const content = await Deno.readTextFile(env.configPath);
+  assertEquals(content.includes(themes[0].path), true);
+  // In-memory config stays untouched and no backup is made
+  assertEquals(manager.getConfig().general?.import, []);
+  const backupExists = await Deno.stat(env.backupPath).then(() => true)
+    .catch(() => false);
+  assertEquals(backupExists, false);
+});
+
+Deno.test("ThemeManager.cancelPreview: restores the exact original config", async () => {
+  await using env = await createTestEnvironment();
+
+  const originalContent = "# My config\n[general]\nimport = []\n";
+  await Deno.writeTextFile(env.configPath, originalContent);
+  await createTestThemes(env.themesDir, ["theme1", "theme2"]);
+
+  const result = await createThemeManager({
+    configPath: env.configPath,
+    themesDirPath: env.themesDir,
+    backupPath: env.backupPath,
+  });
+
+  if (!result.isOk()) throw new Error("Failed to create theme manager");
+  const manager = result.value;
+
+  const themes = manager.listThemes();
+  await manager.previewTheme(themes[0]);
+  await manager.previewTheme(themes[1]);
+  const cancelResult = await manager.cancelPreview();
+
+  assertEquals(cancelResult.isOk(), true);
+  assertEquals(await Deno.readTextFile(env.configPath), originalContent);
+});
+
+Deno.test("ThemeManager.applyTheme: backs up the config from before the preview", async () => {
+  await using env = await createTestEnvironment();
+
+  const originalContent = "# My config\n[general]\nimport = []\n";
+  await Deno.writeTextFile(env.configPath, originalContent);
+  await createTestThemes(env.themesDir, ["theme1", "theme2"]);
+
+  const result = await createThemeManager({
+    configPath: env.configPath,
+    themesDirPath: env.themesDir,
+    backupPath: env.backupPath,
+  });
+
+  if (!result.isOk()) throw new Error("Failed to create theme manager");
+  const manager = result.value;
+
+  const themes = manager.listThemes();
+  await manager.previewTheme(themes[0]);
+  await manager.previewTheme(themes[1]);
+  const applyResult = await manager.applyTheme(themes[1]);
+
+  assertEquals(applyResult.isOk(), true);
+  assertEquals(await Deno.readTextFile(env.backupPath), originalContent);
+  assertEquals(manager.getConfig().general?.import, [themes[1].path]);
+});
+
+Deno.test("ThemeManager.applyTheme: replaces only the active theme file in indirection mode", async () => {
+  await using env = await createTestEnvironment();
+  const activeThemePath = `${env.tempDir}/active-theme.toml`;
+
+  await writeTestConfig(env.configPath, createBasicConfig([activeThemePath]));
+  await createTestThemes(env.themesDir, ["theme1"]);
+  await Deno.writeTextFile(
+    `${env.themesDir}/theme2.toml`,
+    '[colors.primary]\nbackground = "#ffffff"\n',
+  );
+  const originalConfig = await Deno.readTextFile(env.configPath);
+
+  const result = await createThemeManager({
+    configPath: env.configPath,
+    themesDirPath: env.themesDir,
+    backupPath: env.backupPath,
+    activeThemePath,
+    activeThemeMode: "copy",
+  });
+
+  if (!result.isOk()) throw new Error("Failed to create theme manager");
+  const manager = result.value;
+  assertEquals(manager.getFirstActiveTheme(), undefined);
+
+  const theme = manager.listThemes().find((t: Theme) => t.label === "Theme2")!;
+  const applyResult = await manager.applyTheme(theme);
+
+  assertEquals(applyResult.isOk(), true);
+  assertEquals(await Deno.readTextFile(env.configPath), originalConfig);
+  assertEquals(
+    await Deno.readTextFile(activeThemePath),
+    await Deno.readTextFile(theme.path),
+  );
+  assertEquals(manager.getFirstActiveTheme()?.path, theme.path);
+});
+
+Deno.test("createThemeManager: detects active theme from active theme file", async () => {
+  await using env = await createTestEnvironment();
+  const copyPath = `${env.tempDir}/active-copy.toml`;
+  const linkPath = `${env.tempDir}/active-link.toml`;
+  const lightThemePath = `${env.themesDir}/light.toml`;
+
+  await writeTestConfig(env.configPath, createBasicConfig());
+  await createTestThemes(env.themesDir, ["dark"]);
+  await Deno.writeTextFile(
+    lightThemePath,
+    '[colors.primary]\nbackground = "#ffffff"\n',
+  );
+  await Deno.copyFile(lightThemePath, copyPath);
+  await Deno.symlink(lightThemePath, linkPath);
+
+  for (const activeThemePath of [copyPath, linkPath]) {
+    const result = await createThemeManager({
+      configPath: env.configPath,
+      themesDirPath: env.themesDir,
+      backupPath: env.backupPath,
+      activeThemePath,
+    });
+
+    if (!result.isOk()) throw new Error("Failed to create theme manager");
+    assertEquals(result.value.getFirstActiveTheme()?.path, lightThemePath);
+  }
+});
+
+Deno.test("ThemeManager.cancelPreview: restores the active theme symlink", async () => {
+  await using env = await createTestEnvironment();
+  const activeThemePath = `${env.tempDir}/active-theme.toml`;
+
+  await writeTestConfig(env.configPath, createBasicConfig([activeThemePath]));
+  await createTestThemes(env.themesDir, ["theme1", "theme2"]);
+  await Deno.symlink(`${env.themesDir}/theme1.toml`, activeThemePath);
+
+  const result = await createThemeManager({
+    configPath: env.configPath,
+    themesDirPath: env.themesDir,
+    backupPath: env.backupPath,
+    activeThemePath,
+    activeThemeMode: "symlink",
+  });
+
+  if (!result.isOk()) throw new Error("Failed to create theme manager");
+  const manager = result.value;
+
+  const theme2 = manager.listThemes().find((t: Theme) => t.label === "Theme2")!;
+  await manager.previewTheme(theme2);
+  assertEquals(await Deno.readLink(activeThemePath), theme2.path);
+
+  await manager.cancelPreview();
+  assertEquals(
+    await Deno.readLink(activeThemePath),
+    `${env.themesDir}/theme1.toml`,
+  );
+});
+
+Deno.test("ThemeManager.getActiveTheme: reports missing and multiple active themes", async () => {
+  await using env = await createTestEnvironment();
+
+  await createTestThemes(env.themesDir, ["theme1", "theme2"]);
+  const theme1Path = `${env.themesDir}/theme1.toml`;
+  const theme2Path = `${env.themesDir}/theme2.toml`;
+
+  const cases = [
+    { imports: [], expected: "NoActiveThemeError" },
+    {
+      imports: [theme1Path, theme2Path],
+      expected: "MultipleActiveThemesError",
+    },
+    { imports: ["base.toml", theme2Path], expected: theme2Path },
+  ];
+
+  for (const { imports, expected } of cases) {
+    await writeTestConfig(env.configPath, createBasicConfig(imports));
+    const result = await createThemeManager({
+      configPath: env.configPath,
+      themesDirPath: env.themesDir,
+      backupPath: env.backupPath,
+    });
+    if (!result.isOk()) throw new Error("Failed to create theme manager");
+
+    const activeResult = result.value.getActiveTheme();
+    assertEquals(
+      activeResult.isOk() ? activeResult.value.path : activeResult.error._tag,
+      expected,
+    );
+  }
+});
+
+Deno.test("ThemeManager.applyTheme: imports the theme before the overrides file", async () => {
+  await using env = await createTestEnvironment();
+  const overridesPath = `${env.tempDir}/overrides.toml`;
+
+  await createTestThemes(env.themesDir, ["theme1", "theme2"]);
+  await writeTestConfig(
+    env.configPath,
+    createBasicConfig([`${env.themesDir}/theme1.toml`, overridesPath]),
+  );
+
+  const result = await createThemeManager({
+    configPath: env.configPath,
+    themesDirPath: env.themesDir,
+    backupPath: env.backupPath,
+    overridesPath,
+  });
+  if (!result.isOk()) throw new Error("Failed to create theme manager");
+  const manager = result.value;
+
+  const theme2 = manager.listThemes().find((t) => t.label === "Theme2");
+  if (!theme2) throw new Error("Theme not found");
+  await manager.applyTheme(theme2);
+
+  assertEquals(manager.getConfig().general?.import, [
+    theme2.path,
+    overridesPath,
+  ]);
+});
+
+Deno.test("ThemeManager.applyTheme: applies the theme when the state can't be recorded", async () => {
+  await using env = await createTestEnvironment();
+  const statePath = `${env.tempDir}/ats-state.toml`;
+
+  await createTestThemes(env.themesDir, ["theme1", "theme2"]);
+  await writeTestConfig(
+    env.configPath,
+    createBasicConfig([`${env.themesDir}/theme1.toml`]),
+  );
+  await Deno.writeTextFile(statePath, "recent = [");
+
+  const result = await createThemeManager({
+    configPath: env.configPath,
+    themesDirPath: env.themesDir,
+    backupPath: env.backupPath,
+    statePath,
+  });
+  if (!result.isOk()) throw new Error("Failed to create theme manager");
+  const manager = result.value;
+
+  const theme2 = manager.listThemes().find((t) => t.label === "Theme2");
+  if (!theme2) throw new Error("Theme not found");
+
+  const applyResult = await manager.applyTheme(theme2);
+
+  assertEquals(applyResult.isOk(), true);
+  assertEquals(manager.getConfig().general?.import, [theme2.path]);
+  assertEquals(manager.getRecentThemeError()?._tag, "TomlParseError");
+});
+
+Deno.test("ThemeManager.getShadowedColors: lists theme colors defined in the config", async () => {
+  await using env = await createTestEnvironment();
+
+  await createTestThemes(env.themesDir, ["theme1"]);
+  await writeTestConfig(env.configPath, {
+    ...createBasicConfig(),
+    colors: {
+      primary: { background: "#101010" },
+      cursor: { text: "#ffffff" },
+    },
+  });
+
+  const result = await createThemeManager({
+    configPath: env.configPath,
+    themesDirPath: env.themesDir,
+    backupPath: env.backupPath,
+  });
+  if (!result.isOk()) throw new Error("Failed to create theme manager");
+  const manager = result.value;
+
+  assertEquals(manager.getShadowedColors(manager.listThemes()[0]), [
+    "colors.primary.background",
+  ]);
+});
+
+Deno.test("createThemeManager: skips theme files that can't be parsed", async () => {
+  await using env = await createTestEnvironment();
+
+  await createTestThemes(env.themesDir, ["theme1", "theme2"]);
+  await Deno.writeTextFile(`${env.themesDir}/broken.toml`, "[colors");
+  await writeTestConfig(env.configPath, createBasicConfig());
+
+  const result = await createThemeManager({
+    configPath: env.configPath,
+    themesDirPath: env.themesDir,
+    backupPath: env.backupPath,
+  });
+  if (!result.isOk()) throw new Error("Failed to create theme manager");
+  const manager = result.value;
+
+  assertEquals(manager.listThemes().length, 2);
+  const failures = manager.getLoadFailures();
+  assertEquals(failures.map((failure) => failure.path), [
+    `${env.themesDir}/broken.toml`,
+  ]);
+  assertEquals(failures[0].error._tag, "TomlParseError");
+});
+
+Deno.test("createThemeManager: fails on a broken theme file in strict mode", async () => {
+  await using env = await createTestEnvironment();
+
+  await createTestThemes(env.themesDir, ["theme1"]);
+  await Deno.writeTextFile(`${env.themesDir}/broken.toml`, "[colors");
+  await writeTestConfig(env.configPath, createBasicConfig());
+
+  const result = await createThemeManager({
+    configPath: env.configPath,
+    themesDirPath: env.themesDir,
+    backupPath: env.backupPath,
+    strict: true,
+  });
+
+  assertEquals(result._unsafeUnwrapErr()._tag, "TomlParseError");
+});
+
+Deno.test("createThemeManager: fails when no theme file can be parsed", async () => {
+  await using env = await createTestEnvironment();
+
+  await Deno.writeTextFile(`${env.themesDir}/broken.toml`, "[colors");
+  await writeTestConfig(env.configPath, createBasicConfig());
+
+  const result = await createThemeManager({
+    configPath: env.configPath,
+    themesDirPath: env.themesDir,
+    backupPath: env.backupPath,
+  });
+
+  assertEquals(result._unsafeUnwrapErr()._tag, "TomlParseError");
+});
+
+Deno.test("createThemeManager: doesn't read a malformed state file", async () => {
+  await using env = await createTestEnvironment();
+  const statePath = `${env.tempDir}/ats-state.toml`;
+
+  await createTestThemes(env.themesDir, ["theme1"]);
+  await writeTestConfig(env.configPath, createBasicConfig());
+  await Deno.writeTextFile(statePath, "recent = [");
+
+  const result = await createThemeManager({
+    configPath: env.configPath,
+    themesDirPath: env.themesDir,
+    backupPath: env.backupPath,
+    statePath,
+  });
+
+  assertEquals(result.isOk(), true);
+});
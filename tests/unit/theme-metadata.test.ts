@@ -0,0 +1,54 @@
+/**
+ * Unit tests for the metadata kept in theme files.
+ */
+
+import { assertEquals } from "@std/assert";
+import {
+  readBrightnessOverride,
+  writeBrightnessOverride,
+} from "../../src/theme-manager/theme-metadata.ts";
+
+const THEME = `[colors.primary]
+background = "#808080" # gray
+foreground = "#888888"
+`;
+
+Deno.test("readBrightnessOverride: reads the brightness comment", () => {
+  assertEquals(
+    readBrightnessOverride(`# ats-brightness: light\n${THEME}`),
+    "light",
+  );
+  assertEquals(
+    readBrightnessOverride(`${THEME}#ats-brightness:dark`),
+    "dark",
+  );
+});
+
+Deno.test("readBrightnessOverride: ignores missing and unknown values", () => {
+  assertEquals(readBrightnessOverride(THEME), null);
+  assertEquals(readBrightnessOverride(`# ats-brightness: dim\n${THEME}`), null);
+  assertEquals(
+    readBrightnessOverride(`# Brightness: light\n${THEME}`),
+    null,
+  );
+});
+
+Deno.test("writeBrightnessOverride: adds the comment and keeps the content", () => {
+  assertEquals(
+    writeBrightnessOverride(THEME, "dark"),
+    `# ats-brightness: dark\n${THEME}`,
+  );
+});
+
+Deno.test("writeBrightnessOverride: replaces and removes the comment", () => {
+  const content = `# Theme by someone\n# ats-brightness: light\n${THEME}`;
+
+  assertEquals(
+    writeBrightnessOverride(content, "dark"),
+    `# ats-brightness: dark\n# Theme by someone\n${THEME}`,
+  );
+  assertEquals(
+    writeBrightnessOverride(content, null),
+    `# Theme by someone\n${THEME}`,
+  );
+});
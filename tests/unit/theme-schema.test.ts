@@ -0,0 +1,193 @@
+/**
+ * Unit tests for the typed colors schema and its validation.
+ */
+
+import { assertEquals } from "@std/assert";
+import {
+  toThemeColors,
+  validateThemeContent,
+} from "../../src/theme-manager/theme-schema.ts";
+import { createBasicTheme } from "../utils/test-setup.ts";
+
+Deno.test("validateThemeContent: accepts a complete colors section", () => {
+  const issues = validateThemeContent({
+    colors: {
+      primary: { background: "#000000", dim_foreground: "0x828482" },
+      normal: { black: "#000000" },
+      bright: { white: "#ffffff" },
+      dim: { red: "#864343" },
+      cursor: { text: "CellBackground", cursor: "CellForeground" },
+      vi_mode_cursor: { text: "#000000", cursor: "#ffffff" },
+      search: {
+        matches: { foreground: "#000000", background: "#ffffff" },
+        focused_match: { foreground: "CellBackground" },
+      },
+      hints: {
+        start: { background: "#e9ff5e" },
+        end: { foreground: "#ffffff" },
+      },
+      line_indicator: { foreground: "#ffffff" },
+      footer_bar: { background: "#c5c8c6" },
+      selection: { text: "CellBackground", background: "#44475a" },
+      indexed_colors: [{ index: 16, color: "#ff9e64" }],
+      transparent_background_colors: false,
+      draw_bold_text_with_bright_colors: true,
+    },
+  });
+
+  assertEquals(issues, []);
+});
+
+Deno.test("validateThemeContent: accepts themes without colors", () => {
+  assertEquals(validateThemeContent({}), []);
+  assertEquals(validateThemeContent(createBasicTheme()), []);
+});
+
+Deno.test("validateThemeContent: reports unknown keys with suggestions", () => {
+  const issues = validateThemeContent({
+    colors: { primary: { backgroud: "#000000" }, shadow: {} },
+  });
+
+  assertEquals(issues, [
+    {
+      path: "colors.primary.backgroud",
+      message: "Unknown key, did you mean background?",
+    },
+    { path: "colors.shadow", message: "Unknown key" },
+  ]);
+});
+
+Deno.test("validateThemeContent: reports keys inherited by objects", () => {
+  const content = { colors: { constructor: {}, primary: { toString: {} } } };
+
+  assertEquals(validateThemeContent(content), [
+    { path: "colors.constructor", message: "Unknown key" },
+    { path: "colors.primary.toString", message: "Unknown key" },
+  ]);
+  assertEquals(toThemeColors(content), { primary: {} });
+});
+
+Deno.test("validateThemeContent: reports wrong types", () => {
+  const issues = validateThemeContent({
+    colors: {
+      normal: "#000000",
+      bright: { red: 16711680 },
+      draw_bold_text_with_bright_colors: "yes",
+    },
+  });
+
+  assertEquals(issues, [
+    {
+      path: "colors.normal",
+      message: 'Expected a table, got string "#000000"',
+    },
+    {
+      path: "colors.bright.red",
+      message: "Expected a color, got number 16711680",
+    },
+    {
+      path: "colors.draw_bold_text_with_bright_colors",
+      message: 'Expected a boolean, got string "yes"',
+    },
+  ]);
+});
+
+Deno.test("validateThemeContent: reports bad colors", () => {
+  const issues = validateThemeContent({
+    colors: {
+      primary: { background: "#12345" },
+      normal: { black: "CellBackground" },
+      cursor: { cursor: "black" },
+    },
+  });
+
+  assertEquals(issues.map((issue) => issue.path), [
+    "colors.primary.background",
+    "colors.normal.black",
+    "colors.cursor.cursor",
+  ]);
+  assertEquals(
+    issues[0].message,
+    'Invalid color "#12345", expected #RRGGBB or 0xRRGGBB',
+  );
+  assertEquals(
+    issues[2].message,
+    'Invalid color "black", expected #RRGGBB or 0xRRGGBB, CellForeground or CellBackground',
+  );
+});
+
+Deno.test("validateThemeContent: reports #RGB colors Alacritty rejects", () => {
+  const issues = validateThemeContent({
+    colors: {
+      primary: { background: "#fff", foreground: "#000000" },
+      indexed_colors: [{ index: 16, color: "#f96" }],
+    },
+  });
+
+  assertEquals(issues, [
+    {
+      path: "colors.primary.background",
+      message: 'Invalid color "#fff", expected #RRGGBB or 0xRRGGBB',
+    },
+    {
+      path: "colors.indexed_colors[0].color",
+      message: 'Invalid color "#f96", expected #RRGGBB or 0xRRGGBB',
+    },
+  ]);
+});
+
+Deno.test("validateThemeContent: reports bad indexed colors", () => {
+  const issues = validateThemeContent({
+    colors: {
+      indexed_colors: [
+        { index: 16, color: "#ff9e64" },
+        { index: 3, color: "#ff9e64", name: "orange" },
+        "#ff9e64",
+      ],
+    },
+  });
+
+  assertEquals(issues, [
+    {
+      path: "colors.indexed_colors[1].index",
+      message: "Expected an integer from 16 to 255, got 3",
+    },
+    { path: "colors.indexed_colors[1].name", message: "Unknown key" },
+    {
+      path: "colors.indexed_colors[2]",
+      message: 'Expected a table, got string "#ff9e64"',
+    },
+  ]);
+});
+
+Deno.test("toThemeColors: keeps only valid colors", () => {
+  const colors = toThemeColors({
+    colors: {
+      primary: { background: "#000000", foreground: "white", typo: "#fff" },
+      normal: "#000000",
+      cursor: { cursor: "CellForeground" },
+      indexed_colors: [
+        { index: 16, color: "#ff9e64" },
+        { index: 300, color: "#ff9e64" },
+      ],
+    },
+  });
+
+  assertEquals(colors, {
+    primary: { background: "#000000" },
+    cursor: { cursor: "CellForeground" },
+    indexed_colors: [{ index: 16, color: "#ff9e64" }],
+  });
+});
+
+Deno.test("toThemeColors: reads #RGB colors", () => {
+  assertEquals(
+    toThemeColors({ colors: { primary: { background: "#fff" } } }),
+    { primary: { background: "#fff" } },
+  );
+});
+
+Deno.test("toThemeColors: returns no colors without a colors section", () => {
+  assertEquals(toThemeColors({ colors: "dark" }), {});
+  assertEquals(toThemeColors({}), {});
+});
@@ -0,0 +1,216 @@
+import { assertEquals } from "@std/assert";
+import { parse } from "@std/toml/parse";
+import { removeKey, setStringArray } from "../../src/utils/toml-edit.ts";
+
+const IMPORT_KEY = ["general", "import"];
+
+Deno.test("setStringArray: edits inline array and keeps the rest untouched", () => {
+  const content = "# My config\n" +
+    "[general]\n" +
+    'import = ["base.toml", "themes/old.toml"] # imports\n' +
+    "live_config_reload = true\n" +
+    "\n" +
+    "[font]\n" +
+    "size = 12 # points\n";
+
+  const result = setStringArray(content, IMPORT_KEY, [
+    "base.toml",
+    "themes/new.toml",
+  ]);
+
+  assertEquals(
+    result._unsafeUnwrap(),
+    content.replace("themes/old.toml", "themes/new.toml"),
+  );
+});
+
+Deno.test("setStringArray: keeps quote style and padding of inline array", () => {
+  const content = "[general]\nimport = [ 'themes/old.toml' ]\n";
+
+  const result = setStringArray(content, IMPORT_KEY, ["themes/new.toml"]);
+
+  assertEquals(
+    result._unsafeUnwrap(),
+    "[general]\nimport = [ 'themes/new.toml' ]\n",
+  );
+});
+
+Deno.test("setStringArray: edits multi-line array line by line", () => {
+  const content = "[general]\n" +
+    "import = [\n" +
+    "  # Fonts and keybindings\n" +
+    '  "base.toml",\n' +
+    '  "themes/old.toml",\n' +
+    "]\n";
+
+  const result = setStringArray(content, IMPORT_KEY, [
+    "base.toml",
+    "themes/new.toml",
+  ]);
+
+  assertEquals(
+    result._unsafeUnwrap(),
+    content.replace("themes/old.toml", "themes/new.toml"),
+  );
+});
+
+Deno.test("setStringArray: adds comma to last item of multi-line array without trailing comma", () => {
+  const content = '[general]\nimport = [\n  "base.toml"\n]\n';
+
+  const result = setStringArray(content, IMPORT_KEY, [
+    "base.toml",
+    "themes/new.toml",
+  ]);
+
+  assertEquals(
+    result._unsafeUnwrap(),
+    '[general]\nimport = [\n  "base.toml",\n  "themes/new.toml"\n]\n',
+  );
+});
+
+Deno.test("setStringArray: keeps comments of multi-line array with several items per line", () => {
+  const content = "[general]\n" +
+    "import = [ # imports\n" +
+    '  "base.toml", "keys.toml", # shared\n' +
+    "  # Theme\n" +
+    '  "themes/old.toml"\n' +
+    "]\n";
+
+  const result = setStringArray(content, IMPORT_KEY, [
+    "base.toml",
+    "keys.toml",
+    "themes/new.toml",
+  ]);
+
+  assertEquals(
+    result._unsafeUnwrap(),
+    "[general]\n" +
+      "import = [ # imports\n" +
+      '  "base.toml",\n' +
+      '  "keys.toml", # shared\n' +
+      "  # Theme\n" +
+      '  "themes/new.toml",\n' +
+      "]\n",
+  );
+});
+
+Deno.test("setStringArray: leaves unchanged array untouched", () => {
+  const content = "[general]\n" +
+    'import = [ "base.toml",   # shared\n' +
+    '  "themes/dark.toml" ]\n';
+
+  const result = setStringArray(content, IMPORT_KEY, [
+    "base.toml",
+    "themes/dark.toml",
+  ]);
+
+  assertEquals(result._unsafeUnwrap(), content);
+});
+
+Deno.test("setStringArray: adds key to existing table without import", () => {
+  const content = "[general]\nlive_config_reload = true\n\n[font]\nsize = 12\n";
+
+  const result = setStringArray(content, IMPORT_KEY, ["themes/new.toml"]);
+
+  assertEquals(
+    result._unsafeUnwrap(),
+    "[general]\nlive_config_reload = true\n" +
+      'import = ["themes/new.toml"]\n' +
+      "\n[font]\nsize = 12\n",
+  );
+});
+
+Deno.test("setStringArray: appends missing general table", () => {
+  const content = "# My config\n[font]\nsize = 12\n";
+
+  const result = setStringArray(content, IMPORT_KEY, ["themes/new.toml"]);
+
+  assertEquals(
+    result._unsafeUnwrap(),
+    '# My config\n[font]\nsize = 12\n\n[general]\nimport = ["themes/new.toml"]\n',
+  );
+});
+
+Deno.test("setStringArray: escapes Windows paths", () => {
+  const result = setStringArray("", IMPORT_KEY, [
+    "C:\\Users\\user\\themes\\new.toml",
+  ]);
+
+  assertEquals(parse(result._unsafeUnwrap()), {
+    general: { import: ["C:\\Users\\user\\themes\\new.toml"] },
+  });
+});
+
+Deno.test("setStringArray: fails on inline general table", () => {
+  const result = setStringArray(
+    "general = { import = [] }\n",
+    IMPORT_KEY,
+    ["themes/new.toml"],
+  );
+
+  assertEquals(result.isErr(), true);
+  assertEquals(result._unsafeUnwrapErr()._tag, "TomlEditError");
+});
+
+Deno.test("removeKey: removes tables and dotted keys and keeps the rest untouched", () => {
+  const content = "# My config\n" +
+    "colors.transparent_background_colors = true\n" +
+    "\n" +
+    "[font]\n" +
+    "size = 12 # points\n" +
+    "\n" +
+    "[colors.primary]\n" +
+    "# dark background\n" +
+    "background = '#101010'\n" +
+    "\n" +
+    "[[colors.indexed_colors]]\n" +
+    "index = 16\n" +
+    "color = '#ff0000'\n" +
+    "\n" +
+    "# Window settings\n" +
+    "[window]\n" +
+    "opacity = 0.9\n";
+
+  const { content: edited, removed } = removeKey(content, ["colors"])
+    ._unsafeUnwrap();
+
+  assertEquals(
+    edited,
+    "# My config\n" +
+      "\n" +
+      "[font]\n" +
+      "size = 12 # points\n" +
+      "\n" +
+      "# Window settings\n" +
+      "[window]\n" +
+      "opacity = 0.9\n",
+  );
+  assertEquals(parse(removed), {
+    colors: {
+      transparent_background_colors: true,
+      primary: { background: "#101010" },
+      indexed_colors: [{ index: 16, color: "#ff0000" }],
+    },
+  });
+});
+
+Deno.test("removeKey: removes an inline table", () => {
+  const content = "colors = { primary = { background = '#101010' } }\n" +
+    "\n" +
+    "[general]\nimport = []\n";
+
+  const { content: edited, removed } = removeKey(content, ["colors"])
+    ._unsafeUnwrap();
+
+  assertEquals(edited, "[general]\nimport = []\n");
+  assertEquals(removed, "colors = { primary = { background = '#101010' } }\n");
+});
+
+Deno.test("removeKey: returns nothing when the key is missing", () => {
+  const content = "[font]\nsize = 12\n";
+
+  assertEquals(removeKey(content, ["colors"])._unsafeUnwrap(), {
+    content,
+    removed: "",
+  });
+});
@@ -1,6 +1,12 @@
 import { assertEquals } from "@std/assert";
-import { unslugify } from "../../src/utils/string-utils.ts";
-import { isToml } from "../../src/utils/toml-utils.ts";
+import { formatLineDiff } from "../../src/utils/diff.ts";
+import {
+  editDistance,
+  findSimilar,
+  unslugify,
+} from "../../src/utils/string-utils.ts";
+import { TomlParseError } from "../../src/utils/toml-errors.ts";
+import { isToml, safeParseTomlContent } from "../../src/utils/toml-utils.ts";
 
 Deno.test("unslugify: basic underscore replacement", () => {
   assertEquals(unslugify("monokai_pro.toml"), "Monokai Pro");
@@ -136,6 +142,40 @@ Deno.test("unslugify: non-Roman numeral words unchanged", () => {
   assertEquals(unslugify("invisible_theme.toml"), "Invisible Theme");
 });
 
+Deno.test("editDistance: counts insertions, deletions and substitutions", () => {
+  assertEquals(editDistance("monokai", "monokai"), 0);
+  assertEquals(editDistance("monokia", "monokai"), 2);
+  assertEquals(editDistance("nord", "nord-light"), 6);
+  assertEquals(editDistance("", "abc"), 3);
+});
+
+Deno.test("findSimilar: returns the most similar candidates first", () => {
+  assertEquals(
+    findSimilar("Monokia.toml", [
+      "nord.toml",
+      "monokai_2.toml",
+      "monokai.toml",
+    ]),
+    ["monokai.toml", "monokai_2.toml"],
+  );
+});
+
+Deno.test("findSimilar: leaves out distant candidates", () => {
+  assertEquals(findSimilar("nord.toml", ["dracula.toml", "gruvbox.toml"]), []);
+});
+
+Deno.test("findSimilar: compares candidates by their keys", () => {
+  assertEquals(
+    findSimilar(
+      "nrod.toml",
+      ["dark/nord.toml", "light/dracula.toml"],
+      3,
+      (candidate) => candidate.split("/").pop()!,
+    ),
+    ["dark/nord.toml"],
+  );
+});
+
 Deno.test("isToml: valid TOML file", () => {
   assertEquals(isToml("theme.toml"), true);
 });
@@ -196,3 +236,64 @@ Deno.test("isToml: relative path with TOML extension", () => {
   assertEquals(isToml("./themes/theme.toml"), true);
   assertEquals(isToml("../themes/theme.toml"), true);
 });
+
+Deno.test("formatLineDiff: marks changed lines", () => {
+  assertEquals(formatLineDiff("a\nb\n", "a\nc\n"), [" a", "-b", "+c"]);
+});
+
+Deno.test("formatLineDiff: skips unchanged lines far from changes", () => {
+  const oldText = "1\n2\n3\n4\n5\n6\n7\n";
+  assertEquals(
+    formatLineDiff(
+      oldText,
+      oldText.replace("1", "one").replace("7", "seven"),
+      1,
+    ),
+    ["-1", "+one", " 2", "...", " 6", "-7", "+seven"],
+  );
+});
+
+Deno.test("formatLineDiff: returns no lines for equal texts", () => {
+  assertEquals(formatLineDiff("a\r\nb", "a\nb\n"), []);
+});
+
+Deno.test("TomlParseError: reports path, line and column with a code frame", () => {
+  const content = "[general]\nimport = [\n\n[font]\nsize = 12\n";
+  const error = new TomlParseError(content, "/config/alacritty.toml", {
+    cause: new SyntaxError("Parse error on line 2, column 9: Unexpected end"),
+  });
+
+  assertEquals(
+    error.message,
+    "Failed to parse /config/alacritty.toml:2:10: Unexpected end",
+  );
+  assertEquals([error.line, error.column], [2, 10]);
+  assertEquals(
+    error.codeFrame(1),
+    "  1 | [general]\n" +
+      "> 2 | import = [\n" +
+      "    |          ^\n" +
+      "  3 |",
+  );
+});
+
+Deno.test("TomlParseError: has no code frame without a position", () => {
+  const error = new TomlParseError("a =", undefined, {
+    cause: new Error("Something went wrong"),
+  });
+
+  assertEquals(error.message, "Failed to parse TOML content.");
+  assertEquals(error.codeFrame(), "");
+});
+
+Deno.test("safeParseTomlContent: keeps the path and position of errors", () => {
+  const result = safeParseTomlContent("[colors\n", "/themes/broken.toml");
+
+  const error = result._unsafeUnwrapErr();
+  assertEquals(error.path, "/themes/broken.toml");
+  assertEquals(error.line, 1);
+  assertEquals(
+    error.message.startsWith("Failed to parse /themes/broken.toml:1:"),
+    true,
+  );
+});